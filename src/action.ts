@@ -7,6 +7,10 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import { runCompleteWorkflow } from './workflow';
+import { GitHubClient } from './github';
+import { createStickyCommentPublisher, parseCommentTarget } from './publish';
+import { AIReviewerUtils, isApiClientType, isResolutionMode } from './config';
+import { describeQualityGate, evaluateQualityGates, formatQualityGatesMarkdown, parseQualityGateThresholds } from './quality-gates';
 
 /**
  * Masks sensitive values in GitHub Actions logs
@@ -20,11 +24,55 @@ async function run(): Promise<void> {
     // Get inputs
     const githubToken = core.getInput('github-token', { required: true });
     const repository = core.getInput('repository') || github.context.repo.owner + '/' + github.context.repo.repo;
-    const reviewerUsername = core.getInput('reviewer-username', { required: true });
+    const reviewerInput = core.getInput('reviewer-username', { required: true });
+    const reviewers = AIReviewerUtils.parseReviewerList(reviewerInput);
+    if (reviewers.length === 0) {
+      throw new Error('At least one reviewer username is required');
+    }
+    const reviewerUsername = reviewers[0];
     const startDateInput = core.getInput('start-date');
     const endDateInput = core.getInput('end-date');
     const daysInput = core.getInput('days');
     const outputPath = core.getInput('output-path') || './pr-metrics-reports';
+    const resolutionMode = core.getInput('resolution-mode') || 'threads';
+    const organization = core.getInput('organization');
+    const repositoriesInput = core.getInput('repositories');
+    const repositoryFilter = core.getInput('repository-filter');
+    const topic = core.getInput('topic');
+    const concurrency = parseInt(core.getInput('concurrency') || '1', 10);
+    const apiClient = core.getInput('api-client') || 'rest';
+    const cacheDir = core.getInput('cache-dir');
+    const apiBaseUrl = core.getInput('api-base-url');
+    const webBaseUrl = core.getInput('web-base-url');
+    const cacheTtl = parseInt(core.getInput('cache-ttl') || '0', 10);
+    const commentTargetInput = core.getInput('comment-target');
+    const commentTargetType = core.getInput('comment-target-type') || 'issue';
+    const stickyCommentId = core.getInput('sticky-comment-id');
+    const anonymizeAuthors = core.getInput('anonymize-authors') === 'true';
+    const thresholds = parseQualityGateThresholds({
+      minResolutionRate: core.getInput('min-resolution-rate'),
+      maxNegativeReactionRate: core.getInput('max-negative-reaction-rate'),
+      minReplyRate: core.getInput('min-reply-rate')
+    });
+
+    if (!isResolutionMode(resolutionMode)) {
+      throw new Error('Resolution mode must be either "threads" or "heuristic"');
+    }
+    if (isNaN(concurrency) || concurrency <= 0) {
+      throw new Error('Concurrency must be a positive number');
+    }
+    if (!isApiClientType(apiClient)) {
+      throw new Error('API client must be either "rest" or "graphql"');
+    }
+    if (isNaN(cacheTtl) || cacheTtl < 0) {
+      throw new Error('Cache TTL must be a non-negative number of seconds');
+    }
+    if (commentTargetType !== 'issue' && commentTargetType !== 'discussion') {
+      throw new Error('Comment target type must be either "issue" or "discussion"');
+    }
+    const commentTarget = commentTargetInput
+      ? parseCommentTarget(commentTargetInput, commentTargetType, `${github.context.repo.owner}/${github.context.repo.repo}`)
+      : undefined;
     
     // Calculate date range
     let startDate: string;
@@ -62,10 +110,23 @@ async function run(): Promise<void> {
     const result = await runCompleteWorkflow({
       repository,
       reviewerUsername,
+      reviewers,
       startDate,
       endDate,
       outputDir: outputPath,
-      githubToken
+      githubToken,
+      resolutionMode,
+      concurrency,
+      apiClient,
+      cacheTtl,
+      ...(cacheDir ? { cacheDir } : {}),
+      ...(apiBaseUrl ? { apiBaseUrl } : {}),
+      ...(webBaseUrl ? { webBaseUrl } : {}),
+      ...(organization ? { organization } : {}),
+      ...(repositoriesInput ? { repositories: repositoriesInput.split(',').map(item => item.trim()).filter(item => item) } : {}),
+      ...(repositoryFilter ? { repositoryFilter } : {}),
+      ...(topic ? { topic } : {}),
+      ...(anonymizeAuthors ? { anonymizeAuthors } : {})
     }, {
       info: core.info,
       warning: core.warning,
@@ -74,20 +135,28 @@ async function run(): Promise<void> {
 
     // Set artifact outputs
     result.artifacts.forEach(artifact => {
-      const ext = artifact.endsWith('.json') ? 'json' : 'markdown';
+      const ext = artifact.endsWith('.json') ? 'json' : artifact.endsWith('.html') ? 'html' : 'markdown';
       core.setOutput(`report-${ext}-path`, artifact);
     });
     
+    // Check quality gates; the results lead the workflow summary
+    const gates = evaluateQualityGates(result.summary, thresholds);
+    if (gates.length > 0) {
+      gates.forEach(gate => core.info(`${gate.passed ? '✅' : '❌'} Quality gate: ${describeQualityGate(gate)}`));
+      core.summary.addRaw(formatQualityGatesMarkdown(gates));
+    }
+
     // Show the generated markdown report in the workflow summary
     const markdownReportPath = result.artifacts.find(artifact => artifact.endsWith('.md'));
     
     core.info(`📁 Available artifacts: ${result.artifacts.join(', ')}`);
     
+    let markdownContent: string | undefined;
     if (markdownReportPath) {
       try {
         const fs = await import('fs/promises');
         core.info(`📖 Reading markdown report from: ${markdownReportPath}`);
-        const markdownContent = await fs.readFile(markdownReportPath, 'utf8');
+        markdownContent = await fs.readFile(markdownReportPath, 'utf8');
         core.info(`📄 Markdown content length: ${markdownContent.length} characters`);
         await core.summary.addRaw(markdownContent).write();
         core.info(`📊 Analysis report displayed in workflow summary`);
@@ -97,6 +166,35 @@ async function run(): Promise<void> {
     } else {
       core.warning('No markdown report found to display in summary');
     }
+
+    // Quality gate results are still shown when the report could not be added
+    if (!core.summary.isEmptyBuffer()) {
+      await core.summary.write();
+    }
+
+    // Keep the report in a single sticky comment on the configured issue, PR or discussion
+    if (commentTarget) {
+      if (markdownContent === undefined) {
+        throw new Error('No markdown report available to publish as a comment');
+      }
+
+      const apiUrl = apiBaseUrl || process.env.GITHUB_API_URL;
+      const githubClient = new GitHubClient(apiUrl ? { apiBaseUrl: apiUrl } : {});
+      await githubClient.authenticate({ type: 'token', token: githubToken });
+
+      const publisher = createStickyCommentPublisher(githubClient, stickyCommentId ? { stickyId: stickyCommentId } : {});
+      const published = await publisher.publish(
+        commentTarget,
+        (gates.length > 0 ? formatQualityGatesMarkdown(gates) : '') + markdownContent
+      );
+      core.setOutput('comment-url', published.comment.url);
+      core.info(`💬 Report comment ${published.action}: ${published.comment.url}`);
+    }
+
+    const breached = gates.filter(gate => !gate.passed);
+    if (breached.length > 0) {
+      core.setFailed(`Quality gates failed: ${breached.map(describeQualityGate).join('; ')}`);
+    }
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,93 @@
+/**
+ * On-disk HTTP response cache for GitHub API requests
+ * Responses are stored with their ETag so later runs can revalidate them with conditional
+ * requests; a 304 Not Modified does not count against the primary rate limit
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Cached response stored on disk
+ */
+export interface CacheEntry {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  data: any;
+  /** When the response was last fetched or revalidated (epoch milliseconds) */
+  storedAt: number;
+}
+
+/**
+ * Counters describing how requests were served during a run
+ */
+export interface CacheStats {
+  /** Served from disk without a request (within the TTL) */
+  hits: number;
+  /** Confirmed unchanged by a 304 response */
+  revalidated: number;
+  /** Fetched in full */
+  misses: number;
+}
+
+/**
+ * Response cache keyed by request URL, query parameters and credentials
+ */
+export class ResponseCache {
+  readonly stats: CacheStats = { hits: 0, revalidated: 0, misses: 0 };
+
+  /**
+   * @param directory - Directory holding one JSON file per cached response
+   * @param ttlSeconds - How long a response is reused without revalidation (0 always revalidates)
+   */
+  constructor(public readonly directory: string, public readonly ttlSeconds: number = 0) {}
+
+  /**
+   * Build the cache key for a request
+   * Credentials are part of the key (hashed, never stored) because responses differ per token
+   */
+  keyFor(url: string, params: Record<string, any> = {}, credentials: string = ''): string {
+    const sortedParams = Object.keys(params).sort().map(name => [name, params[name]]);
+    return createHash('sha256')
+      .update(JSON.stringify([credentials, url, sortedParams]))
+      .digest('hex');
+  }
+
+  /**
+   * Read a cached response; unreadable entries are treated as missing
+   */
+  read(key: string): CacheEntry | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.pathFor(key), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a response, replacing any previous entry atomically
+   */
+  write(key: string, entry: CacheEntry): void {
+    if (!fs.existsSync(this.directory)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    const filePath = this.pathFor(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entry));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Check if an entry can be served without revalidation
+   */
+  isFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+    return this.ttlSeconds > 0 && now - entry.storedAt < this.ttlSeconds * 1000;
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Collection checkpoints for resumable data collection
+ * Progress is appended to a JSON Lines sidecar file, one record per completed step,
+ * so an interrupted or crashed run loses at most the pull request in flight
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PullRequest, Comment } from './types/core';
+import { DataStorage } from './storage';
+
+/**
+ * Parameters identifying the collection a checkpoint belongs to
+ */
+export interface CheckpointKey {
+  repository: string;
+  reviewer: string;
+  period: {
+    start: string;
+    end: string;
+  };
+  updatedSince?: string;
+}
+
+/**
+ * Data collected for a pull request alongside the reviewer comments
+ */
+export type PullRequestDetails = Pick<PullRequest, 'reviews' | 'commits' | 'files'>;
+
+/**
+ * Records stored in the checkpoint file
+ */
+type CheckpointRecord =
+  | { type: 'header'; version: 1; startedAt: string; key: CheckpointKey }
+  | { type: 'pullRequests'; repository: string; pullRequests: PullRequest[] }
+  | ({ type: 'comments'; repository: string; prNumber: number; comments: Comment[] } & PullRequestDetails);
+
+/**
+ * Collection checkpoint backed by an append-only sidecar file
+ */
+export class CollectionCheckpoint {
+  private pullRequests = new Map<string, PullRequest[]>();
+  private comments = new Map<string, Comment[]>();
+  private details = new Map<string, PullRequestDetails>();
+  private fd: number | null = null;
+
+  private constructor(
+    public readonly filePath: string,
+    public readonly key: CheckpointKey,
+    public readonly startedAt: string
+  ) {}
+
+  /**
+   * Get the sidecar checkpoint path for an output file
+   */
+  static pathFor(outputPath: string): string {
+    return `${outputPath}.checkpoint.jsonl`;
+  }
+
+  /**
+   * Start a new checkpoint, replacing any existing file
+   */
+  static create(filePath: string, key: CheckpointKey, startedAt: Date = new Date()): CollectionCheckpoint {
+    const checkpoint = new CollectionCheckpoint(filePath, key, startedAt.toISOString());
+
+    const outputDir = path.dirname(filePath);
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    fs.writeFileSync(filePath, '');
+    checkpoint.append({ type: 'header', version: 1, startedAt: checkpoint.startedAt, key });
+    return checkpoint;
+  }
+
+  /**
+   * Load an existing checkpoint and continue appending to it
+   * Returns null when the file does not exist or has no valid header.
+   * A truncated final line (from a crash mid-write) is ignored.
+   */
+  static load(filePath: string): CollectionCheckpoint | null {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const records: CheckpointRecord[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Partially written record from an interrupted run
+      }
+    }
+
+    const header = records[0];
+    if (!header || header.type !== 'header' || header.version !== 1) {
+      return null;
+    }
+
+    const checkpoint = new CollectionCheckpoint(filePath, header.key, header.startedAt);
+    for (const record of records.slice(1)) {
+      if (record.type === 'pullRequests') {
+        checkpoint.pullRequests.set(record.repository, record.pullRequests.map(pr => DataStorage.revivePullRequest(pr)));
+      } else if (record.type === 'comments') {
+        const key = CollectionCheckpoint.commentsKey(record.repository, record.prNumber);
+        checkpoint.comments.set(key, record.comments.map(comment => DataStorage.reviveComment(comment)));
+        checkpoint.details.set(key, {
+          ...(record.reviews ? { reviews: record.reviews.map(review => DataStorage.reviveReview(review)) } : {}),
+          ...(record.commits ? { commits: record.commits.map(commit => DataStorage.reviveCommit(commit)) } : {}),
+          ...(record.files ? { files: record.files } : {})
+        });
+      }
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * Pull requests recorded for a repository, if its PR listing already completed
+   */
+  getPullRequests(repository: string): PullRequest[] | undefined {
+    return this.pullRequests.get(repository);
+  }
+
+  /**
+   * Record the pull request listing of a repository
+   */
+  recordPullRequests(repository: string, pullRequests: PullRequest[]): void {
+    this.pullRequests.set(repository, pullRequests);
+    this.append({ type: 'pullRequests', repository, pullRequests });
+  }
+
+  /**
+   * Reviewer comments recorded for a pull request, if it already completed
+   */
+  getComments(repository: string, prNumber: number): Comment[] | undefined {
+    return this.comments.get(CollectionCheckpoint.commentsKey(repository, prNumber));
+  }
+
+  /**
+   * Reviews, commits and files recorded for a pull request, if it already completed
+   */
+  getDetails(repository: string, prNumber: number): PullRequestDetails | undefined {
+    return this.details.get(CollectionCheckpoint.commentsKey(repository, prNumber));
+  }
+
+  /**
+   * Record the reviewer comments and other details of a completed pull request
+   */
+  recordComments(repository: string, prNumber: number, comments: Comment[], details: PullRequestDetails = {}): void {
+    const key = CollectionCheckpoint.commentsKey(repository, prNumber);
+    this.comments.set(key, comments);
+    this.details.set(key, details);
+    this.append({ type: 'comments', repository, prNumber, comments, ...details });
+  }
+
+  /**
+   * Number of recorded pull requests whose comments have not been collected
+   */
+  countPendingPullRequests(): number {
+    let pending = 0;
+    for (const [repository, prs] of this.pullRequests) {
+      pending += prs.filter(pr => !this.comments.has(CollectionCheckpoint.commentsKey(repository, pr.number))).length;
+    }
+    return pending;
+  }
+
+  /**
+   * Flush written records to disk and close the file
+   */
+  flush(): void {
+    if (this.fd !== null) {
+      fs.fsyncSync(this.fd);
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  /**
+   * Delete the checkpoint file after a successful collection
+   */
+  remove(): void {
+    this.flush();
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
+  }
+
+  private append(record: CheckpointRecord): void {
+    if (this.fd === null) {
+      this.fd = fs.openSync(this.filePath, 'a');
+    }
+    fs.writeSync(this.fd, JSON.stringify(record) + '\n');
+  }
+
+  private static commentsKey(repository: string, prNumber: number): string {
+    return `${repository}#${prNumber}`;
+  }
+}
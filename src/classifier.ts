@@ -0,0 +1,280 @@
+/**
+ * Rule-pack comment classifier
+ *
+ * A rule pack is a list of regular expressions, each with a category and a priority.
+ * A comment gets the category of the highest-priority rule that matches it (the first one
+ * listed on a tie), or the pack's fallback category when none does. Packs are plain data,
+ * loadable from JSON or YAML files:
+ *
+ * ```yaml
+ * extends: default        # optional: start from the built-in rules
+ * fallback: other
+ * rules:
+ *   - id: flaky-tests
+ *     category: testing
+ *     pattern: '\bflak(y|iness)\b'
+ *     priority: 85
+ * ```
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Comment } from './types/core';
+import { CommentClassification, CommentClassifier, RuleMatch } from './types/interfaces';
+
+/**
+ * A classification rule; `pattern` is a JavaScript regular expression
+ */
+export interface ClassificationRule {
+  /** Name shown when explaining a classification; defaults to `<category>-<position>` */
+  id?: string;
+  category: string;
+  pattern: string;
+  /** Regular expression flags (default "i") */
+  flags?: string;
+  /** Higher priorities win (default 0) */
+  priority?: number;
+}
+
+export interface RulePack {
+  /** "default" to include the built-in rules before this pack's own */
+  extends?: 'default';
+  /** Category of comments no rule matches (default "unknown") */
+  fallback?: string;
+  rules: ClassificationRule[];
+}
+
+interface CompiledRule {
+  id: string;
+  category: string;
+  priority: number;
+  regex: RegExp;
+  position: number;
+}
+
+/**
+ * Built-in rules: specific concerns (security, bugs, performance) outrank how a comment is phrased,
+ * so "You should escape this input" is a security comment rather than a suggestion
+ */
+export const DEFAULT_RULE_PACK: RulePack = {
+  fallback: 'unknown',
+  rules: [
+    {
+      id: 'security',
+      category: 'security',
+      pattern: '\\b(security|vulnerab\\w*|injection|xss|csrf|ssrf|cve-\\d+|secrets?|credentials?|passwords?|api keys?|sanitiz\\w*|unsafe)\\b',
+      priority: 100
+    },
+    {
+      id: 'bug',
+      category: 'bug',
+      pattern: '\\b(bugs?|crash\\w*|null pointer|off[- ]by[- ]one|race conditions?|incorrect(ly)?|wrong|broken|regression|memory leaks?|unhandled|throws?)\\b',
+      priority: 90
+    },
+    {
+      id: 'performance',
+      category: 'performance',
+      pattern: '\\b(performance|slow(er|ly)?|latency|quadratic|n\\+1 quer(y|ies)|inefficien\\w*|allocations?|memoi[sz]\\w*|bottlenecks?)\\b',
+      priority: 80
+    },
+    {
+      id: 'nitpick',
+      category: 'nitpick',
+      pattern: '\\bnit(pick(ing|y|s)?|s)?\\b|^\\W*(minor|optional)\\b',
+      flags: 'im',
+      priority: 70
+    },
+    {
+      id: 'docs',
+      category: 'docs',
+      pattern: '\\b(docs?|documentation|docstrings?|jsdoc|tsdoc|readme|changelog)\\b',
+      priority: 60
+    },
+    {
+      id: 'style',
+      category: 'style',
+      pattern: '\\b(naming|rename|typos?|formatting|indentation|whitespace|lint(er|ing)?|eslint|prettier|readability|consisten(t|cy)|style)\\b',
+      priority: 50
+    },
+    {
+      id: 'question',
+      category: 'question',
+      pattern: '\\?\\s*$',
+      flags: 'm',
+      priority: 30
+    },
+    {
+      id: 'suggestion',
+      category: 'suggestion',
+      pattern: '\\b(suggest\\w*|recommend\\w*|consider|prefer|instead|could|should|might want)\\b',
+      priority: 20
+    },
+    {
+      id: 'praise',
+      category: 'praise',
+      pattern: '\\b(lgtm|looks good|great|nice|well done|excellent|good job)\\b',
+      priority: 10
+    }
+  ]
+};
+
+/**
+ * Text the rules are matched against: hidden HTML comments (bot metadata) and fenced code blocks are dropped,
+ * so identifiers in code do not decide the category
+ */
+function classifiableText(body: string): string {
+  return body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '');
+}
+
+/**
+ * Classifier applying a rule pack
+ */
+export class RulePackClassifier implements CommentClassifier {
+  private readonly rules: CompiledRule[];
+  private readonly fallback: string;
+
+  constructor(pack: RulePack = DEFAULT_RULE_PACK) {
+    const rules = pack.extends === 'default' ? [...DEFAULT_RULE_PACK.rules, ...pack.rules] : pack.rules;
+    this.fallback = pack.fallback || DEFAULT_RULE_PACK.fallback || 'unknown';
+    this.rules = rules
+      .map((rule, index) => {
+        const position = index + 1;
+        const id = rule.id || `${rule.category}-${position}`;
+        let regex: RegExp;
+        try {
+          regex = new RegExp(rule.pattern, rule.flags ?? 'i');
+        } catch (error) {
+          throw new Error(`Rule ${id}: invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return { id, category: rule.category, priority: rule.priority ?? 0, regex, position };
+      })
+      .sort((a, b) => b.priority - a.priority || a.position - b.position);
+  }
+
+  classify(comment: Comment): CommentClassification {
+    const text = classifiableText(comment.body);
+    const matches: RuleMatch[] = [];
+
+    for (const rule of this.rules) {
+      const match = text.match(rule.regex);
+      if (match) {
+        matches.push({ rule: rule.id, category: rule.category, priority: rule.priority, text: match[0].trim() });
+      }
+    }
+
+    const [winner] = matches;
+    return winner
+      ? { category: winner.category, rule: winner.rule, matches }
+      : { category: this.fallback, matches };
+  }
+
+  /**
+   * Categories the pack can assign, in priority order, fallback last
+   */
+  getCategories(): string[] {
+    return [...new Set([...this.rules.map(rule => rule.category), this.fallback])];
+  }
+}
+
+/**
+ * Check the shape of a parsed rule pack, returning a list of problems
+ */
+export function validateRulePack(pack: unknown): string[] {
+  if (!pack || typeof pack !== 'object' || Array.isArray(pack)) {
+    return ['rule pack must be an object with a "rules" list'];
+  }
+
+  const errors: string[] = [];
+  const { extends: base, fallback, rules } = pack as Record<string, unknown>;
+  if (base !== undefined && base !== 'default') {
+    errors.push('"extends" must be "default"');
+  }
+  if (fallback !== undefined && (typeof fallback !== 'string' || fallback.trim() === '')) {
+    errors.push('"fallback" must be a non-empty string');
+  }
+  if (!Array.isArray(rules)) {
+    errors.push('"rules" must be a list');
+    return errors;
+  }
+
+  rules.forEach((rule, index) => {
+    const label = `rules[${index}]`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    for (const field of ['category', 'pattern'] as const) {
+      if (typeof rule[field] !== 'string' || rule[field].trim() === '') {
+        errors.push(`${label}.${field} must be a non-empty string`);
+      }
+    }
+    for (const field of ['id', 'flags'] as const) {
+      if (rule[field] !== undefined && typeof rule[field] !== 'string') {
+        errors.push(`${label}.${field} must be a string`);
+      }
+    }
+    if (rule.priority !== undefined && (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority))) {
+      errors.push(`${label}.priority must be a number`);
+    }
+    if (typeof rule.pattern === 'string' && (rule.flags === undefined || typeof rule.flags === 'string')) {
+      try {
+        new RegExp(rule.pattern, rule.flags ?? 'i');
+      } catch (error) {
+        errors.push(`${label}.pattern is invalid: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Load a rule pack from a JSON or YAML (.yml, .yaml) file
+ */
+export async function loadRulePack(filePath: string): Promise<RulePack> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch {
+    throw new Error(`Rule pack not found: ${filePath}`);
+  }
+
+  let pack: unknown;
+  try {
+    pack = ['.yml', '.yaml'].includes(path.extname(filePath).toLowerCase()) ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid rule pack ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = validateRulePack(pack);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule pack ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return pack as RulePack;
+}
+
+/**
+ * Explain a classification in one line, e.g.
+ * `security (rule security matched "password"; also matched suggestion "should")`
+ */
+export function describeClassification(classification: CommentClassification): string {
+  const [winner, ...others] = classification.matches;
+  if (!winner) {
+    return `${classification.category} (no rule matched)`;
+  }
+
+  const also = others.length > 0
+    ? `; also matched ${others.map(match => `${match.rule} "${match.text}"`).join(', ')}`
+    : '';
+  return `${classification.category} (rule ${winner.rule} matched "${winner.text}"${also})`;
+}
+
+/**
+ * Factory function to create a comment classifier, from a rule pack file when given
+ */
+export async function createCommentClassifier(rulesPath?: string): Promise<RulePackClassifier> {
+  return new RulePackClassifier(rulesPath ? await loadRulePack(rulesPath) : DEFAULT_RULE_PACK);
+}
@@ -3,17 +3,29 @@
  */
 
 import { Command } from 'commander';
-import { createMetricsCalculator } from '../metrics';
+import { anonymizeAuthors, createMetricsCalculator, isTrendBucket } from '../metrics';
+import { createCommentClassifier } from '../classifier';
 import { createDataProcessor } from '../processors';
 import { DataStorage } from '../storage';
-import { createMetricsReport, getFileExtension } from '../reporters';
+import { OUTPUT_FORMATS, createMetricsReport, getFileExtension, isFormatSupported } from '../reporters';
 import { generateAndSaveReportToPath } from '../workflow';
+import { isResolutionMode } from '../config';
+import { QualityGateThresholds, describeQualityGate, evaluateQualityGates, parseQualityGateThresholds } from '../quality-gates';
 
 export const analyzeCommand = new Command('analyze')
   .description('Analyze collected PR data and generate report')
   .option('-i, --input <file>', 'Input JSON file path', './temp/pr-data.json')
-  .option('--report <format>', 'Report format (json, markdown)', 'json')
+  .option('--report <format>', `Report format (${OUTPUT_FORMATS.join(', ')})`, 'json')
   .option('--report-output <file>', 'Output file for generated report')
+  .option('--template <file>', 'Template file for the Markdown report, replacing the built-in layout')
+  .option('--resolution-mode <mode>', 'How comment resolution is determined (threads, heuristic); defaults to the mode used during collection')
+  .option('--bucket <bucket>', 'Add a trend of the metrics per week or month of the period (week, month)')
+  .option('--web-base-url <url>', 'GitHub web base URL used for PR links; defaults to the instance the data was collected from')
+  .option('--rules <file>', 'Rule pack file (JSON or YAML) for classifying comments, replacing the built-in rules')
+  .option('--anonymize-authors', 'Replace PR author logins with "Author 1", "Author 2", ... and hide PR titles and comment text in the report')
+  .option('--min-resolution-rate <percent>', 'Exit with an error when the resolution rate is below this percentage')
+  .option('--max-negative-reaction-rate <percent>', 'Exit with an error when the negative reaction rate is above this percentage')
+  .option('--min-reply-rate <percent>', 'Exit with an error when the reply rate is below this percentage')
   .action(async (options) => {
     try {
       console.log('🚀 Analyzing PR metrics...');
@@ -33,6 +45,18 @@ export const analyzeCommand = new Command('analyze')
         process.exit(1);
       }
       
+      let thresholds: QualityGateThresholds;
+      try {
+        thresholds = parseQualityGateThresholds({
+          minResolutionRate: options.minResolutionRate,
+          maxNegativeReactionRate: options.maxNegativeReactionRate,
+          minReplyRate: options.minReplyRate
+        });
+      } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+
       const { prs, comments, metadata } = await DataStorage.loadCollectedData(options.input);
       console.log(`📊 Loaded ${metadata.totalPRs} PRs, ${metadata.totalComments} comments`);
 
@@ -41,57 +65,106 @@ export const analyzeCommand = new Command('analyze')
         return;
       }
 
+      // Data collected without review thread state can only use the heuristics
+      const resolutionMode = options.resolutionMode || metadata.resolutionMode || 'heuristic';
+      if (!isResolutionMode(resolutionMode)) {
+        console.error('❌ Invalid resolution mode. Supported modes: threads, heuristic');
+        process.exit(1);
+      }
+
       // Process data and calculate metrics
-      console.log('🔄 Processing metrics...');
-      const processor = createDataProcessor();
-      const processedComments = processor.classifyReactions(
-        processor.detectReplies(
-          processor.detectResolution(comments)
-        )
+      console.log(`🔄 Processing metrics (resolution: ${resolutionMode})...`);
+      const processor = createDataProcessor({ resolutionMode });
+      const processedComments = processor.detectSuggestions(
+        processor.detectAcceptance(
+          processor.classifyReactions(
+            processor.detectReplies(
+              processor.detectResolution(comments)
+            )
+          ),
+          prs
+        ),
+        prs
       );
 
-      const calculator = createMetricsCalculator();
+      const calculator = createMetricsCalculator({
+        webBaseUrl: options.webBaseUrl || metadata.webBaseUrl,
+        classifier: await createCommentClassifier(options.rules)
+      });
       const summary = calculator.calculateSummary(prs, processedComments);
       const detailed = calculator.calculateDetailed(prs, processedComments, metadata.repository);
+      const reviewerBreakdown = metadata.reviewers && metadata.reviewers.length > 1
+        ? calculator.calculateReviewerBreakdown(prs, processedComments, metadata.reviewers, metadata.repository)
+        : undefined;
+
+      if (options.bucket && !isTrendBucket(options.bucket)) {
+        console.error('❌ Invalid bucket. Supported buckets: week, month');
+        process.exit(1);
+      }
+
+      const period = {
+        start: new Date(metadata.period.start),
+        end: new Date(metadata.period.end)
+      };
+      const trend = options.bucket
+        ? { bucket: options.bucket, points: calculator.calculateTrend(prs, processedComments, period, options.bucket) }
+        : undefined;
 
       // Validate report format
       const format = options.report.toLowerCase();
-      if (!['json', 'markdown'].includes(format)) {
-        console.error('❌ Invalid report format. Supported formats: json, markdown');
+      if (!isFormatSupported(format)) {
+        console.error(`❌ Invalid report format. Supported formats: ${OUTPUT_FORMATS.join(', ')}`);
         process.exit(1);
       }
+      if (options.template) {
+        if (format !== 'markdown') {
+          console.error('❌ --template can only be used with --report markdown');
+          process.exit(1);
+        }
+        if (!DataStorage.fileExists(options.template)) {
+          console.error(`❌ Template file not found: ${options.template}`);
+          process.exit(1);
+        }
+      }
 
-      const report = createMetricsReport(
+      const metricsReport = createMetricsReport(
         metadata.repository,
-        {
-          start: new Date(metadata.period.start),
-          end: new Date(metadata.period.end)
-        },
+        period,
         metadata.reviewer,
         summary,
-        detailed
+        detailed,
+        reviewerBreakdown,
+        trend
       );
+      const report = options.anonymizeAuthors ? anonymizeAuthors(metricsReport) : metricsReport;
 
       // Determine output file path
       let outputPath = options.reportOutput;
       if (!outputPath) {
         const baseName = options.input.replace(/\.[^/.]+$/, ''); // Remove extension
-        const extension = getFileExtension(format as 'json' | 'markdown');
+        const extension = getFileExtension(format);
         outputPath = `${baseName}-report${extension}`;
       }
 
       // Use the extracted report generation function
       await generateAndSaveReportToPath(
         report, 
-        format as 'json' | 'markdown', 
+        format, 
         outputPath,
-        { info: (message: string) => console.log(message) }
+        { info: (message: string) => console.log(message) },
+        options.template
       );
 
       console.log(`✅ Report saved to: ${outputPath}`);
 
+      const gates = evaluateQualityGates(summary, thresholds);
+      gates.forEach(gate => console.log(`${gate.passed ? '✅' : '❌'} Quality gate: ${describeQualityGate(gate)}`));
+      if (gates.some(gate => !gate.passed)) {
+        process.exit(1);
+      }
+
     } catch (error) {
-      
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
\ No newline at end of file
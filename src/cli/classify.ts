@@ -0,0 +1,75 @@
+/**
+ * Classify command for GitHub PR Metrics CLI
+ */
+
+import { Command } from 'commander';
+import { DataStorage } from '../storage';
+import { createCommentClassifier, describeClassification } from '../classifier';
+
+/** Length of comment excerpts printed under each classification */
+const EXCERPT_LENGTH = 120;
+
+export const classifyCommand = new Command('classify')
+  .description('Show how each AI comment is classified and which rules decided it')
+  .option('-i, --input <file>', 'Input JSON file path', './temp/pr-data.json')
+  .option('--rules <file>', 'Rule pack file (JSON or YAML) replacing the built-in rules')
+  .option('--category <category>', 'Only show comments in this category')
+  .option('--json', 'Print the classifications as JSON')
+  .action(async (options) => {
+    try {
+      if (!DataStorage.fileExists(options.input)) {
+        console.error(`❌ Input file not found: ${options.input}`);
+        console.log('💡 Run "collect" command first to gather data');
+        process.exit(1);
+      }
+
+      const classifier = await createCommentClassifier(options.rules);
+      const { prs, comments } = await DataStorage.loadCollectedData(options.input);
+      const commentsById = new Map(comments.map(comment => [comment.id, comment]));
+
+      const results = prs.flatMap(pr => (pr.comments || [])
+        .filter(prComment => commentsById.has(prComment.id))
+        .map(prComment => {
+          const comment = commentsById.get(prComment.id)!;
+          return { pr, comment, classification: classifier.classify(comment) };
+        }))
+        .filter(result => !options.category || result.classification.category === options.category);
+
+      if (options.json) {
+        console.log(JSON.stringify(results.map(({ pr, comment, classification }) => ({
+          ...(pr.repository ? { repository: pr.repository } : {}),
+          pullRequest: pr.number,
+          comment: comment.id,
+          ...(comment.path !== undefined ? { path: comment.path } : {}),
+          ...(comment.line !== undefined ? { line: comment.line } : {}),
+          ...classification
+        })), null, 2));
+        return;
+      }
+
+      console.log(`🏷️  Classifying ${results.length} comments with ${options.rules ? `rules from ${options.rules}` : 'the built-in rules'}`);
+      const counts: Record<string, number> = {};
+      let currentPR: number | undefined;
+      for (const { pr, comment, classification } of results) {
+        if (pr.number !== currentPR) {
+          currentPR = pr.number;
+          console.log(`\n${pr.repository ? `${pr.repository}#${pr.number}` : `#${pr.number}`} ${pr.title}`);
+        }
+        counts[classification.category] = (counts[classification.category] || 0) + 1;
+
+        const location = comment.path !== undefined ? ` ${comment.path}${comment.line !== undefined ? `:${comment.line}` : ''}` : '';
+        const excerpt = comment.body.replace(/<!--[\s\S]*?-->/g, '').replace(/\s+/g, ' ').trim();
+        console.log(`  ${comment.id}${location}: ${describeClassification(classification)}`);
+        console.log(`    ${excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH - 1)}…` : excerpt}`);
+      }
+
+      const summary = Object.entries(counts)
+        .sort(([a, countA], [b, countB]) => countB - countA || (a < b ? -1 : a > b ? 1 : 0))
+        .map(([category, count]) => `${category} ${count}`);
+      console.log(`\n📊 Categories: ${summary.length > 0 ? summary.join(', ') : 'none'}`);
+
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
@@ -3,23 +3,65 @@
  */
 
 import { Command } from 'commander';
-import { ConfigurationManager } from '../config';
-import { GitHubClient } from '../github';
-import { createDataCollector } from '../collectors';
-import { DataStorage } from '../storage';
+import {
+  AIReviewerUtils,
+  ConfigurationManager,
+  RepositoryConfig,
+  isResolutionMode,
+  isApiClientType,
+  getWebBaseUrl,
+  hasRepositoryScope,
+  describeRepositoryScope,
+  formatRepository
+} from '../config';
+import { createGitHubClient } from '../github-graphql';
+import { createDataCollector, resolveRepositories } from '../collectors';
+import { DataStorage, CollectionRun } from '../storage';
+import { CollectionCheckpoint, CheckpointKey } from '../checkpoint';
 
 export const collectCommand = new Command('collect')
   .description('Collect PR data from GitHub and save to JSON file')
   .option('-r, --repo <repo>', 'Repository in format owner/repo')
+  .option('--org <name>', 'Collect from all repositories of an organization')
+  .option('--repos <list>', 'Comma-separated repositories in format owner/repo')
+  .option('--repo-filter <glob>', 'Only include repositories whose name matches the glob (e.g. "api-*")')
+  .option('--topic <topic>', 'Only include organization repositories with this topic')
   .option('-u, --reviewer <username>', 'Reviewer username to analyze')
+  .option('--reviewers <list>', 'Comma-separated reviewer usernames to compare side by side')
   .option('-d, --days <days>', 'Number of days to analyze', '7')
   .option('-s, --start <date>', 'Start date in YYYY-MM-DD format')
   .option('-e, --end <date>', 'End date in YYYY-MM-DD format')
   .option('-o, --output <file>', 'Output JSON file path', './temp/pr-data.json')
+  .option('--resolution-mode <mode>', 'How comment resolution is determined (threads, heuristic)')
+  .option('--incremental', 'Only fetch PRs updated since the last collection and merge them into the output file')
+  .option('--resume', 'Resume an interrupted collection from its checkpoint file')
+  .option('--concurrency <n>', 'Maximum number of GitHub API requests in flight at once')
+  .option('--api-client <type>', 'GitHub API used to fetch PRs and comments (rest, graphql)')
+  .option('--cache-dir <dir>', 'Directory for cached GitHub API responses (default: "./temp/http-cache")')
+  .option('--cache-ttl <seconds>', 'Reuse cached responses for this long without revalidating them')
+  .option('--no-cache', 'Disable the GitHub API response cache')
+  .option('--api-base-url <url>', 'GitHub API base URL (e.g. https://ghe.example.com/api/v3 for GitHub Enterprise Server)')
+  .option('--web-base-url <url>', 'GitHub web base URL used for links (derived from the API URL by default)')
   .action(async (options) => {
+    let checkpoint: CollectionCheckpoint | null = null;
+
     try {
       console.log('🚀 Collecting PR data...');
 
+      // Multi-repository scope is read from the environment during configuration loading
+      if (options.org) {
+        process.env.GITHUB_ORGANIZATION = options.org;
+      }
+      if (options.repos) {
+        process.env.GITHUB_REPOSITORIES = options.repos;
+      }
+      if (options.repoFilter) {
+        process.env.REPOSITORY_FILTER = options.repoFilter;
+      }
+      if (options.topic) {
+        process.env.REPOSITORY_TOPIC = options.topic;
+      }
+
       // Load configuration
       const configManager = new ConfigurationManager();
       const config = await configManager.loadConfig();
@@ -39,6 +81,66 @@ export const collectCommand = new Command('collect')
         config.analysis.reviewerUserName = options.reviewer;
       }
 
+      if (options.reviewers) {
+        const reviewerList = AIReviewerUtils.parseReviewerList(options.reviewers);
+        if (reviewerList.length === 0) {
+          console.error('❌ At least one reviewer username is required');
+          process.exit(1);
+        }
+        config.analysis.reviewers = reviewerList;
+        config.analysis.reviewerUserName = reviewerList[0];
+      }
+      const reviewers = AIReviewerUtils.getReviewers(config.analysis);
+      const reviewerLabel = reviewers.join(', ');
+
+      if (options.resolutionMode) {
+        if (!isResolutionMode(options.resolutionMode)) {
+          console.error('❌ Invalid resolution mode. Supported modes: threads, heuristic');
+          process.exit(1);
+        }
+        config.analysis.resolutionMode = options.resolutionMode;
+      }
+
+      if (options.concurrency) {
+        const concurrency = Number(options.concurrency);
+        if (!Number.isInteger(concurrency) || concurrency <= 0) {
+          console.error('❌ Concurrency must be a positive integer');
+          process.exit(1);
+        }
+        config.api = { ...config.api, concurrency };
+      }
+      const concurrency = config.api?.concurrency || 1;
+
+      if (options.apiClient) {
+        if (!isApiClientType(options.apiClient)) {
+          console.error('❌ Invalid API client. Supported clients: rest, graphql');
+          process.exit(1);
+        }
+        config.api = { ...config.api, client: options.apiClient };
+      }
+
+      if (options.apiBaseUrl) {
+        config.api = { ...config.api, apiBaseUrl: options.apiBaseUrl };
+      }
+      if (options.webBaseUrl) {
+        config.api = { ...config.api, webBaseUrl: options.webBaseUrl };
+      }
+
+      // Responses are cached and revalidated with ETags unless disabled
+      if (options.cache === false) {
+        delete config.api?.cacheDir;
+      } else {
+        config.api = { ...config.api, cacheDir: options.cacheDir || config.api?.cacheDir || './temp/http-cache' };
+        if (options.cacheTtl !== undefined) {
+          const cacheTtl = Number(options.cacheTtl);
+          if (isNaN(cacheTtl) || cacheTtl < 0) {
+            console.error('❌ Cache TTL must be a non-negative number of seconds');
+            process.exit(1);
+          }
+          config.api.cacheTtl = cacheTtl;
+        }
+      }
+
       // Handle date range options
       if (options.start && options.end) {
         const startDate = new Date(options.start);
@@ -67,45 +169,188 @@ export const collectCommand = new Command('collect')
         config.analysis.timePeriod = { start: startDate, end: endDate };
       }
 
-      console.log(`📊 ${config.repository.owner}/${config.repository.repo} | ${config.analysis.reviewerUserName} | ${config.analysis.timePeriod.start.toISOString().split('T')[0]} to ${config.analysis.timePeriod.end.toISOString().split('T')[0]}`);
+      const outputPath = options.output;
+      let runStartedAt = new Date();
+
+      // Incremental collection: only fetch PRs updated since the previous run
+      let existing: Awaited<ReturnType<typeof DataStorage.loadCollectedData>> | null = null;
+      if (options.incremental) {
+        if (DataStorage.fileExists(outputPath)) {
+          existing = await DataStorage.loadCollectedData(outputPath);
+
+          const history = existing.metadata.collectionHistory || [];
+          const lastRun = history[history.length - 1];
+          config.analysis.updatedSince = new Date(lastRun ? lastRun.startedAt : existing.metadata.collectedAt);
+
+          // Keep refreshing PRs from the original window, not just the new one
+          const previousStart = new Date(existing.metadata.period.start);
+          if (previousStart < config.analysis.timePeriod.start) {
+            config.analysis.timePeriod = { start: previousStart, end: config.analysis.timePeriod.end };
+          }
+
+          console.log(`🔁 Incremental collection: fetching PRs updated since ${config.analysis.updatedSince.toISOString()}`);
+        } else {
+          console.log(`ℹ️  No existing data at ${outputPath}; running a full collection.`);
+        }
+      }
 
       // Initialize GitHub client
-      const githubClient = new GitHubClient();
+      const githubClient = createGitHubClient(config.api);
       await githubClient.authenticate(config.auth);
 
+      // Resolve repositories to collect
+      let repositories: RepositoryConfig[] = [config.repository];
+      if (hasRepositoryScope(config.scope)) {
+        repositories = await resolveRepositories(githubClient, config.scope!);
+        if (repositories.length === 0) {
+          console.error('❌ No repositories matched the given organization, list and filters');
+          process.exit(1);
+        }
+      }
+      const repositoryLabel = describeRepositoryScope(repositories, config.scope);
+
+      if (existing && (existing.metadata.repository !== repositoryLabel || existing.metadata.reviewer !== reviewerLabel)) {
+        console.error(`❌ ${outputPath} was collected for ${existing.metadata.repository} (${existing.metadata.reviewer}); use a different output file`);
+        process.exit(1);
+      }
+
+      // Resume an interrupted run or start a new checkpoint next to the output file
+      const checkpointPath = CollectionCheckpoint.pathFor(outputPath);
+      checkpoint = options.resume ? CollectionCheckpoint.load(checkpointPath) : null;
+      if (checkpoint) {
+        if (checkpoint.key.repository !== repositoryLabel || checkpoint.key.reviewer !== reviewerLabel) {
+          console.error(`❌ Checkpoint belongs to ${checkpoint.key.repository} (${checkpoint.key.reviewer}); run without --resume to start over`);
+          process.exit(1);
+        }
+
+        // Continue with the interrupted run's window so recorded progress stays valid
+        config.analysis.timePeriod = {
+          start: new Date(checkpoint.key.period.start),
+          end: new Date(checkpoint.key.period.end)
+        };
+        if (checkpoint.key.updatedSince) {
+          config.analysis.updatedSince = new Date(checkpoint.key.updatedSince);
+        } else {
+          delete config.analysis.updatedSince;
+        }
+        runStartedAt = new Date(checkpoint.startedAt);
+
+        console.log(`⏯️  Resuming collection started at ${checkpoint.startedAt}`);
+      } else {
+        if (options.resume) {
+          console.log('ℹ️  No checkpoint found; starting a new collection.');
+        } else if (DataStorage.fileExists(checkpointPath)) {
+          console.log('⚠️  Discarding checkpoint of an interrupted run (use --resume to continue it)');
+        }
+
+        const key: CheckpointKey = {
+          repository: repositoryLabel,
+          reviewer: reviewerLabel,
+          period: {
+            start: config.analysis.timePeriod.start.toISOString(),
+            end: config.analysis.timePeriod.end.toISOString()
+          }
+        };
+        if (config.analysis.updatedSince) {
+          key.updatedSince = config.analysis.updatedSince.toISOString();
+        }
+        checkpoint = CollectionCheckpoint.create(checkpointPath, key, runStartedAt);
+      }
+
+      // Flush the checkpoint on Ctrl-C so the run can be resumed
+      const activeCheckpoint = checkpoint;
+      const onInterrupt = () => {
+        activeCheckpoint.flush();
+        console.log(`\n⏸️  Interrupted. Progress saved to ${checkpointPath}; re-run with --resume to continue.`);
+        process.exit(130);
+      };
+      process.once('SIGINT', onInterrupt);
+
+      console.log(`📊 ${repositoryLabel} | ${reviewerLabel} | ${config.analysis.timePeriod.start.toISOString().split('T')[0]} to ${config.analysis.timePeriod.end.toISOString().split('T')[0]}`);
+      if (repositories.length > 1) {
+        console.log(`📚 Collecting from ${repositories.length} repositories`);
+      }
+
       // Create data collector
-      const collector = createDataCollector(githubClient);
+      const resolutionMode = config.analysis.resolutionMode || 'threads';
+      const collector = createDataCollector(githubClient, { resolutionMode, checkpoint, concurrency });
+
+      // Collect pull requests and comments
+      const { pullRequests: prs, comments, failures, failedPullRequests } = await collector.collectRepositories(config.analysis, repositories);
+
+      process.removeListener('SIGINT', onInterrupt);
+
+      failures.forEach(failure => console.warn(`⚠️  Skipped ${failure.repository}: ${failure.error}`));
+      failedPullRequests.forEach(failure => console.warn(`⚠️  Skipped ${failure.repository}#${failure.number}: ${failure.error}`));
+      if (failures.length === repositories.length) {
+        checkpoint.flush();
+        console.error('❌ Collection failed for every repository');
+        process.exit(1);
+      }
 
-      // Collect pull requests
-      const prs = await collector.collectPullRequests(config.analysis, config.repository);
       console.log(`📥 Found ${prs.length} pull requests`);
 
-      if (prs.length === 0) {
+      const cacheStats = githubClient.getCacheStats();
+      if (cacheStats) {
+        console.log(`🗄️  API cache: ${cacheStats.hits} hits, ${cacheStats.revalidated} not modified, ${cacheStats.misses} fetched`);
+      }
+
+      if (prs.length === 0 && !existing && failures.length === 0) {
+        checkpoint.remove();
         console.log('ℹ️  No pull requests found in the specified time period.');
         return;
       }
 
-      // Collect comments
-      const comments = await collector.collectComments(prs, config.analysis.reviewerUserName, config.repository);
-      console.log(`💬 Found ${comments.length} comments from ${config.analysis.reviewerUserName}`);
+      console.log(`💬 Found ${comments.length} comments from ${reviewerLabel}`);
+
+      // Merge into the existing dataset for incremental runs
+      let dataset = { prs, comments };
+      if (existing) {
+        dataset = DataStorage.mergeCollectedData(existing, dataset);
+        console.log(`🔀 Merged into existing data: ${dataset.prs.length} PRs, ${dataset.comments.length} comments`);
+      }
+
+      const run: CollectionRun = {
+        startedAt: runStartedAt.toISOString(),
+        collectedAt: new Date().toISOString(),
+        mode: existing ? 'incremental' : 'full',
+        fetchedPRs: prs.length,
+        fetchedComments: comments.length
+      };
+      if (existing && config.analysis.updatedSince) {
+        run.updatedSince = config.analysis.updatedSince.toISOString();
+      }
 
       // Save to JSON file using DataStorage
-      const outputPath = options.output;
-      
       await DataStorage.saveCollectedData(
         outputPath,
-        prs,
-        comments,
+        dataset.prs,
+        dataset.comments,
         {
-          repository: `${config.repository.owner}/${config.repository.repo}`,
-          reviewer: config.analysis.reviewerUserName,
-          period: config.analysis.timePeriod
+          repository: repositoryLabel,
+          reviewer: reviewerLabel,
+          period: config.analysis.timePeriod,
+          resolutionMode,
+          repositories: repositories.map(formatRepository),
+          reviewers,
+          collectionHistory: [...(existing?.metadata.collectionHistory || []), run],
+          webBaseUrl: getWebBaseUrl(config.api)
         }
       );
       
       console.log(`✅ Data saved to: ${outputPath}`);
 
+      // Keep the checkpoint while anything is left to retry
+      const pending = checkpoint.countPendingPullRequests();
+      if (pending > 0 || failures.length > 0) {
+        checkpoint.flush();
+        console.warn(`⚠️  ${pending} PRs and ${failures.length} repositories could not be collected; re-run with --resume to retry them`);
+      } else {
+        checkpoint.remove();
+      }
+
     } catch (error) {
+      checkpoint?.flush();
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
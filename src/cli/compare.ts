@@ -0,0 +1,70 @@
+/**
+ * Comparison command for GitHub PR Metrics CLI
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createMetricsComparator,
+  formatComparisonJSON,
+  formatComparisonMarkdown,
+  loadComparisonSide
+} from '../compare';
+
+export const compareCommand = new Command('compare')
+  .description('Compare two JSON reports or collected datasets and highlight regressions')
+  .argument('<baseline>', 'Baseline JSON report or collected data file')
+  .argument('<current>', 'Current JSON report or collected data file')
+  .option('--report <format>', 'Report format (json, markdown)', 'markdown')
+  .option('--report-output <file>', 'Output file for the comparison (printed to stdout by default)')
+  .option('--baseline-label <label>', 'Label of the baseline (default: file name)')
+  .option('--current-label <label>', 'Label of the current side (default: file name)')
+  .option('--baseline-reviewer <username>', 'Compare this reviewer from a multi-reviewer baseline')
+  .option('--current-reviewer <username>', 'Compare this reviewer from a multi-reviewer current side')
+  .action(async (baselinePath: string, currentPath: string, options) => {
+    try {
+      const format = options.report.toLowerCase();
+      if (!['json', 'markdown'].includes(format)) {
+        console.error('❌ Invalid report format. Supported formats: json, markdown');
+        process.exit(1);
+      }
+
+      const baseline = await loadComparisonSide(
+        baselinePath,
+        options.baselineLabel || path.basename(baselinePath),
+        options.baselineReviewer
+      );
+      const current = await loadComparisonSide(
+        currentPath,
+        options.currentLabel || path.basename(currentPath),
+        options.currentReviewer
+      );
+
+      const comparison = createMetricsComparator().compare(baseline, current);
+      const content = format === 'json'
+        ? formatComparisonJSON(comparison)
+        : formatComparisonMarkdown(comparison);
+
+      if (!options.reportOutput) {
+        console.log(content);
+        return;
+      }
+
+      const outputDir = path.dirname(options.reportOutput);
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+      fs.writeFileSync(options.reportOutput, content, 'utf8');
+
+      const regressions = comparison.deltas.filter(delta => delta.assessment === 'regressed');
+      console.log(`✅ Comparison saved to: ${options.reportOutput}`);
+      if (regressions.length > 0) {
+        console.log(`⚠️  Regressions: ${regressions.map(delta => delta.label).join(', ')}`);
+      }
+
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
@@ -7,6 +7,10 @@
 import { Command } from 'commander';
 import { collectCommand } from './collect';
 import { analyzeCommand } from './analyze';
+import { compareCommand } from './compare';
+import { publishCommand } from './publish';
+import { notifyCommand } from './notify';
+import { classifyCommand } from './classify';
 import { ConfigurationManager } from '../config';
 
 const program = new Command();
@@ -19,6 +23,10 @@ program
 // Register commands
 program.addCommand(collectCommand);
 program.addCommand(analyzeCommand);
+program.addCommand(compareCommand);
+program.addCommand(publishCommand);
+program.addCommand(notifyCommand);
+program.addCommand(classifyCommand);
 
 program
   .command('config')
@@ -0,0 +1,52 @@
+/**
+ * Notify command for GitHub PR Metrics CLI
+ */
+
+import { Command } from 'commander';
+import { loadComparisonSide, loadMetricsReport } from '../compare';
+import { NOTIFICATION_FORMATS, NotificationFormat, buildNotification, postWebhook } from '../notify';
+
+export const notifyCommand = new Command('notify')
+  .description('Post report headlines to a Slack or Microsoft Teams incoming webhook')
+  .argument('<report>', 'JSON report or collected data file')
+  .option('--webhook-url <url>', 'Incoming webhook URL (or set PR_METRICS_WEBHOOK_URL)')
+  .option('--format <format>', `Message format (${NOTIFICATION_FORMATS.join(', ')})`, 'slack')
+  .option('--previous <file>', 'Earlier JSON report or collected data file, to show changes since then')
+  .option('--dry-run', 'Print the message instead of posting it')
+  .action(async (reportPath: string, options) => {
+    try {
+      const format = options.format.toLowerCase() as NotificationFormat;
+      if (!NOTIFICATION_FORMATS.includes(format)) {
+        console.error(`❌ Invalid message format. Supported formats: ${NOTIFICATION_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
+
+      const webhookUrl = options.webhookUrl || process.env.PR_METRICS_WEBHOOK_URL;
+      if (!webhookUrl && !options.dryRun) {
+        console.error('❌ A webhook URL is required; use --webhook-url or PR_METRICS_WEBHOOK_URL');
+        process.exit(1);
+      }
+
+      const report = await loadMetricsReport(reportPath);
+      if (options.previous) {
+        const previous = await loadComparisonSide(options.previous, 'previous');
+        report.previous = {
+          period: { start: new Date(previous.period.start), end: new Date(previous.period.end) },
+          summary: previous.summary
+        };
+      }
+
+      const payload = await buildNotification(report, format);
+      if (options.dryRun) {
+        console.log(payload);
+        return;
+      }
+
+      await postWebhook(webhookUrl, payload);
+      console.log(`✅ ${format === 'slack' ? 'Slack' : 'Teams'} message posted for ${report.repository}`);
+
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
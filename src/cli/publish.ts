@@ -0,0 +1,63 @@
+/**
+ * Publish command for GitHub PR Metrics CLI
+ */
+
+import { Command } from 'commander';
+import { ConfigurationManager } from '../config';
+import { GitHubClient } from '../github';
+import { DataStorage } from '../storage';
+import { DEFAULT_STICKY_ID, createStickyCommentPublisher, parseCommentTarget } from '../publish';
+
+export const publishCommand = new Command('publish')
+  .description('Post a Markdown report as a sticky comment on an issue, pull request or discussion')
+  .argument('<report>', 'Markdown report file generated by "analyze"')
+  .requiredOption('-t, --target <target>', 'Issue, pull request or discussion number, or owner/repo#number')
+  .option('--discussion', 'The target is a discussion')
+  .option('--sticky-id <id>', 'Identifier of the sticky comment, to keep several reports on one target', DEFAULT_STICKY_ID)
+  .option('--api-base-url <url>', 'GitHub API base URL (e.g. https://ghe.example.com/api/v3 for GitHub Enterprise Server)')
+  .action(async (reportPath: string, options) => {
+    try {
+      if (!DataStorage.fileExists(reportPath)) {
+        console.error(`❌ Report file not found: ${reportPath}`);
+        console.log('💡 Run "analyze --report markdown" first to generate a report');
+        process.exit(1);
+      }
+
+      // A repository in the target replaces the configured one
+      const [targetRepository] = options.target.split('#');
+      if (targetRepository.includes('/')) {
+        const [owner, repo] = targetRepository.split('/');
+        process.env.GITHUB_REPOSITORY_OWNER = owner;
+        process.env.GITHUB_REPOSITORY_NAME = repo;
+      }
+
+      const configManager = new ConfigurationManager();
+      const config = await configManager.loadConfig();
+      if (options.apiBaseUrl) {
+        config.api = { ...config.api, apiBaseUrl: options.apiBaseUrl };
+      }
+
+      const target = parseCommentTarget(
+        options.target,
+        options.discussion ? 'discussion' : 'issue',
+        `${config.repository.owner}/${config.repository.repo}`
+      );
+
+      const githubClient = new GitHubClient(config.api);
+      await githubClient.authenticate(config.auth);
+
+      const publisher = createStickyCommentPublisher(githubClient, { stickyId: options.stickyId });
+      const result = await publisher.publishFile(target, reportPath);
+
+      const description = `${target.type} ${target.owner}/${target.repo}#${target.number}`;
+      if (result.action === 'unchanged') {
+        console.log(`ℹ️  Comment on ${description} is already up to date: ${result.comment.url}`);
+      } else {
+        console.log(`✅ Comment ${result.action} on ${description}: ${result.comment.url}`);
+      }
+
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
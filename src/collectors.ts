@@ -2,16 +2,39 @@
  * Data collection services for GitHub PR metrics analysis
  */
 
-import { IDataCollector, IGitHubClient } from './types/interfaces';
-import { PullRequest, Comment, Reaction } from './types/core';
-import { AnalysisConfig, RepositoryConfig } from './config';
+import { IDataCollector, IGitHubClient, RepositoryCollectionResult } from './types/interfaces';
+import { PullRequest, PullRequestFile, Comment, Commit, Reaction, Review } from './types/core';
+import { AIReviewerUtils, AnalysisConfig, RepositoryConfig, RepositoryScope, ResolutionMode, formatRepository } from './config';
+import { ReplyDetector, SuggestionDetector } from './processors';
+import { CollectionCheckpoint, PullRequestDetails } from './checkpoint';
+import { mapWithConcurrency } from './concurrency';
+
+/**
+ * Data collector options
+ */
+export interface DataCollectorOptions {
+  /** How comment resolution is determined (defaults to 'threads') */
+  resolutionMode?: ResolutionMode;
+  /** Checkpoint used to record progress and skip work completed by an interrupted run */
+  checkpoint?: CollectionCheckpoint;
+  /** Number of pull requests processed in parallel (defaults to 1) */
+  concurrency?: number;
+}
 
 /**
  * Data collector implementation for GitHub PR metrics
  * Handles PR retrieval with time period filtering and reviewer comment collection
  */
 export class DataCollector implements IDataCollector {
-  constructor(protected githubClient: IGitHubClient) {}
+  protected resolutionMode: ResolutionMode;
+  protected checkpoint: CollectionCheckpoint | undefined;
+  protected concurrency: number;
+
+  constructor(protected githubClient: IGitHubClient, options: DataCollectorOptions = {}) {
+    this.resolutionMode = options.resolutionMode || 'threads';
+    this.checkpoint = options.checkpoint;
+    this.concurrency = options.concurrency || 1;
+  }
 
   /**
    * Collect pull requests for the specified configuration
@@ -22,70 +45,176 @@ export class DataCollector implements IDataCollector {
       throw new Error('GitHub client must be authenticated before collecting data');
     }
 
+    // Reuse the PR listing of an interrupted run
+    const repository = formatRepository(repoConfig);
+    const checkpointed = this.checkpoint?.getPullRequests(repository);
+    if (checkpointed) {
+      return checkpointed;
+    }
+
     // Get pull requests from GitHub API with time period filtering
-    const pullRequests = await this.githubClient.getPullRequests(repoConfig, config.timePeriod);
+    const pullRequests = await this.githubClient.getPullRequests(repoConfig, config.timePeriod, config.updatedSince);
 
     // Additional filtering to ensure strict time period compliance
     const filteredPRs = pullRequests.filter(pr => {
-      return pr.createdAt >= config.timePeriod.start && pr.createdAt <= config.timePeriod.end;
+      return pr.createdAt >= config.timePeriod.start && pr.createdAt <= config.timePeriod.end &&
+        (!config.updatedSince || pr.updatedAt >= config.updatedSince);
+    });
+
+    // Tag each PR with its repository so multi-repository datasets stay distinguishable
+    filteredPRs.forEach(pr => {
+      pr.repository = repository;
     });
 
+    this.checkpoint?.recordPullRequests(repository, filteredPRs);
+
     return filteredPRs;
   }
 
   /**
-   * Collect comments from pull requests for specified reviewer
+   * Collect pull requests and reviewer comments from several repositories into one dataset
+   * A failing repository is recorded in `failures` and does not abort the others
+   */
+  async collectRepositories(config: AnalysisConfig, repositories: RepositoryConfig[]): Promise<RepositoryCollectionResult> {
+    const result: RepositoryCollectionResult = {
+      pullRequests: [],
+      comments: [],
+      failures: [],
+      failedPullRequests: []
+    };
+
+    for (const repoConfig of repositories) {
+      try {
+        const prs = await this.collectPullRequests(config, repoConfig);
+        const { comments, failed } = prs.length > 0
+          ? await this.collectCommentsPerPullRequest(prs, AIReviewerUtils.getReviewers(config), repoConfig)
+          : { comments: [], failed: [] };
+
+        // PRs whose comments could not be fetched are left out rather than kept without comments,
+        // so they neither count as uncommented nor replace previously collected comments on merge
+        const failedNumbers = new Set(failed.map(failure => failure.number));
+        result.pullRequests.push(...prs.filter(pr => !failedNumbers.has(pr.number)));
+        result.comments.push(...comments);
+        result.failedPullRequests.push(...failed.map(failure => ({ repository: formatRepository(repoConfig), ...failure })));
+      } catch (error) {
+        result.failures.push({
+          repository: formatRepository(repoConfig),
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Collect comments from pull requests for specified reviewer(s)
    * Implements reviewer filtering as per Requirements 1.2
+   * Comments are fetched once per PR and kept for every given reviewer;
+   * replies from other users are kept in each reviewer comment's `replies`
+   */
+  async collectComments(prs: PullRequest[], reviewerUserName: string | string[], repoConfig: RepositoryConfig): Promise<Comment[]> {
+    return (await this.collectCommentsPerPullRequest(prs, reviewerUserName, repoConfig)).comments;
+  }
+
+  /**
+   * Collect comments like `collectComments`, also reporting the PRs whose comments could not be fetched
    */
-  async collectComments(prs: PullRequest[], reviewerUserName: string, repoConfig: RepositoryConfig): Promise<Comment[]> {
+  private async collectCommentsPerPullRequest(
+    prs: PullRequest[],
+    reviewerUserName: string | string[],
+    repoConfig: RepositoryConfig
+  ): Promise<{ comments: Comment[]; failed: { number: number; error: string }[] }> {
     if (!this.githubClient.isAuthenticated()) {
       throw new Error('GitHub client must be authenticated before collecting data');
     }
 
-    const allComments: Comment[] = [];
+    const repository = formatRepository(repoConfig);
+    const reviewers = Array.isArray(reviewerUserName) ? reviewerUserName : [reviewerUserName];
+
+    // PRs are processed in parallel; results keep the order of `prs`
+    const failed: { number: number; error: string }[] = [];
+    const commentsPerPR = await mapWithConcurrency(prs, this.concurrency, async (pr): Promise<Comment[]> => {
+      // Reuse comments of PRs completed by an interrupted run
+      const checkpointed = this.checkpoint?.getComments(repository, pr.number);
+      if (checkpointed) {
+        pr.comments = checkpointed;
+        Object.assign(pr, this.checkpoint?.getDetails(repository, pr.number));
+        return checkpointed;
+      }
 
-    for (const pr of prs) {
       try {
-        // Get all comments for this PR
-        const prComments = await this.githubClient.getComments(repoConfig, pr.number);
+        // Get all comments and reviews for this PR
+        const [prComments, prReviews] = await Promise.all([
+          this.githubClient.getComments(repoConfig, pr.number),
+          this.githubClient.getReviews(repoConfig, pr.number)
+        ]);
         
         // Parse and validate comment metadata
         const parsedComments = prComments.map(comment => this.parseCommentMetadata(comment));
         
         // Filter comments by reviewer username (case-insensitive)
         const reviewerComments = parsedComments.filter(comment => 
-          comment.author.login.toLowerCase() === reviewerUserName.toLowerCase()
+          reviewers.some(reviewer => comment.author.login.toLowerCase() === reviewer.toLowerCase())
         );
 
-        // Enhance metadata for reviewer comments
-        const enhancedComments = await this.enhanceCommentMetadata(reviewerComments);
+        // Enhance metadata for reviewer comments, resolving replies against all PR comments
+        const enhancedComments = await this.enhanceCommentMetadata(reviewerComments, parsedComments);
 
-        // Add PR reference to comments and collect them
+        // Add repository reference to comments
         enhancedComments.forEach(comment => {
-          allComments.push(comment);
+          comment.repository = repository;
         });
 
-        // Update the PR with its enhanced comments
+        // Keep the reviewer's reviews, linked to the inline comments submitted with them
+        const reviewerReviews = this.linkReviewComments(
+          prReviews.filter(review => reviewers.some(reviewer => review.author.login.toLowerCase() === reviewer.toLowerCase())),
+          parsedComments
+        );
+        reviewerReviews.forEach(review => {
+          review.repository = repository;
+        });
+
+        // Commits show whether inline comments were acted on, the final diff whether suggested changes landed
+        const [commits, files] = await Promise.all([
+          this.collectCommits(enhancedComments, repoConfig, pr.number),
+          this.collectSuggestionFiles(enhancedComments, repoConfig, pr.number)
+        ]);
+
+        // Update the PR with its enhanced comments, reviews, commits and files
+        const details: PullRequestDetails = {
+          reviews: reviewerReviews,
+          ...(commits ? { commits } : {}),
+          ...(files ? { files } : {})
+        };
         pr.comments = enhancedComments;
+        Object.assign(pr, details);
 
+        // Only completed PRs are checkpointed, so failed ones are retried on resume
+        this.checkpoint?.recordComments(repository, pr.number, enhancedComments, details);
+
+        return enhancedComments;
       } catch (error) {
-        // Log error but continue processing other PRs
-        
+        // Record the failure but continue processing other PRs
+        failed.push({ number: pr.number, error: error instanceof Error ? error.message : String(error) });
+        return [];
       }
-    }
+    });
 
-    return allComments;
+    return { comments: commentsPerPR.flat(), failed };
   }
 
 
 
   /**
    * Enhance comment metadata including resolution status, reactions, and replies
+   * Replies are looked up in `threadContext` (defaults to `comments`), so replies by
+   * humans and the PR author are retained even when only reviewer comments are enhanced
    * Implements Requirements 1.3, 1.4, 5.2
    */
-  async enhanceCommentMetadata(comments: Comment[]): Promise<Comment[]> {
+  async enhanceCommentMetadata(comments: Comment[], threadContext: Comment[] = comments): Promise<Comment[]> {
     // Build reply relationships efficiently using hash map
-    const replyMap = this.buildReplyMap(comments);
+    const replyMap = this.buildReplyMap(threadContext);
     
     const enhancedComments: Comment[] = [];
 
@@ -94,9 +223,11 @@ export class DataCollector implements IDataCollector {
         // Create enhanced comment with metadata
         const enhancedComment: Comment = {
           ...comment,
-          isResolved: this.detectResolutionStatus(comment),
+          isResolved: this.resolutionMode === 'heuristic'
+            ? this.detectResolutionStatus(comment)
+            : comment.isResolved,
           reactions: await this.enhanceReactionData(comment.reactions),
-          replies: replyMap.get(comment.id) || []
+          replies: this.findReplies(comment, replyMap, threadContext)
         };
 
         enhancedComments.push(enhancedComment);
@@ -111,7 +242,8 @@ export class DataCollector implements IDataCollector {
   }
 
   /**
-   * Detect comment resolution status based on GitHub's resolution indicators
+   * Infer comment resolution status from keywords, markers and reactions
+   * Only used in 'heuristic' resolution mode; 'threads' mode keeps the review thread state
    * Implements Requirements 1.3
    */
   private detectResolutionStatus(comment: Comment): boolean {
@@ -215,6 +347,67 @@ export class DataCollector implements IDataCollector {
 
 
 
+  /**
+   * Find replies to a comment
+   * Review comments use GitHub's explicit thread replies; general PR comments have no
+   * reply relationship in the API, so conversational heuristics are used instead
+   */
+  private findReplies(comment: Comment, replyMap: Map<number, Comment[]>, threadContext: Comment[]): Comment[] {
+    const threadReplies = replyMap.get(comment.id);
+    if (threadReplies) {
+      return threadReplies.map(reply => this.parseCommentMetadata(reply));
+    }
+
+    if (comment.path === undefined && comment.inReplyToId === undefined) {
+      const generalComments = threadContext.filter(candidate => candidate.path === undefined);
+      return ReplyDetector.findConversationalReplies(comment, generalComments)
+        .map(reply => this.parseCommentMetadata(reply));
+    }
+
+    return [];
+  }
+
+  /**
+   * Fetch the commits of a PR that has inline reviewer comments
+   * Changed files are fetched for commits made since the earliest inline comment
+   */
+  private async collectCommits(comments: Comment[], repoConfig: RepositoryConfig, prNumber: number): Promise<Commit[] | undefined> {
+    const inlineComments = comments.filter(comment => comment.path !== undefined);
+    if (inlineComments.length === 0) {
+      return undefined;
+    }
+
+    const earliest = new Date(Math.min(...inlineComments.map(comment => comment.createdAt.getTime())));
+    return this.githubClient.getCommits(repoConfig, prNumber, earliest);
+  }
+
+  /**
+   * Fetch the final diff of the files that inline reviewer comments suggested changes to
+   * Other files are dropped to keep the stored dataset small
+   */
+  private async collectSuggestionFiles(comments: Comment[], repoConfig: RepositoryConfig, prNumber: number): Promise<PullRequestFile[] | undefined> {
+    const suggestedPaths = new Set(comments
+      .filter(comment => comment.path !== undefined && SuggestionDetector.parseSuggestions(comment.body).length > 0)
+      .map(comment => comment.path!));
+    if (suggestedPaths.size === 0) {
+      return undefined;
+    }
+
+    const files = await this.githubClient.getPullRequestFiles(repoConfig, prNumber);
+    return files.filter(file => suggestedPaths.has(file.filename) ||
+      (file.previousFilename !== undefined && suggestedPaths.has(file.previousFilename)));
+  }
+
+  /**
+   * Link reviews to their inline comments by `pull_request_review_id`
+   */
+  linkReviewComments(reviews: Review[], comments: Comment[]): Review[] {
+    return reviews.map(review => ({
+      ...review,
+      commentIds: comments.filter(comment => comment.reviewId === review.id).map(comment => comment.id)
+    }));
+  }
+
   /**
    * Parse comment timestamps and user data with validation
    * Implements Requirements 5.2
@@ -253,6 +446,14 @@ export class DataCollector implements IDataCollector {
       parsed.inReplyToId = Number(comment.inReplyToId);
     }
 
+    if (comment.reviewId !== undefined) {
+      parsed.reviewId = Number(comment.reviewId);
+    }
+
+    if (comment.line !== undefined) {
+      parsed.line = Number(comment.line);
+    }
+
     return parsed;
   }
 
@@ -261,12 +462,63 @@ export class DataCollector implements IDataCollector {
 
 
 
+/**
+ * Resolve the repositories selected by a multi-repository scope
+ * Organization repositories are enumerated via the API (archived ones are skipped);
+ * the name filter applies to all repositories, the topic filter only to enumerated ones
+ */
+export async function resolveRepositories(githubClient: IGitHubClient, scope: RepositoryScope): Promise<RepositoryConfig[]> {
+  const selected = new Map<string, RepositoryConfig>();
+
+  if (scope.organization) {
+    const repositories = await githubClient.listOrganizationRepositories(scope.organization);
+    for (const repository of repositories) {
+      if (repository.archived) {
+        continue;
+      }
+      if (scope.topic && !repository.topics.includes(scope.topic)) {
+        continue;
+      }
+      const repoConfig = { owner: repository.owner, repo: repository.repo };
+      selected.set(formatRepository(repoConfig).toLowerCase(), repoConfig);
+    }
+  }
+
+  for (const repoConfig of scope.repositories || []) {
+    selected.set(formatRepository(repoConfig).toLowerCase(), repoConfig);
+  }
+
+  const repositories = Array.from(selected.values());
+  if (!scope.nameFilter) {
+    return repositories;
+  }
+
+  return repositories.filter(repoConfig => matchesRepositoryFilter(repoConfig, scope.nameFilter!));
+}
+
+/**
+ * Match a repository against a glob ('*' and '?' wildcards)
+ * Patterns containing '/' match "owner/repo", others match the repository name only
+ */
+export function matchesRepositoryFilter(repoConfig: RepositoryConfig, pattern: string): boolean {
+  const target = pattern.includes('/') ? formatRepository(repoConfig) : repoConfig.repo;
+  const regex = new RegExp(
+    '^' + pattern.split('').map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }).join('') + '$',
+    'i'
+  );
+  return regex.test(target);
+}
+
 /**
  * Factory function to create a data collector
  * This is the recommended way to create collectors in production code
  */
-export function createDataCollector(githubClient: IGitHubClient): IDataCollector {
-  return new DataCollector(githubClient);
+export function createDataCollector(githubClient: IGitHubClient, options: DataCollectorOptions = {}): IDataCollector {
+  return new DataCollector(githubClient, options);
 }
 
 /**
@@ -0,0 +1,561 @@
+/**
+ * Comparison of two metrics reports
+ * Both sides are read in the JSON report format; collected datasets are analyzed and
+ * converted to that format first, so reports and datasets can be compared with each other
+ */
+
+import * as fs from 'fs';
+import { LatencyStats, LatencySummary, MetricsReport, MetricsSummary } from './types/core';
+import { DataStorage } from './storage';
+import { createDataProcessor } from './processors';
+import { createMetricsCalculator } from './metrics';
+import { JSONReportFormatter, createMetricsReport } from './reporters';
+
+/**
+ * One side of a comparison
+ */
+export interface ComparisonSide {
+  label: string;
+  repository: string;
+  reviewer: string;
+  period: {
+    start: string;
+    end: string;
+  };
+  summary: MetricsSummary;
+}
+
+/**
+ * Direction of a change; 'changed' is used for metrics that are neither better nor worse when higher
+ */
+export type ChangeAssessment = 'improved' | 'regressed' | 'changed' | 'unchanged';
+
+/**
+ * Change of a single metric between the baseline and the current side
+ */
+export interface MetricDelta {
+  metric: string;
+  label: string;
+  unit: 'count' | 'percent' | 'ratio' | 'hours';
+  baseline: number;
+  current: number;
+  absoluteChange: number;
+  /** Change relative to the baseline in percent (null when the baseline is 0) */
+  relativeChange: number | null;
+  /** Whether the change is statistically meaningful (null for plain counts and latencies, which are not tested) */
+  significant: boolean | null;
+  assessment: ChangeAssessment;
+}
+
+export interface MetricsComparison {
+  baseline: Omit<ComparisonSide, 'summary'>;
+  current: Omit<ComparisonSide, 'summary'>;
+  deltas: MetricDelta[];
+  generatedAt: Date;
+}
+
+/**
+ * z-score above which a change is flagged (two-sided, 95% confidence)
+ */
+export const SIGNIFICANCE_Z = 1.96;
+
+/**
+ * Compared metric
+ * Proportions (e.g. replied comments out of all comments) use a two-proportion z-test,
+ * rates (e.g. comments per PR) a z-test for the difference of two Poisson rates;
+ * latency percentiles only get a delta, as the summary does not keep their distribution
+ */
+interface MetricDefinition {
+  metric: string;
+  label: string;
+  unit: MetricDelta['unit'];
+  /** Events and sample size of the metric, for proportions and rates */
+  sample?: (summary: MetricsSummary) => [number, number] | null;
+  test?: 'proportion' | 'rate';
+  value: (summary: MetricsSummary) => number | null;
+  higherIsBetter?: boolean;
+}
+
+const percentOf = (count: number, total: number) => total > 0 ? (count / total) * 100 : 0;
+
+/**
+ * Median, 75th and 90th percentile of one latency, in hours (absent when nothing was measured)
+ */
+const latencyMetrics = (key: keyof LatencySummary, label: string): MetricDefinition[] =>
+  (['median', 'p75', 'p90'] as const).map(statistic => ({
+    metric: `${key}${statistic === 'median' ? 'Median' : statistic.toUpperCase()}`,
+    label: `${label} (${statistic === 'median' ? 'median' : statistic})`,
+    unit: 'hours' as const,
+    value: (summary: MetricsSummary) => {
+      const stats = summary.latency?.[key];
+      return stats && stats.count > 0 && stats[statistic] !== null ? stats[statistic]! / 3600000 : null;
+    }
+  }));
+
+const METRICS: MetricDefinition[] = [
+  { metric: 'totalPRs', label: 'Pull Requests', unit: 'count', value: summary => summary.totalPRs },
+  { metric: 'totalComments', label: 'AI Comments', unit: 'count', value: summary => summary.totalComments },
+  {
+    metric: 'averageCommentsPerPR',
+    label: 'Comments per PR',
+    unit: 'ratio',
+    test: 'rate',
+    sample: summary => [summary.totalComments, summary.totalPRs],
+    value: summary => summary.averageCommentsPerPR
+  },
+  { metric: 'positiveReactions', label: 'Positive Reactions', unit: 'count', value: summary => summary.positiveReactions },
+  { metric: 'negativeReactions', label: 'Negative Reactions', unit: 'count', value: summary => summary.negativeReactions },
+  { metric: 'repliedComments', label: 'Replied Comments', unit: 'count', value: summary => summary.repliedComments },
+  { metric: 'resolvedComments', label: 'Resolved Comments', unit: 'count', value: summary => summary.resolvedComments },
+  {
+    metric: 'replyRate',
+    label: 'Reply Rate',
+    unit: 'percent',
+    test: 'proportion',
+    sample: summary => [summary.repliedComments, summary.totalComments],
+    value: summary => percentOf(summary.repliedComments, summary.totalComments),
+    higherIsBetter: true
+  },
+  {
+    metric: 'resolutionRate',
+    label: 'Resolution Rate',
+    unit: 'percent',
+    test: 'proportion',
+    sample: summary => [summary.resolvedComments, summary.totalComments],
+    value: summary => percentOf(summary.resolvedComments, summary.totalComments),
+    higherIsBetter: true
+  },
+  {
+    metric: 'positiveReactionRate',
+    label: 'Positive Reaction Rate',
+    unit: 'percent',
+    test: 'rate',
+    sample: summary => [summary.positiveReactions, summary.totalComments],
+    value: summary => percentOf(summary.positiveReactions, summary.totalComments),
+    higherIsBetter: true
+  },
+  {
+    metric: 'negativeReactionRate',
+    label: 'Negative Reaction Rate',
+    unit: 'percent',
+    test: 'rate',
+    sample: summary => [summary.negativeReactions, summary.totalComments],
+    value: summary => percentOf(summary.negativeReactions, summary.totalComments),
+    higherIsBetter: false
+  },
+  {
+    metric: 'acceptanceRate',
+    label: 'Acted On by a Later Commit',
+    unit: 'percent',
+    test: 'proportion',
+    sample: summary => summary.acceptance ? [summary.acceptance.actedOn, summary.acceptance.inlineComments] : null,
+    value: summary => summary.acceptance ? summary.acceptance.acceptanceRate : null,
+    higherIsBetter: true
+  },
+  {
+    metric: 'suggestionAppliedRate',
+    label: 'Suggested Changes Applied',
+    unit: 'percent',
+    test: 'proportion',
+    sample: summary => summary.suggestions ? [summary.suggestions.applied, summary.suggestions.suggestions] : null,
+    value: summary => summary.suggestions ? summary.suggestions.appliedRate : null,
+    higherIsBetter: true
+  },
+  { metric: 'totalReviews', label: 'Reviews', unit: 'count', value: summary => summary.reviews ? summary.reviews.totalReviews : null },
+  {
+    metric: 'approvalRate',
+    label: 'Approval Rate',
+    unit: 'percent',
+    test: 'proportion',
+    sample: summary => summary.reviews ? [summary.reviews.approved, summary.reviews.totalReviews] : null,
+    value: summary => summary.reviews ? percentOf(summary.reviews.approved, summary.reviews.totalReviews) : null
+  },
+  {
+    metric: 'changesRequestedRate',
+    label: 'Changes Requested Rate',
+    unit: 'percent',
+    test: 'proportion',
+    sample: summary => summary.reviews ? [summary.reviews.changesRequested, summary.reviews.totalReviews] : null,
+    value: summary => summary.reviews ? percentOf(summary.reviews.changesRequested, summary.reviews.totalReviews) : null
+  },
+  {
+    metric: 'dismissalRate',
+    label: 'Dismissed by Humans',
+    unit: 'percent',
+    test: 'proportion',
+    sample: summary => summary.reviews
+      ? [summary.reviews.dismissed, summary.reviews.approved + summary.reviews.changesRequested]
+      : null,
+    value: summary => summary.reviews
+      ? percentOf(summary.reviews.dismissed, summary.reviews.approved + summary.reviews.changesRequested)
+      : null,
+    higherIsBetter: false
+  },
+  ...latencyMetrics('firstHumanReply', 'Time to First Human Reply'),
+  ...latencyMetrics('resolution', 'Time to Thread Resolution'),
+  ...latencyMetrics('merge', 'Time to Merge')
+];
+
+/**
+ * Compares the summary metrics of two reports
+ */
+export class MetricsComparator {
+  /**
+   * Compare every summary metric available on both sides
+   */
+  compare(baseline: ComparisonSide, current: ComparisonSide): MetricsComparison {
+    const deltas: MetricDelta[] = [];
+
+    for (const definition of METRICS) {
+      const baselineValue = definition.value(baseline.summary);
+      const currentValue = definition.value(current.summary);
+      if (baselineValue === null || currentValue === null) {
+        continue;
+      }
+
+      const significant = this.isSignificant(definition, baseline.summary, current.summary);
+      const absoluteChange = currentValue - baselineValue;
+
+      deltas.push({
+        metric: definition.metric,
+        label: definition.label,
+        unit: definition.unit,
+        baseline: baselineValue,
+        current: currentValue,
+        absoluteChange,
+        relativeChange: baselineValue !== 0 ? (absoluteChange / baselineValue) * 100 : null,
+        significant,
+        assessment: this.assess(definition, absoluteChange, significant)
+      });
+    }
+
+    return {
+      baseline: this.describeSide(baseline),
+      current: this.describeSide(current),
+      deltas,
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Two-proportion z-test: is the share of `x` out of `n` different between the sides?
+   * Returns null when either side has no samples
+   */
+  static proportionZScore(x1: number, n1: number, x2: number, n2: number): number | null {
+    if (n1 <= 0 || n2 <= 0) {
+      return null;
+    }
+
+    const pooled = (x1 + x2) / (n1 + n2);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+    if (standardError === 0) {
+      return 0;
+    }
+
+    return (x2 / n2 - x1 / n1) / standardError;
+  }
+
+  /**
+   * z-test for the difference of two Poisson rates (`count` events over `exposure`)
+   * Returns null when either side has no exposure
+   */
+  static rateZScore(count1: number, exposure1: number, count2: number, exposure2: number): number | null {
+    if (exposure1 <= 0 || exposure2 <= 0) {
+      return null;
+    }
+
+    const standardError = Math.sqrt(count1 / (exposure1 * exposure1) + count2 / (exposure2 * exposure2));
+    if (standardError === 0) {
+      return 0;
+    }
+
+    return (count2 / exposure2 - count1 / exposure1) / standardError;
+  }
+
+  private describeSide(side: ComparisonSide): Omit<ComparisonSide, 'summary'> {
+    return {
+      label: side.label,
+      repository: side.repository,
+      reviewer: side.reviewer,
+      period: side.period
+    };
+  }
+
+  private isSignificant(definition: MetricDefinition, baseline: MetricsSummary, current: MetricsSummary): boolean | null {
+    if (!definition.test || !definition.sample) {
+      return null;
+    }
+
+    const baselineSample = definition.sample(baseline);
+    const currentSample = definition.sample(current);
+    if (!baselineSample || !currentSample) {
+      return null;
+    }
+
+    const z = definition.test === 'proportion'
+      ? MetricsComparator.proportionZScore(baselineSample[0], baselineSample[1], currentSample[0], currentSample[1])
+      : MetricsComparator.rateZScore(baselineSample[0], baselineSample[1], currentSample[0], currentSample[1]);
+
+    return z === null ? null : Math.abs(z) >= SIGNIFICANCE_Z;
+  }
+
+  private assess(definition: MetricDefinition, absoluteChange: number, significant: boolean | null): ChangeAssessment {
+    if (absoluteChange === 0 || significant === false) {
+      return 'unchanged';
+    }
+    if (significant === null || definition.higherIsBetter === undefined) {
+      return 'changed';
+    }
+
+    return (absoluteChange > 0) === definition.higherIsBetter ? 'improved' : 'regressed';
+  }
+}
+
+/**
+ * Load one side of a comparison from a JSON report or a collected dataset
+ * `reviewer` selects an entry of a multi-reviewer report's `reviewers` array
+ */
+export async function loadComparisonSide(filePath: string, label: string, reviewer?: string): Promise<ComparisonSide> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  let report = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!isJSONReport(report)) {
+    if (!DataStorage.validateDataFile(filePath).isValid) {
+      throw new Error(`${filePath} is neither a JSON report nor a collected dataset`);
+    }
+    report = JSON.parse(await reportFromCollectedData(filePath));
+  }
+
+  let summary = report.summary;
+  let reviewerName = report.metadata.reviewer;
+  if (reviewer) {
+    const entry = (report.reviewers || []).find((candidate: any) =>
+      candidate.reviewer.toLowerCase() === reviewer.toLowerCase()
+    );
+    if (!entry) {
+      throw new Error(`Reviewer ${reviewer} not found in ${filePath}`);
+    }
+    summary = entry.summary;
+    reviewerName = entry.reviewer;
+  }
+
+  return {
+    label,
+    repository: report.metadata.repository,
+    reviewer: reviewerName,
+    period: report.metadata.period,
+    summary: summaryFromJSONReport(summary)
+  };
+}
+
+/**
+ * Convert the `summary` of a JSON report back to summary metrics
+ */
+export function summaryFromJSONReport(summary: any): MetricsSummary {
+  const metrics: MetricsSummary = {
+    totalPRs: summary.pullRequests.total,
+    totalComments: summary.comments.total,
+    averageCommentsPerPR: summary.comments.averagePerPR,
+    positiveReactions: summary.reactions.positive,
+    negativeReactions: summary.reactions.negative,
+    repliedComments: summary.engagement.repliedComments,
+    resolvedComments: summary.engagement.resolvedComments
+  };
+
+  if (summary.reviews) {
+    metrics.reviews = {
+      totalReviews: summary.reviews.total,
+      approved: summary.reviews.approved,
+      changesRequested: summary.reviews.changesRequested,
+      commented: summary.reviews.commented,
+      dismissed: summary.reviews.dismissed,
+      withSummary: summary.reviews.withSummary
+    };
+  }
+  if (summary.acceptance) {
+    metrics.acceptance = { ...summary.acceptance };
+  }
+  if (summary.latency) {
+    const milliseconds = (hours: number | null) => hours === null ? null : Math.round(hours * 3600000);
+    const stats = (entry: any): LatencyStats => ({
+      count: entry.count,
+      median: milliseconds(entry.medianHours),
+      p75: milliseconds(entry.p75Hours),
+      p90: milliseconds(entry.p90Hours)
+    });
+    metrics.latency = {
+      firstHumanReply: stats(summary.latency.firstHumanReply),
+      resolution: stats(summary.latency.resolution),
+      merge: stats(summary.latency.merge)
+    };
+  }
+  if (summary.suggestions) {
+    metrics.suggestions = {
+      suggestions: summary.suggestions.total,
+      applied: summary.suggestions.applied,
+      appliedRate: summary.suggestions.appliedRate
+    };
+  }
+
+  return metrics;
+}
+
+function isJSONReport(data: any): boolean {
+  return !!data && !!data.metadata && !!data.summary && !!data.summary.pullRequests;
+}
+
+/**
+ * Load a full metrics report from a JSON report or a collected dataset
+ * Reports read back from JSON keep their summary and per-PR details; trends and reviewer breakdowns are dropped
+ */
+export async function loadMetricsReport(filePath: string): Promise<MetricsReport> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const report = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!isJSONReport(report)) {
+    if (!DataStorage.validateDataFile(filePath).isValid) {
+      throw new Error(`${filePath} is neither a JSON report nor a collected dataset`);
+    }
+    return metricsReportFromCollectedData(filePath);
+  }
+
+  return {
+    repository: report.metadata.repository,
+    period: { start: new Date(report.metadata.period.start), end: new Date(report.metadata.period.end) },
+    reviewer: report.metadata.reviewer,
+    summary: summaryFromJSONReport(report.summary),
+    detailed: report.detailed,
+    generatedAt: new Date(report.metadata.generatedAt)
+  };
+}
+
+/**
+ * Analyze a collected dataset with the settings recorded in it and render it as a JSON report
+ */
+async function reportFromCollectedData(filePath: string): Promise<string> {
+  return new JSONReportFormatter().generate(await metricsReportFromCollectedData(filePath));
+}
+
+/**
+ * Analyze a collected dataset with the settings recorded in it
+ */
+async function metricsReportFromCollectedData(filePath: string): Promise<MetricsReport> {
+  const { prs, comments, metadata } = await DataStorage.loadCollectedData(filePath);
+
+  const processor = createDataProcessor({ resolutionMode: metadata.resolutionMode || 'heuristic' });
+  const processedComments = processor.detectSuggestions(
+    processor.detectAcceptance(
+      processor.classifyReactions(
+        processor.detectReplies(
+          processor.detectResolution(comments)
+        )
+      ),
+      prs
+    ),
+    prs
+  );
+
+  const calculator = createMetricsCalculator({ ...(metadata.webBaseUrl ? { webBaseUrl: metadata.webBaseUrl } : {}) });
+  const reviewerBreakdown = metadata.reviewers && metadata.reviewers.length > 1
+    ? calculator.calculateReviewerBreakdown(prs, processedComments, metadata.reviewers, metadata.repository)
+    : undefined;
+
+  return createMetricsReport(
+    metadata.repository,
+    { start: new Date(metadata.period.start), end: new Date(metadata.period.end) },
+    metadata.reviewer,
+    calculator.calculateSummary(prs, processedComments),
+    calculator.calculateDetailed(prs, processedComments, metadata.repository),
+    reviewerBreakdown
+  );
+}
+
+/**
+ * Render a comparison as JSON
+ */
+export function formatComparisonJSON(comparison: MetricsComparison): string {
+  return JSON.stringify({
+    baseline: comparison.baseline,
+    current: comparison.current,
+    generatedAt: comparison.generatedAt.toISOString(),
+    deltas: comparison.deltas.map(delta => ({
+      ...delta,
+      baseline: round(delta.baseline),
+      current: round(delta.current),
+      absoluteChange: round(delta.absoluteChange),
+      relativeChange: delta.relativeChange === null ? null : round(delta.relativeChange)
+    })),
+    regressions: comparison.deltas.filter(delta => delta.assessment === 'regressed').map(delta => delta.metric)
+  }, null, 2);
+}
+
+/**
+ * Render a comparison as Markdown, listing regressions first
+ */
+export function formatComparisonMarkdown(comparison: MetricsComparison): string {
+  const describe = (side: MetricsComparison['baseline']) =>
+    `${side.label}: ${side.repository}, ${side.reviewer}, ${side.period.start.slice(0, 10)} to ${side.period.end.slice(0, 10)}`;
+  const formatValue = (delta: MetricDelta, value: number) =>
+    delta.unit === 'percent' ? `${value.toFixed(1)}%`
+      : delta.unit === 'hours' ? `${value.toFixed(1)}h`
+        : delta.unit === 'ratio' ? value.toFixed(2) : String(value);
+  const formatChange = (delta: MetricDelta) => {
+    const sign = delta.absoluteChange > 0 ? '+' : '';
+    if (delta.unit === 'percent') return `${sign}${delta.absoluteChange.toFixed(1)} pp`;
+    if (delta.unit === 'hours') return `${sign}${delta.absoluteChange.toFixed(1)}h`;
+    if (delta.unit === 'ratio') return `${sign}${delta.absoluteChange.toFixed(2)}`;
+    return `${sign}${delta.absoluteChange}`;
+  };
+  const formatRelative = (delta: MetricDelta) =>
+    delta.relativeChange === null ? 'n/a' : `${delta.relativeChange > 0 ? '+' : ''}${delta.relativeChange.toFixed(1)}%`;
+  const formatAssessment = (delta: MetricDelta) => {
+    switch (delta.assessment) {
+      case 'improved': return '✅ improved';
+      case 'regressed': return '⚠️ regressed';
+      case 'changed': return delta.significant ? 'changed' : '';
+      default: return delta.significant === false && delta.absoluteChange !== 0 ? 'not significant' : '';
+    }
+  };
+
+  const rows = comparison.deltas.map(delta =>
+    `| ${delta.label} | ${formatValue(delta, delta.baseline)} | ${formatValue(delta, delta.current)} | ${formatChange(delta)} | ${formatRelative(delta)} | ${formatAssessment(delta)} |`
+  );
+  const regressions = comparison.deltas.filter(delta => delta.assessment === 'regressed');
+  const regressionList = regressions.length > 0
+    ? regressions.map(delta => `- **${delta.label}**: ${formatValue(delta, delta.baseline)} → ${formatValue(delta, delta.current)} (${formatChange(delta)})`).join('\n')
+    : '- No statistically meaningful regressions';
+
+  return `# Metrics Comparison
+
+- **Baseline**: ${describe(comparison.baseline)}
+- **Current**: ${describe(comparison.current)}
+- **Generated**: ${comparison.generatedAt.toISOString().slice(0, 10)}
+
+## Regressions
+
+${regressionList}
+
+## Changes
+
+| Metric | Baseline | Current | Change | Relative | Assessment |
+|--------|----------|---------|--------|----------|------------|
+${rows.join('\n')}
+
+*Rates are tested at 95% confidence; plain counts and latencies are not tested.*
+`;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+/**
+ * Factory function to create a metrics comparator
+ */
+export function createMetricsComparator(): MetricsComparator {
+  return new MetricsComparator();
+}
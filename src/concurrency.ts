@@ -0,0 +1,86 @@
+/**
+ * Bounded concurrency utilities for parallel GitHub API requests
+ */
+
+/**
+ * Limits how many tasks run at once; queued tasks start in FIFO order
+ * The limiter can be paused (e.g. after a secondary rate limit response) so that
+ * queued tasks wait instead of hitting the API again immediately
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil = 0;
+
+  constructor(public readonly limit: number = 1) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${limit}`);
+    }
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hold back tasks that have not started yet until the given time
+   */
+  pauseUntil(time: Date): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time.getTime());
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // The releasing task hands its slot over directly
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+
+    const waitTime = this.pausedUntil - Date.now();
+    if (waitTime > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Map items with at most `limit` calls of `fn` in flight, preserving result order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
@@ -16,7 +16,48 @@ export interface AppConfig {
   analysis: AnalysisConfig;
   /** Output settings */
   output?: OutputConfig;
+  /** Multi-repository scope (overrides `repository` when set) */
+  scope?: RepositoryScope;
+  /** GitHub API client settings */
+  api?: ApiConfig;
+}
 
+/**
+ * GitHub API client settings - optional with sensible defaults
+ */
+export interface ApiConfig {
+  /** Maximum number of API requests in flight at once (defaults to 1) */
+  concurrency?: number;
+  /** API used to fetch pull requests and comments (defaults to 'rest') */
+  client?: ApiClientType;
+  /** Directory for the HTTP response cache (caching is disabled when unset) */
+  cacheDir?: string;
+  /** Seconds a cached response is reused without revalidation (defaults to 0, always revalidate) */
+  cacheTtl?: number;
+  /** REST API base URL, e.g. 'https://ghe.example.com/api/v3' for GitHub Enterprise Server */
+  apiBaseUrl?: string;
+  /** Web base URL used for generated links, e.g. 'https://ghe.example.com' */
+  webBaseUrl?: string;
+}
+
+/** REST API base URL of github.com */
+export const DEFAULT_API_BASE_URL = 'https://api.github.com';
+
+/** Web base URL of github.com */
+export const DEFAULT_WEB_BASE_URL = 'https://github.com';
+
+/**
+ * GitHub API client type
+ * - 'rest': REST API, one reactions request per comment
+ * - 'graphql': GraphQL API, comments, review threads and reactions in batched queries
+ */
+export type ApiClientType = 'rest' | 'graphql';
+
+/**
+ * Check if a string is a supported API client type
+ */
+export function isApiClientType(type: string): type is ApiClientType {
+  return ['rest', 'graphql'].includes(type);
 }
 
 /**
@@ -29,6 +70,21 @@ export interface RepositoryConfig {
   repo: string;
 }
 
+/**
+ * Multi-repository scope - repositories are enumerated from an organization
+ * and/or listed explicitly, then narrowed by name glob and topic
+ */
+export interface RepositoryScope {
+  /** Organization whose repositories are enumerated */
+  organization?: string;
+  /** Explicitly listed repositories */
+  repositories?: RepositoryConfig[];
+  /** Glob matched against repository names, e.g. 'api-*' or 'my-org/web-*' */
+  nameFilter?: string;
+  /** Only include organization repositories tagged with this topic */
+  topic?: string;
+}
+
 /**
  * Authentication configuration - supports both PAT and GitHub App
  */
@@ -54,8 +110,28 @@ export interface AuthConfig {
 export interface AnalysisConfig {
   /** Username to identify reviewer comments (e.g., 'coderabbitai') */
   reviewerUserName: string;
+  /** Several reviewer usernames to compare side by side (overrides `reviewerUserName` when set) */
+  reviewers?: string[];
   /** Time period for analysis */
   timePeriod: DateRange;
+  /** How comment resolution is determined (defaults to 'threads') */
+  resolutionMode?: ResolutionMode;
+  /** Only collect pull requests updated at or after this time (incremental collection) */
+  updatedSince?: Date;
+}
+
+/**
+ * Resolution detection mode
+ * - 'threads': use the review thread state reported by GitHub
+ * - 'heuristic': infer resolution from keywords, markers and reactions
+ */
+export type ResolutionMode = 'threads' | 'heuristic';
+
+/**
+ * Check if a string is a supported resolution mode
+ */
+export function isResolutionMode(mode: string): mode is ResolutionMode {
+  return ['threads', 'heuristic'].includes(mode);
 }
 
 /**
@@ -78,6 +154,104 @@ export class AIReviewerUtils {
   static isAIReviewer(username: string, configuredReviewerName: string): boolean {
     return username.toLowerCase().trim() === configuredReviewerName.toLowerCase().trim();
   }
+
+  /**
+   * Get the configured reviewer usernames (multiple when comparing reviewers)
+   */
+  static getReviewers(config: AnalysisConfig): string[] {
+    return config.reviewers && config.reviewers.length > 0 ? config.reviewers : [config.reviewerUserName];
+  }
+
+  /**
+   * Parse a comma-separated list of reviewer usernames
+   */
+  static parseReviewerList(value: string): string[] {
+    return value
+      .split(',')
+      .map(item => item.trim())
+      .filter(item => item.length > 0);
+  }
+}
+
+/**
+ * Format a repository configuration as "owner/repo"
+ */
+export function formatRepository(repo: RepositoryConfig): string {
+  return `${repo.owner}/${repo.repo}`;
+}
+
+/**
+ * Parse an "owner/repo" string into a repository configuration
+ */
+export function parseRepository(value: string): RepositoryConfig {
+  const [owner, repo, ...rest] = value.trim().split('/');
+  if (!owner || !repo || rest.length > 0) {
+    throw new ConfigurationError(`Repository must be in format owner/repo: ${value}`);
+  }
+  return { owner, repo };
+}
+
+/**
+ * Parse a comma-separated list of "owner/repo" strings
+ */
+export function parseRepositoryList(value: string): RepositoryConfig[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0)
+    .map(item => parseRepository(item));
+}
+
+/**
+ * Check whether a scope selects repositories beyond the single configured repository
+ */
+export function hasRepositoryScope(scope?: RepositoryScope): boolean {
+  return !!scope && (!!scope.organization || (scope.repositories?.length ?? 0) > 0);
+}
+
+/**
+ * Describe the analyzed repositories for report metadata
+ * Single repositories are "owner/repo"; organizations use "org/*"
+ */
+export function describeRepositoryScope(repositories: RepositoryConfig[], scope?: RepositoryScope): string {
+  if (scope?.organization && !(scope.repositories?.length)) {
+    return `${scope.organization}/${scope.nameFilter || '*'}`;
+  }
+  return repositories.map(formatRepository).join(', ');
+}
+
+/**
+ * Get the REST API base URL without a trailing slash
+ */
+export function getApiBaseUrl(api?: ApiConfig): string {
+  return (api?.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Get the web base URL without a trailing slash
+ * Derived from a GitHub Enterprise Server API URL ('https://host/api/v3' -> 'https://host') when not set
+ */
+export function getWebBaseUrl(api?: ApiConfig): string {
+  if (api?.webBaseUrl) {
+    return api.webBaseUrl.replace(/\/+$/, '');
+  }
+
+  const apiBaseUrl = getApiBaseUrl(api);
+  if (apiBaseUrl === DEFAULT_API_BASE_URL) {
+    return DEFAULT_WEB_BASE_URL;
+  }
+  return apiBaseUrl.replace(/\/api\/v3$/, '');
+}
+
+/**
+ * Get the GraphQL endpoint for a REST API base URL
+ * GitHub Enterprise Server serves GraphQL at '/api/graphql' next to the REST API at '/api/v3'
+ */
+export function getGraphQLUrl(api?: ApiConfig): string {
+  const apiBaseUrl = getApiBaseUrl(api);
+  return /\/api\/v3$/.test(apiBaseUrl)
+    ? apiBaseUrl.replace(/\/v3$/, '/graphql')
+    : `${apiBaseUrl}/graphql`;
 }
 
 /**
@@ -98,6 +272,7 @@ export const DEFAULT_CONFIG: Partial<AppConfig> = {
       start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 days ago
       end: new Date(), // now
     },
+    resolutionMode: 'threads',
   },
   output: {
     format: 'json',
@@ -148,6 +323,7 @@ export class ConfigurationManager implements IConfigurationProvider {
           start: process.env.ANALYSIS_START_DATE ? new Date(process.env.ANALYSIS_START_DATE) : DEFAULT_CONFIG.analysis?.timePeriod?.start || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
           end: process.env.ANALYSIS_END_DATE ? new Date(process.env.ANALYSIS_END_DATE) : DEFAULT_CONFIG.analysis?.timePeriod?.end || new Date(),
         },
+        resolutionMode: (process.env.RESOLUTION_MODE as ResolutionMode) || DEFAULT_CONFIG.analysis?.resolutionMode || 'threads',
       },
       output: {
         format: (process.env.OUTPUT_FORMAT as 'json' | 'markdown') || DEFAULT_CONFIG.output?.format || 'json',
@@ -156,6 +332,38 @@ export class ConfigurationManager implements IConfigurationProvider {
 
     };
 
+    if (process.env.REVIEWER_USERNAMES) {
+      const reviewers = AIReviewerUtils.parseReviewerList(process.env.REVIEWER_USERNAMES);
+      config.analysis.reviewers = reviewers;
+      config.analysis.reviewerUserName = reviewers[0] || config.analysis.reviewerUserName;
+    }
+
+    const scope = this.buildRepositoryScope();
+    if (scope) {
+      config.scope = scope;
+    }
+
+    if (process.env.GITHUB_API_CONCURRENCY) {
+      config.api = { ...config.api, concurrency: Number(process.env.GITHUB_API_CONCURRENCY) };
+    }
+    if (process.env.GITHUB_API_CLIENT) {
+      config.api = { ...config.api, client: process.env.GITHUB_API_CLIENT as ApiClientType };
+    }
+    if (process.env.GITHUB_API_CACHE_DIR) {
+      config.api = { ...config.api, cacheDir: process.env.GITHUB_API_CACHE_DIR };
+    }
+    if (process.env.GITHUB_API_CACHE_TTL) {
+      config.api = { ...config.api, cacheTtl: Number(process.env.GITHUB_API_CACHE_TTL) };
+    }
+
+    // Same variables GitHub Actions sets on GitHub Enterprise Server runners
+    if (process.env.GITHUB_API_URL) {
+      config.api = { ...config.api, apiBaseUrl: process.env.GITHUB_API_URL };
+    }
+    if (process.env.GITHUB_SERVER_URL) {
+      config.api = { ...config.api, webBaseUrl: process.env.GITHUB_SERVER_URL };
+    }
+
     // Basic validation
     const errors = this.validateConfig(config);
     if (errors.length > 0) {
@@ -166,6 +374,28 @@ export class ConfigurationManager implements IConfigurationProvider {
     return config;
   }
 
+  /**
+   * Build multi-repository scope from environment variables
+   */
+  private buildRepositoryScope(): RepositoryScope | undefined {
+    const scope: RepositoryScope = {};
+
+    if (process.env.GITHUB_ORGANIZATION) {
+      scope.organization = process.env.GITHUB_ORGANIZATION;
+    }
+    if (process.env.GITHUB_REPOSITORIES) {
+      scope.repositories = parseRepositoryList(process.env.GITHUB_REPOSITORIES);
+    }
+    if (process.env.REPOSITORY_FILTER) {
+      scope.nameFilter = process.env.REPOSITORY_FILTER;
+    }
+    if (process.env.REPOSITORY_TOPIC) {
+      scope.topic = process.env.REPOSITORY_TOPIC;
+    }
+
+    return Object.keys(scope).length > 0 ? scope : undefined;
+  }
+
   /**
    * Build authentication configuration based on environment variables
    */
@@ -195,11 +425,14 @@ export class ConfigurationManager implements IConfigurationProvider {
   validateConfig(config: AppConfig): ValidationError[] {
     const errors: ValidationError[] = [];
 
-    if (!config.repository.owner) {
-      errors.push({ field: 'repository.owner', message: 'Repository owner is required' });
-    }
-    if (!config.repository.repo) {
-      errors.push({ field: 'repository.repo', message: 'Repository name is required' });
+    // A multi-repository scope replaces the single repository
+    if (!hasRepositoryScope(config.scope)) {
+      if (!config.repository.owner) {
+        errors.push({ field: 'repository.owner', message: 'Repository owner is required' });
+      }
+      if (!config.repository.repo) {
+        errors.push({ field: 'repository.repo', message: 'Repository name is required' });
+      }
     }
     // Validate authentication configuration
     if (config.auth.type === 'token') {
@@ -226,6 +459,24 @@ export class ConfigurationManager implements IConfigurationProvider {
     if (!config.analysis.reviewerUserName) {
       errors.push({ field: 'analysis.reviewerUserName', message: 'Reviewer username is required' });
     }
+    if (config.analysis.resolutionMode && !isResolutionMode(config.analysis.resolutionMode)) {
+      errors.push({ field: 'analysis.resolutionMode', message: 'Resolution mode must be either "threads" or "heuristic"' });
+    }
+    if (config.api?.concurrency !== undefined && !(Number.isInteger(config.api.concurrency) && config.api.concurrency > 0)) {
+      errors.push({ field: 'api.concurrency', message: 'Concurrency must be a positive integer' });
+    }
+    if (config.api?.client && !isApiClientType(config.api.client)) {
+      errors.push({ field: 'api.client', message: 'API client must be either "rest" or "graphql"' });
+    }
+    if (config.api?.cacheTtl !== undefined && !(config.api.cacheTtl >= 0)) {
+      errors.push({ field: 'api.cacheTtl', message: 'Cache TTL must be a non-negative number of seconds' });
+    }
+    for (const field of ['apiBaseUrl', 'webBaseUrl'] as const) {
+      const url = config.api?.[field];
+      if (url && !/^https?:\/\/[^/]+/.test(url)) {
+        errors.push({ field: `api.${field}`, message: 'Base URL must be an absolute http(s) URL' });
+      }
+    }
     if (config.analysis.timePeriod.start >= config.analysis.timePeriod.end) {
       errors.push({ field: 'analysis.timePeriod', message: 'Start date must be before end date' });
     }
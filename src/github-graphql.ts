@@ -0,0 +1,495 @@
+/**
+ * GraphQL-backed GitHub API client
+ * Fetches pull requests, review threads, comments and reactions in batched queries
+ * instead of one REST call per comment, producing the same data models as the REST client
+ */
+
+import { GitHubClient } from './github';
+import { ApiConfig, RepositoryConfig } from './config';
+import { PullRequest, Comment, DateRange, User, Reaction, Review } from './types/core';
+import { ReviewThreadState } from './types/interfaces';
+
+const ACTOR_FIELDS = 'login __typename ... on User { databaseId } ... on Bot { databaseId }';
+
+const REACTION_FIELDS = `
+  reactions(first: 100) {
+    pageInfo { hasNextPage endCursor }
+    nodes { content createdAt user { login databaseId } }
+  }
+`;
+
+const COMMENT_FIELDS = `
+  id databaseId body createdAt updatedAt
+  author { ${ACTOR_FIELDS} }
+  ${REACTION_FIELDS}
+`;
+
+const REVIEW_COMMENT_FIELDS = `
+  ${COMMENT_FIELDS}
+  path position originalLine originalStartLine diffHunk
+  originalCommit { oid }
+  replyTo { databaseId }
+  pullRequestReview { databaseId }
+`;
+
+/**
+ * GitHub API client that uses the GraphQL API for pull request and comment data
+ * Authentication, rate limiting and organization listing are inherited from the REST client
+ */
+export class GraphQLGitHubClient extends GitHubClient {
+  /**
+   * Get pull requests for a repository within a time period
+   * When `updatedSince` is given, only pull requests updated at or after it are returned
+   */
+  async getPullRequests(repo: RepositoryConfig, period: DateRange, updatedSince?: Date): Promise<PullRequest[]> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const query = `
+      query($owner: String!, $repo: String!, $cursor: String) {
+        repository(owner: $owner, name: $repo) {
+          pullRequests(first: 100, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              databaseId number title state createdAt updatedAt mergedAt
+              author { ${ACTOR_FIELDS} }
+            }
+          }
+        }
+      }
+    `;
+
+    const pullRequests: PullRequest[] = [];
+    const stopBefore = updatedSince && updatedSince > period.start ? updatedSince : period.start;
+    let cursor: string | null = null;
+    let page = 1;
+
+    while (page <= 100) { // Limit to 100 pages to prevent infinite loops
+      const data: any = await this.graphql(query, { owner: repo.owner, repo: repo.repo, cursor });
+      const connection = data.repository?.pullRequests;
+      if (!connection) {
+        break;
+      }
+
+      for (const pr of connection.nodes) {
+        const createdAt = new Date(pr.createdAt);
+
+        // Results are sorted by update time, so nothing after this point qualifies
+        if (new Date(pr.updatedAt) < stopBefore) {
+          return pullRequests;
+        }
+
+        if (createdAt >= period.start && createdAt <= period.end) {
+          pullRequests.push(this.convertGraphQLPullRequest(pr));
+        }
+      }
+
+      if (!connection.pageInfo.hasNextPage) {
+        break;
+      }
+      cursor = connection.pageInfo.endCursor;
+      page++;
+    }
+
+    return pullRequests;
+  }
+
+  /**
+   * Get comments for a specific pull request
+   * Review threads (with their resolution state) and issue comments are paged in the same query;
+   * threads with more than 100 comments and comments with more than 100 reactions are completed
+   * with follow-up queries
+   */
+  async getComments(repo: RepositoryConfig, prNumber: number): Promise<Comment[]> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const query = `
+      query(
+        $owner: String!, $repo: String!, $number: Int!,
+        $threadCursor: String, $commentCursor: String,
+        $withThreads: Boolean!, $withComments: Boolean!
+      ) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            reviewThreads(first: 50, after: $threadCursor) @include(if: $withThreads) {
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                id isResolved isOutdated
+                resolvedBy { login databaseId }
+                comments(first: 50) {
+                  pageInfo { hasNextPage endCursor }
+                  nodes { ${REVIEW_COMMENT_FIELDS} }
+                }
+              }
+            }
+            comments(first: 50, after: $commentCursor) @include(if: $withComments) {
+              pageInfo { hasNextPage endCursor }
+              nodes { ${COMMENT_FIELDS} }
+            }
+          }
+        }
+      }
+    `;
+
+    const reviewComments: Comment[] = [];
+    const issueComments: Comment[] = [];
+    let threadCursor: string | null = null;
+    let commentCursor: string | null = null;
+    let withThreads = true;
+    let withComments = true;
+    let page = 1;
+
+    while ((withThreads || withComments) && page <= 100) { // Limit to 100 pages to prevent infinite loops
+      const data: any = await this.graphql(query, {
+        owner: repo.owner,
+        repo: repo.repo,
+        number: prNumber,
+        threadCursor,
+        commentCursor,
+        withThreads,
+        withComments
+      });
+
+      const pullRequest = data.repository?.pullRequest;
+      if (!pullRequest) {
+        break;
+      }
+
+      if (withThreads) {
+        for (const thread of pullRequest.reviewThreads.nodes) {
+          reviewComments.push(...await this.convertReviewThread(thread));
+        }
+        withThreads = pullRequest.reviewThreads.pageInfo.hasNextPage;
+        threadCursor = pullRequest.reviewThreads.pageInfo.endCursor;
+      }
+
+      if (withComments) {
+        for (const comment of pullRequest.comments.nodes) {
+          issueComments.push(await this.convertGraphQLComment(comment));
+        }
+        withComments = pullRequest.comments.pageInfo.hasNextPage;
+        commentCursor = pullRequest.comments.pageInfo.endCursor;
+      }
+
+      page++;
+    }
+
+    // Match the REST client's ordering: review comments, then issue comments, oldest first
+    const byCreation = (a: Comment, b: Comment) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id;
+    return [...reviewComments.sort(byCreation), ...issueComments.sort(byCreation)];
+  }
+
+  /**
+   * Get reviews (with their summary bodies) for a specific pull request
+   * Dismissal events are fetched with the first page and restore the state a dismissed review was submitted with
+   */
+  async getReviews(repo: RepositoryConfig, prNumber: number): Promise<Review[]> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const query = `
+      query($owner: String!, $repo: String!, $number: Int!, $cursor: String, $withDismissals: Boolean!) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            reviews(first: 100, after: $cursor) {
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                databaseId body state submittedAt
+                author { ${ACTOR_FIELDS} }
+                commit { oid }
+              }
+            }
+            timelineItems(first: 100, itemTypes: [REVIEW_DISMISSED_EVENT]) @include(if: $withDismissals) {
+              nodes {
+                ... on ReviewDismissedEvent {
+                  createdAt previousReviewState
+                  actor { ${ACTOR_FIELDS} }
+                  review { databaseId }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const reviews: Review[] = [];
+    const dismissals: any[] = [];
+    let cursor: string | null = null;
+    let page = 1;
+
+    while (page <= 100) { // Limit to 100 pages to prevent infinite loops
+      const data: any = await this.graphql(query, {
+        owner: repo.owner,
+        repo: repo.repo,
+        number: prNumber,
+        cursor,
+        withDismissals: page === 1
+      });
+
+      const pullRequest = data.repository?.pullRequest;
+      if (!pullRequest) {
+        break;
+      }
+
+      reviews.push(...pullRequest.reviews.nodes.map((node: any) => this.convertGraphQLReview(node)));
+      if (pullRequest.timelineItems) {
+        dismissals.push(...pullRequest.timelineItems.nodes);
+      }
+
+      if (!pullRequest.reviews.pageInfo.hasNextPage) {
+        break;
+      }
+      cursor = pullRequest.reviews.pageInfo.endCursor;
+      page++;
+    }
+
+    for (const dismissal of dismissals) {
+      const review = reviews.find(candidate => candidate.id === dismissal.review?.databaseId);
+      if (review) {
+        const dismissedBy = dismissal.actor ? this.convertActor(dismissal.actor) : undefined;
+        this.applyDismissal(review, this.mapReviewState(dismissal.previousReviewState), dismissedBy, dismissal.createdAt);
+      }
+    }
+
+    return reviews;
+  }
+
+  /**
+   * Convert a review thread to comments carrying the thread's resolution state
+   */
+  private async convertReviewThread(thread: any): Promise<Comment[]> {
+    const state: ReviewThreadState = {
+      threadId: thread.id,
+      isResolved: thread.isResolved,
+      isOutdated: thread.isOutdated
+    };
+    if (thread.resolvedBy) {
+      state.resolvedBy = {
+        login: thread.resolvedBy.login,
+        type: 'User',
+        id: thread.resolvedBy.databaseId
+      };
+    }
+
+    const nodes = [...thread.comments.nodes];
+    if (thread.comments.pageInfo.hasNextPage) {
+      nodes.push(...await this.getRemainingThreadComments(thread.id, thread.comments.pageInfo.endCursor));
+    }
+
+    const comments: Comment[] = [];
+    for (const node of nodes) {
+      const comment = await this.convertGraphQLComment(node);
+      this.applyThreadState(comment, state);
+      comments.push(comment);
+    }
+
+    return comments;
+  }
+
+  /**
+   * Fetch review thread comments beyond the first page
+   */
+  private async getRemainingThreadComments(threadId: string, cursor: string | null): Promise<any[]> {
+    const query = `
+      query($id: ID!, $cursor: String) {
+        node(id: $id) {
+          ... on PullRequestReviewThread {
+            comments(first: 100, after: $cursor) {
+              pageInfo { hasNextPage endCursor }
+              nodes { ${REVIEW_COMMENT_FIELDS} }
+            }
+          }
+        }
+      }
+    `;
+
+    return this.getRemainingNodes(query, threadId, cursor, node => node?.comments);
+  }
+
+  /**
+   * Fetch reactions of a comment beyond the first page
+   */
+  private async getRemainingReactions(commentId: string, cursor: string | null): Promise<any[]> {
+    const query = `
+      query($id: ID!, $cursor: String) {
+        node(id: $id) {
+          ... on Reactable {
+            reactions(first: 100, after: $cursor) {
+              pageInfo { hasNextPage endCursor }
+              nodes { content createdAt user { login databaseId } }
+            }
+          }
+        }
+      }
+    `;
+
+    return this.getRemainingNodes(query, commentId, cursor, node => node?.reactions);
+  }
+
+  /**
+   * Follow a connection of a node until its last page
+   */
+  private async getRemainingNodes(
+    query: string,
+    id: string,
+    cursor: string | null,
+    selectConnection: (node: any) => any
+  ): Promise<any[]> {
+    const nodes: any[] = [];
+    let page = 1;
+
+    while (page <= 100) { // Limit to 100 pages to prevent infinite loops
+      const data: any = await this.graphql(query, { id, cursor });
+      const connection = selectConnection(data.node);
+      if (!connection) {
+        break;
+      }
+
+      nodes.push(...connection.nodes);
+      if (!connection.pageInfo.hasNextPage) {
+        break;
+      }
+      cursor = connection.pageInfo.endCursor;
+      page++;
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Convert a GraphQL pull request node to our format
+   */
+  private convertGraphQLPullRequest(pr: any): PullRequest {
+    const pullRequest: PullRequest = {
+      id: pr.databaseId,
+      number: pr.number,
+      title: pr.title,
+      state: pr.state.toLowerCase(),
+      createdAt: new Date(pr.createdAt),
+      updatedAt: new Date(pr.updatedAt),
+      author: this.convertActor(pr.author),
+      comments: [] // Comments will be loaded separately
+    };
+
+    if (pr.mergedAt) {
+      pullRequest.mergedAt = new Date(pr.mergedAt);
+    }
+
+    return pullRequest;
+  }
+
+  /**
+   * Convert a GraphQL review node to our format
+   */
+  private convertGraphQLReview(node: any): Review {
+    const review: Review = {
+      id: node.databaseId,
+      body: node.body || '',
+      author: this.convertActor(node.author),
+      state: this.mapReviewState(node.state),
+      commentIds: [] // Linked to inline comments by the data collector
+    };
+
+    if (node.submittedAt) {
+      review.submittedAt = new Date(node.submittedAt);
+    }
+    if (node.commit?.oid) {
+      review.commitId = node.commit.oid;
+    }
+
+    return review;
+  }
+
+  /**
+   * Convert a GraphQL issue or review comment node to our format
+   */
+  private async convertGraphQLComment(node: any): Promise<Comment> {
+    const reactionNodes = [...node.reactions.nodes];
+    if (node.reactions.pageInfo.hasNextPage) {
+      reactionNodes.push(...await this.getRemainingReactions(node.id, node.reactions.pageInfo.endCursor));
+    }
+
+    const comment: Comment = {
+      id: node.databaseId,
+      body: node.body,
+      author: this.convertActor(node.author),
+      createdAt: new Date(node.createdAt),
+      updatedAt: new Date(node.updatedAt),
+      isResolved: false, // Set from review thread state, or by the data processor in heuristic mode
+      reactions: reactionNodes.map(reaction => this.convertGraphQLReaction(reaction)),
+      replies: [] // Will be populated by data processor
+    };
+
+    if (node.path) {
+      comment.path = node.path;
+    }
+    if (typeof node.position === 'number') {
+      comment.position = node.position;
+    }
+    if (node.replyTo) {
+      comment.inReplyToId = node.replyTo.databaseId;
+    }
+    if (node.pullRequestReview) {
+      comment.reviewId = node.pullRequestReview.databaseId;
+    }
+    if (typeof node.originalLine === 'number') {
+      comment.line = node.originalLine;
+    }
+    if (node.originalCommit) {
+      comment.commitId = node.originalCommit.oid;
+    }
+    if (node.diffHunk) {
+      const commentedLines = this.extractCommentedLines(node.diffHunk, node.originalStartLine, node.originalLine);
+      if (commentedLines) {
+        comment.commentedLines = commentedLines;
+      }
+    }
+
+    return comment;
+  }
+
+  /**
+   * Convert a GraphQL reaction node to our format
+   */
+  private convertGraphQLReaction(reaction: any): Reaction {
+    const content: Record<string, string> = { THUMBS_UP: '+1', THUMBS_DOWN: '-1' };
+
+    return {
+      type: this.mapReactionType(content[reaction.content] || String(reaction.content).toLowerCase()),
+      user: reaction.user
+        ? { login: reaction.user.login, type: 'User', id: reaction.user.databaseId }
+        : this.convertActor(null),
+      createdAt: new Date(reaction.createdAt)
+    };
+  }
+
+  /**
+   * Convert a GraphQL actor to our user format
+   * GraphQL reports bot logins without the "[bot]" suffix the REST API uses, so it is added back
+   * to keep reviewer usernames interchangeable between clients; deleted accounts become "ghost"
+   */
+  private convertActor(actor: any): User {
+    if (!actor) {
+      return { login: 'ghost', type: 'User', id: 0 };
+    }
+
+    const isBot = actor.__typename === 'Bot';
+    return {
+      login: isBot && !actor.login.endsWith('[bot]') ? `${actor.login}[bot]` : actor.login,
+      type: isBot ? 'Bot' : 'User',
+      id: actor.databaseId ?? 0
+    };
+  }
+}
+
+/**
+ * Factory function to create the GitHub client selected by the API configuration
+ */
+export function createGitHubClient(config: ApiConfig = {}): GitHubClient {
+  return config.client === 'graphql' ? new GraphQLGitHubClient(config) : new GitHubClient(config);
+}
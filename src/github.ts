@@ -2,26 +2,42 @@
  * GitHub API client implementation with rate limiting and pagination
  */
 
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import * as jwt from 'jsonwebtoken';
-import { IGitHubClient, RateLimitInfo } from './types/interfaces';
-import { AuthConfig, RepositoryConfig } from './config';
-import { PullRequest, Comment, DateRange, User, Reaction } from './types/core';
+import { CommentTarget, ICommentClient, IGitHubClient, PublishedComment, RateLimitInfo, RepositorySummary, ReviewThreadState } from './types/interfaces';
+import { GitHubAPIError } from './types';
+import { ApiConfig, AuthConfig, RepositoryConfig, getApiBaseUrl, getGraphQLUrl } from './config';
+import { ConcurrencyLimiter } from './concurrency';
+import { CacheEntry, CacheStats, ResponseCache } from './cache';
+import { PullRequest, PullRequestFile, Comment, Commit, CommitFile, DateRange, DiffHunk, User, Reaction, Review, ReviewState } from './types/core';
 
 /**
  * GitHub API client with rate limiting, retry logic, and pagination
  */
-export class GitHubClient implements IGitHubClient {
+export class GitHubClient implements IGitHubClient, ICommentClient {
   private client: AxiosInstance;
   private authenticated = false;
   private rateLimitInfo: RateLimitInfo | null = null;
   private authConfig: AuthConfig | null = null;
+  private limiter: ConcurrencyLimiter;
+  private cache: ResponseCache | null = null;
+  private apiBaseUrl: string;
+  private graphqlUrl: string;
 
-  constructor() {
+  constructor(options: ApiConfig = {}) {
     this.setupSecureLogging();
+
+    // Shared by every API request, so comment, thread and reaction fetches stay within one budget
+    this.limiter = new ConcurrencyLimiter(options.concurrency || 1);
+    this.apiBaseUrl = getApiBaseUrl(options);
+    this.graphqlUrl = getGraphQLUrl(options);
+
+    if (options.cacheDir) {
+      this.cache = new ResponseCache(options.cacheDir, options.cacheTtl || 0);
+    }
     
     this.client = axios.create({
-      baseURL: 'https://api.github.com',
+      baseURL: this.apiBaseUrl,
       headers: {
         'Accept': 'application/vnd.github.v3+json',
         'User-Agent': 'github-pr-metrics/1.0.0'
@@ -48,6 +64,20 @@ export class GitHubClient implements IGitHubClient {
           }
         }
 
+        // Back off on secondary rate limits, holding back queued requests as well
+        if (this.isSecondaryRateLimit(error.response)) {
+          const retryCount = error.config.__secondaryRetryCount || 0;
+          if (retryCount < 3) {
+            error.config.__secondaryRetryCount = retryCount + 1;
+            const retryAfter = parseInt(error.response.headers['retry-after']);
+            const waitTime = (isNaN(retryAfter) ? 60 * Math.pow(2, retryCount) : retryAfter) * 1000;
+            console.log(`Secondary rate limit exceeded. Waiting ${Math.ceil(waitTime / 1000)} seconds...`);
+            this.limiter.pauseUntil(new Date(Date.now() + waitTime));
+            await this.sleep(waitTime);
+            return this.client.request(error.config);
+          }
+        }
+
         // Retry on network errors with exponential backoff
         if (error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT') {
           const retryCount = error.config.__retryCount || 0;
@@ -131,7 +161,7 @@ export class GitHubClient implements IGitHubClient {
 
     // Get installation access token
     const installationResponse = await axios.post(
-      `https://api.github.com/app/installations/${installationId}/access_tokens`,
+      `${this.apiBaseUrl}/app/installations/${installationId}/access_tokens`,
       {},
       {
         headers: {
@@ -154,8 +184,9 @@ export class GitHubClient implements IGitHubClient {
 
   /**
    * Get pull requests for a repository within a time period
+   * When `updatedSince` is given, only pull requests updated at or after it are returned
    */
-  async getPullRequests(repo: RepositoryConfig, period: DateRange): Promise<PullRequest[]> {
+  async getPullRequests(repo: RepositoryConfig, period: DateRange, updatedSince?: Date): Promise<PullRequest[]> {
     if (!this.authenticated) {
       throw new Error('Client must be authenticated before making API calls');
     }
@@ -163,11 +194,12 @@ export class GitHubClient implements IGitHubClient {
     const pullRequests: PullRequest[] = [];
     let page = 1;
     const perPage = 100; // Maximum allowed by GitHub API
+    const stopBefore = updatedSince && updatedSince > period.start ? updatedSince : period.start;
 
     while (page <= 100) { // Limit to 100 pages to prevent infinite loops
       await this.checkRateLimit();
 
-      const response = await this.client.get(`/repos/${repo.owner}/${repo.repo}/pulls`, {
+      const response = await this.get(`/repos/${repo.owner}/${repo.repo}/pulls`, {
         params: {
           state: 'all',
           sort: 'updated',
@@ -188,7 +220,8 @@ export class GitHubClient implements IGitHubClient {
         const createdAt = new Date(pr.created_at);
         const updatedAt = new Date(pr.updated_at);
         
-        if (updatedAt < period.start) {
+        // Results are sorted by update time, so nothing after this point qualifies
+        if (updatedAt < stopBefore) {
           return pullRequests;
         }
 
@@ -216,27 +249,364 @@ export class GitHubClient implements IGitHubClient {
       throw new Error('Client must be authenticated before making API calls');
     }
 
-    const comments: Comment[] = [];
-    
-    // Get review comments (inline comments)
-    const reviewComments = await this.getPaginatedData(
-      `/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}/comments`
-    );
-
-    // Get issue comments (general PR comments)
-    const issueComments = await this.getPaginatedData(
-      `/repos/${repo.owner}/${repo.repo}/issues/${prNumber}/comments`
-    );
+    // Get review comments (inline comments) and issue comments (general PR comments)
+    const [reviewComments, issueComments] = await Promise.all([
+      this.getPaginatedData(`/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}/comments`),
+      this.getPaginatedData(`/repos/${repo.owner}/${repo.repo}/issues/${prNumber}/comments`)
+    ]);
+
+    // Get review thread resolution state (only review comments belong to threads)
+    // Without it every review comment would count as unresolved, so a failure fails the PR
+    let threadStates = new Map<number, ReviewThreadState>();
+    if (reviewComments.length > 0) {
+      try {
+        threadStates = await this.getReviewThreadStates(repo, prNumber);
+      } catch (error: any) {
+        throw new Error(`Could not fetch review threads for PR #${prNumber}: ${this.sanitizeErrorMessage(error.message)}`);
+      }
+    }
 
-    // Convert and combine all comments
-    for (const comment of [...reviewComments, ...issueComments]) {
+    // Convert and combine all comments; reactions are fetched in parallel within the concurrency limit
+    return Promise.all([...reviewComments, ...issueComments].map(async comment => {
       const convertedComment = await this.convertComment(comment, repo);
-      comments.push(convertedComment);
+      const threadState = threadStates.get(comment.id);
+      if (threadState) {
+        this.applyThreadState(convertedComment, threadState);
+      }
+      return convertedComment;
+    }));
+  }
+
+  /**
+   * Get reviews (with their summary bodies) for a specific pull request
+   * GitHub reports dismissed reviews as DISMISSED, so the state they were submitted with
+   * and who dismissed them are recovered from the PR's review_dismissed events
+   */
+  async getReviews(repo: RepositoryConfig, prNumber: number): Promise<Review[]> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const reviews = (await this.getPaginatedData(`/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}/reviews`))
+      .map(review => this.convertReview(review));
+
+    if (reviews.some(review => review.state === 'dismissed')) {
+      try {
+        const events = await this.getPaginatedData(`/repos/${repo.owner}/${repo.repo}/issues/${prNumber}/events`);
+        for (const event of events) {
+          if (event.event !== 'review_dismissed' || !event.dismissed_review) {
+            continue;
+          }
+          const review = reviews.find(candidate => candidate.id === event.dismissed_review.review_id);
+          if (review) {
+            const dismissedBy = event.actor ? this.convertUser(event.actor) : undefined;
+            this.applyDismissal(review, this.mapReviewState(event.dismissed_review.state), dismissedBy, event.created_at);
+          }
+        }
+      } catch (error: any) {
+        console.warn(`Could not fetch review dismissals for PR #${prNumber}: ${this.sanitizeErrorMessage(error.message)}`);
+      }
+    }
+
+    return reviews;
+  }
+
+  /**
+   * Get the commits of a pull request
+   * Changed files (with diff hunks) cost one request per commit, so they are only fetched
+   * for commits made at or after `filesSince`; omit it to fetch files for every commit
+   */
+  async getCommits(repo: RepositoryConfig, prNumber: number, filesSince?: Date): Promise<Commit[]> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const commits = (await this.getPaginatedData(`/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}/commits`))
+      .map(commit => this.convertCommit(commit));
+
+    await Promise.all(commits
+      .filter(commit => !filesSince || commit.committedAt >= filesSince)
+      .map(async commit => {
+        try {
+          const response = await this.get(`/repos/${repo.owner}/${repo.repo}/commits/${commit.sha}`);
+          commit.files = (response.data.files || []).map((file: any) => this.convertCommitFile(file));
+        } catch (error: any) {
+          console.warn(`Could not fetch files of commit ${commit.sha.slice(0, 7)}: ${this.sanitizeErrorMessage(error.message)}`);
+        }
+      }));
+
+    return commits;
+  }
+
+  /**
+   * Get the files changed by a pull request, compared with its base branch
+   */
+  async getPullRequestFiles(repo: RepositoryConfig, prNumber: number): Promise<PullRequestFile[]> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    return (await this.getPaginatedData(`/repos/${repo.owner}/${repo.repo}/pulls/${prNumber}/files`))
+      .map(file => this.convertPullRequestFile(file));
+  }
+
+  /**
+   * Get review thread resolution state for a pull request via the GraphQL API
+   * Returns a map from review comment ID to the state of the thread containing it
+   */
+  async getReviewThreadStates(repo: RepositoryConfig, prNumber: number): Promise<Map<number, ReviewThreadState>> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const query = `
+      query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            reviewThreads(first: 100, after: $cursor) {
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                id
+                isResolved
+                isOutdated
+                resolvedBy { login databaseId }
+                comments(first: 100) {
+                  pageInfo { hasNextPage endCursor }
+                  nodes { databaseId }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const states = new Map<number, ReviewThreadState>();
+    let cursor: string | null = null;
+    let page = 1;
+
+    while (page <= 100) { // Limit to 100 pages to prevent infinite loops
+      const data: any = await this.graphql(query, {
+        owner: repo.owner,
+        repo: repo.repo,
+        number: prNumber,
+        cursor
+      });
+
+      const threads = data.repository?.pullRequest?.reviewThreads;
+      if (!threads) {
+        break;
+      }
+
+      for (const thread of threads.nodes) {
+        const state: ReviewThreadState = {
+          threadId: thread.id,
+          isResolved: thread.isResolved,
+          isOutdated: thread.isOutdated
+        };
+        if (thread.resolvedBy) {
+          state.resolvedBy = {
+            login: thread.resolvedBy.login,
+            type: 'User',
+            id: thread.resolvedBy.databaseId
+          };
+        }
+
+        const comments = [...thread.comments.nodes];
+        if (thread.comments.pageInfo?.hasNextPage) {
+          comments.push(...await this.getRemainingThreadCommentIds(thread.id, thread.comments.pageInfo.endCursor));
+        }
+        for (const comment of comments) {
+          states.set(comment.databaseId, state);
+        }
+      }
+
+      if (!threads.pageInfo.hasNextPage) {
+        break;
+      }
+      cursor = threads.pageInfo.endCursor;
+      page++;
+    }
+
+    return states;
+  }
+
+  /**
+   * Fetch the comment IDs of a review thread beyond its first page
+   */
+  private async getRemainingThreadCommentIds(threadId: string, cursor: string | null): Promise<any[]> {
+    const query = `
+      query($id: ID!, $cursor: String) {
+        node(id: $id) {
+          ... on PullRequestReviewThread {
+            comments(first: 100, after: $cursor) {
+              pageInfo { hasNextPage endCursor }
+              nodes { databaseId }
+            }
+          }
+        }
+      }
+    `;
+
+    const nodes: any[] = [];
+    let page = 1;
+
+    while (page <= 100) { // Limit to 100 pages to prevent infinite loops
+      const data: any = await this.graphql(query, { id: threadId, cursor });
+      const connection = data.node?.comments;
+      if (!connection) {
+        break;
+      }
+
+      nodes.push(...connection.nodes);
+      if (!connection.pageInfo.hasNextPage) {
+        break;
+      }
+      cursor = connection.pageInfo.endCursor;
+      page++;
+    }
+
+    return nodes;
+  }
+
+  /**
+   * List repositories of an organization
+   */
+  async listOrganizationRepositories(organization: string): Promise<RepositorySummary[]> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const repositories = await this.getPaginatedData(`/orgs/${organization}/repos`, { type: 'all' });
+
+    return repositories.map((repository: any) => ({
+      owner: repository.owner.login,
+      repo: repository.name,
+      topics: repository.topics || [],
+      archived: !!repository.archived
+    }));
+  }
+
+  /**
+   * List the comments of an issue, pull request or discussion, oldest first
+   * Uses the GraphQL API, which tells whether the authenticated user or app wrote each comment
+   */
+  async listComments(target: CommentTarget): Promise<PublishedComment[]> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    const connection = `
+      comments(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes { id databaseId body url viewerDidAuthor }
+      }
+    `;
+    const query = target.type === 'issue'
+      ? `
+        query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+          repository(owner: $owner, name: $repo) {
+            issueOrPullRequest(number: $number) {
+              ... on Issue { ${connection} }
+              ... on PullRequest { ${connection} }
+            }
+          }
+        }
+      `
+      : `
+        query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+          repository(owner: $owner, name: $repo) {
+            discussion(number: $number) { ${connection} }
+          }
+        }
+      `;
+
+    const comments: PublishedComment[] = [];
+    let cursor: string | null = null;
+    let page = 1;
+
+    while (page <= 100) { // Limit to 100 pages to prevent infinite loops
+      const data: any = await this.graphql(query, { owner: target.owner, repo: target.repo, number: target.number, cursor });
+      const parent = target.type === 'issue' ? data.repository?.issueOrPullRequest : data.repository?.discussion;
+      if (!parent) {
+        const kind = target.type === 'issue' ? 'Issue or pull request' : 'Discussion';
+        throw new Error(`${kind} #${target.number} not found in ${target.owner}/${target.repo}`);
+      }
+
+      comments.push(...parent.comments.nodes.map((comment: any) => ({
+        // Issue comments are updated through the REST API, which takes the numeric ID
+        id: target.type === 'issue' ? String(comment.databaseId) : comment.id,
+        body: comment.body,
+        url: comment.url,
+        viewerDidAuthor: comment.viewerDidAuthor === true
+      })));
+
+      if (!parent.comments.pageInfo.hasNextPage) {
+        break;
+      }
+      cursor = parent.comments.pageInfo.endCursor;
+      page++;
     }
 
     return comments;
   }
 
+  /**
+   * Post a comment to an issue, pull request or discussion
+   */
+  async createComment(target: CommentTarget, body: string): Promise<PublishedComment> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    if (target.type === 'issue') {
+      await this.checkRateLimit();
+      const response = await this.limiter.run(() =>
+        this.client.post(`/repos/${target.owner}/${target.repo}/issues/${target.number}/comments`, { body }));
+      return this.convertPublishedComment(response.data);
+    }
+
+    const lookup = await this.graphql(`
+      query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) { discussion(number: $number) { id } }
+      }
+    `, { owner: target.owner, repo: target.repo, number: target.number });
+    const discussionId = lookup.repository?.discussion?.id;
+    if (!discussionId) {
+      throw new Error(`Discussion #${target.number} not found in ${target.owner}/${target.repo}`);
+    }
+
+    const data = await this.graphql(`
+      mutation($discussionId: ID!, $body: String!) {
+        addDiscussionComment(input: { discussionId: $discussionId, body: $body }) { comment { id body url viewerDidAuthor } }
+      }
+    `, { discussionId, body });
+    return data.addDiscussionComment.comment;
+  }
+
+  /**
+   * Replace the body of an existing issue, pull request or discussion comment
+   */
+  async updateComment(target: CommentTarget, commentId: string, body: string): Promise<PublishedComment> {
+    if (!this.authenticated) {
+      throw new Error('Client must be authenticated before making API calls');
+    }
+
+    if (target.type === 'issue') {
+      await this.checkRateLimit();
+      const response = await this.limiter.run(() =>
+        this.client.patch(`/repos/${target.owner}/${target.repo}/issues/comments/${commentId}`, { body }));
+      return this.convertPublishedComment(response.data);
+    }
+
+    const data = await this.graphql(`
+      mutation($commentId: ID!, $body: String!) {
+        updateDiscussionComment(input: { commentId: $commentId, body: $body }) { comment { id body url viewerDidAuthor } }
+      }
+    `, { commentId, body });
+    return data.updateDiscussionComment.comment;
+  }
+
   /**
    * Get current rate limit information
    */
@@ -258,10 +628,87 @@ export class GitHubClient implements IGitHubClient {
     return this.authenticated;
   }
 
+  /**
+   * Execute a GraphQL query and return its data
+   */
+  protected async graphql(query: string, variables: Record<string, any>): Promise<any> {
+    await this.checkRateLimit();
+
+    const response = await this.limiter.run(() => this.client.post(this.graphqlUrl, { query, variables }));
+
+    if (response.data.errors && response.data.errors.length > 0) {
+      const messages = response.data.errors.map((error: any) => error.message).join('; ');
+      throw new GitHubAPIError(`GraphQL query failed: ${messages}`, response.status, response.data);
+    }
+
+    return response.data.data;
+  }
+
+  /**
+   * Get counters of how requests were served by the response cache (null when caching is disabled)
+   */
+  getCacheStats(): CacheStats | null {
+    return this.cache ? { ...this.cache.stats } : null;
+  }
+
+  /**
+   * Issue a GET request within the concurrency limit
+   * With a response cache, fresh entries are served from disk and stale ones are revalidated
+   * with If-None-Match, so unchanged pages come back as 304 without using the primary rate limit
+   */
+  private async get(url: string, config: AxiosRequestConfig = {}, useCache: boolean = true): Promise<AxiosResponse> {
+    if (!this.cache || !useCache) {
+      return this.limiter.run(() => this.client.get(url, config));
+    }
+
+    const cache = this.cache;
+    const credentials = String(this.client.defaults.headers.common['Authorization'] || '');
+    const key = cache.keyFor(`${this.apiBaseUrl}${url}`, config.params, credentials);
+    const cached = cache.read(key);
+
+    if (cached && cache.isFresh(cached)) {
+      cache.stats.hits++;
+      return { data: cached.data, status: 200, statusText: 'OK', headers: {}, config } as AxiosResponse;
+    }
+
+    const headers: Record<string, string> = { ...(config.headers as Record<string, string>) };
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    } else if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const response = await this.limiter.run(() => this.client.get(url, {
+      ...config,
+      headers,
+      validateStatus: status => (status >= 200 && status < 300) || status === 304
+    }));
+
+    if (response.status === 304 && cached) {
+      cache.stats.revalidated++;
+      cache.write(key, { ...cached, storedAt: Date.now() });
+      return { ...response, status: 200, data: cached.data };
+    }
+
+    cache.stats.misses++;
+    if (response.headers['etag'] || response.headers['last-modified']) {
+      const entry: CacheEntry = { url, data: response.data, storedAt: Date.now() };
+      if (response.headers['etag']) {
+        entry.etag = response.headers['etag'];
+      }
+      if (response.headers['last-modified']) {
+        entry.lastModified = response.headers['last-modified'];
+      }
+      cache.write(key, entry);
+    }
+
+    return response;
+  }
+
   /**
    * Generic method to handle paginated API responses
    */
-  private async getPaginatedData(endpoint: string, params: any = {}): Promise<any[]> {
+  private async getPaginatedData(endpoint: string, params: any = {}, useCache: boolean = true): Promise<any[]> {
     const allData: any[] = [];
     let page = 1;
     const perPage = 100;
@@ -269,13 +716,13 @@ export class GitHubClient implements IGitHubClient {
     while (page <= 100) { // Limit to 100 pages to prevent infinite loops
       await this.checkRateLimit();
 
-      const response = await this.client.get(endpoint, {
+      const response = await this.get(endpoint, {
         params: {
           ...params,
           per_page: perPage,
           page: page
         }
-      });
+      }, useCache);
 
       const data = response.data;
       
@@ -290,6 +737,18 @@ export class GitHubClient implements IGitHubClient {
     return allData;
   }
 
+  /**
+   * Convert a GitHub API issue comment to a published comment
+   */
+  private convertPublishedComment(comment: any): PublishedComment {
+    return {
+      id: String(comment.id),
+      body: comment.body || '',
+      url: comment.html_url,
+      viewerDidAuthor: true // Only used for comments the client just created or updated
+    };
+  }
+
   /**
    * Convert GitHub API pull request to our format
    */
@@ -329,7 +788,7 @@ export class GitHubClient implements IGitHubClient {
       updatedAt: new Date(comment.updated_at),
       position: comment.position,
       path: comment.path,
-      isResolved: false, // Will be determined by data processor
+      isResolved: false, // Set from review thread state, or by the data processor in heuristic mode
       reactions: reactions,
       replies: [] // Will be populated by data processor
     };
@@ -339,9 +798,177 @@ export class GitHubClient implements IGitHubClient {
       convertedComment.inReplyToId = comment.in_reply_to_id;
     }
 
+    if (typeof comment.pull_request_review_id === 'number') {
+      convertedComment.reviewId = comment.pull_request_review_id;
+    }
+
+    // Outdated comments have no current line; the original line refers to `original_commit_id`
+    const line = comment.original_line ?? comment.line;
+    if (typeof line === 'number') {
+      convertedComment.line = line;
+    }
+    if (comment.original_commit_id) {
+      convertedComment.commitId = comment.original_commit_id;
+    }
+    if (comment.diff_hunk && comment.side !== 'LEFT') {
+      const commentedLines = this.extractCommentedLines(comment.diff_hunk, comment.original_start_line ?? comment.start_line, line);
+      if (commentedLines) {
+        convertedComment.commentedLines = commentedLines;
+      }
+    }
+
     return convertedComment;
   }
 
+  /**
+   * Convert GitHub API review to our format
+   */
+  private convertReview(review: any): Review {
+    const convertedReview: Review = {
+      id: review.id,
+      body: review.body || '',
+      author: this.convertUser(review.user),
+      state: this.mapReviewState(review.state),
+      commentIds: [] // Linked to inline comments by the data collector
+    };
+
+    if (review.submitted_at) {
+      convertedReview.submittedAt = new Date(review.submitted_at);
+    }
+    if (review.commit_id) {
+      convertedReview.commitId = review.commit_id;
+    }
+
+    return convertedReview;
+  }
+
+  /**
+   * Convert a GitHub API pull request file to our format, keeping only the added lines of its patch
+   */
+  private convertPullRequestFile(file: any): PullRequestFile {
+    const convertedFile: PullRequestFile = {
+      filename: file.filename,
+      status: file.status
+    };
+
+    if (file.previous_filename) {
+      convertedFile.previousFilename = file.previous_filename;
+    }
+    if (typeof file.patch === 'string') {
+      convertedFile.addedLines = file.patch.split('\n')
+        .filter((line: string) => line.startsWith('+'))
+        .map((line: string) => line.slice(1));
+    }
+
+    return convertedFile;
+  }
+
+  /**
+   * Convert GitHub API pull request commit to our format
+   */
+  private convertCommit(commit: any): Commit {
+    const convertedCommit: Commit = {
+      sha: commit.sha,
+      message: commit.commit.message,
+      committedAt: new Date(commit.commit.committer?.date || commit.commit.author?.date)
+    };
+
+    if (commit.author) {
+      convertedCommit.author = this.convertUser(commit.author);
+    }
+
+    return convertedCommit;
+  }
+
+  /**
+   * Convert a file of a GitHub API commit to our format, keeping only the hunk ranges of its patch
+   */
+  private convertCommitFile(file: any): CommitFile {
+    const convertedFile: CommitFile = {
+      filename: file.filename,
+      status: file.status
+    };
+
+    if (file.previous_filename) {
+      convertedFile.previousFilename = file.previous_filename;
+    }
+    if (typeof file.patch === 'string') {
+      convertedFile.hunks = GitHubClient.parseHunks(file.patch);
+    }
+
+    return convertedFile;
+  }
+
+  /**
+   * Parse the hunk headers of a unified diff patch
+   */
+  static parseHunks(patch: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    const header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm;
+
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(patch)) !== null) {
+      hunks.push({
+        oldStart: Number(match[1]),
+        oldLines: match[2] !== undefined ? Number(match[2]) : 1,
+        newStart: Number(match[3]),
+        newLines: match[4] !== undefined ? Number(match[4]) : 1
+      });
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Map a GitHub review state (REST or GraphQL, any case) to our review states
+   */
+  protected mapReviewState(state: string): ReviewState {
+    const normalized = String(state || '').toLowerCase();
+    return ['approved', 'changes_requested', 'commented', 'dismissed', 'pending'].includes(normalized)
+      ? normalized as ReviewState
+      : 'commented';
+  }
+
+  /**
+   * Record a dismissal on a review, restoring the state it was submitted with
+   */
+  protected applyDismissal(review: Review, previousState: ReviewState, dismissedBy: User | undefined, dismissedAt: string | undefined): void {
+    review.state = previousState;
+    review.dismissed = true;
+    if (dismissedBy) {
+      review.dismissedBy = dismissedBy;
+    }
+    if (dismissedAt) {
+      review.dismissedAt = new Date(dismissedAt);
+    }
+  }
+
+  /**
+   * Get the code lines an inline comment covers from its diff hunk, which ends at the commented line
+   * Multi-line comments cover `startLine` to `line`; single-line comments only the last line
+   */
+  protected extractCommentedLines(diffHunk: string, startLine: number | null | undefined, line: number | null | undefined): string[] | undefined {
+    const lines = diffHunk.split(/\r?\n/)
+      .filter(hunkLine => !hunkLine.startsWith('@@') && !hunkLine.startsWith('-') && !hunkLine.startsWith('\\'))
+      .map(hunkLine => hunkLine.slice(1));
+    const count = typeof startLine === 'number' && typeof line === 'number' && line >= startLine ? line - startLine + 1 : 1;
+
+    return lines.length >= count ? lines.slice(lines.length - count) : undefined;
+  }
+
+  /**
+   * Copy review thread state onto a converted comment
+   */
+  protected applyThreadState(comment: Comment, state: ReviewThreadState): void {
+    comment.threadId = state.threadId;
+    comment.isResolved = state.isResolved;
+    comment.isOutdated = state.isOutdated;
+
+    if (state.isResolved && state.resolvedBy) {
+      comment.resolvedBy = state.resolvedBy;
+    }
+  }
+
   /**
    * Convert GitHub API user to our format
    */
@@ -365,7 +992,7 @@ export class GitHubClient implements IGitHubClient {
         ? `/repos/${repo.owner}/${repo.repo}/pulls/comments/${commentId}/reactions`
         : `/repos/${repo.owner}/${repo.repo}/issues/comments/${commentId}/reactions`;
       
-      const response = await this.client.get(endpoint, {
+      const response = await this.get(endpoint, {
         headers: {
           'Accept': 'application/vnd.github+json',
           'X-GitHub-Api-Version': '2022-11-28'
@@ -387,7 +1014,7 @@ export class GitHubClient implements IGitHubClient {
   /**
    * Map GitHub reaction content to our reaction types
    */
-  private mapReactionType(content: string): Reaction['type'] {
+  protected mapReactionType(content: string): Reaction['type'] {
     const mapping: Record<string, Reaction['type']> = {
       '+1': 'thumbs_up',
       '-1': 'thumbs_down',
@@ -416,11 +1043,25 @@ export class GitHubClient implements IGitHubClient {
     }
   }
 
+  /**
+   * Check if an error response is a secondary (abuse) rate limit rather than the primary quota
+   */
+  private isSecondaryRateLimit(response: AxiosResponse | undefined): boolean {
+    if (!response || response.headers['x-ratelimit-remaining'] === '0') {
+      return false;
+    }
+
+    return response.status === 429 ||
+      (response.status === 403 && (response.headers['retry-after'] !== undefined ||
+        /secondary rate limit/i.test(response.data?.message || '')));
+  }
+
   /**
    * Check rate limit and wait if necessary
+   * Keeps at least one request per concurrency slot in reserve, since requests already in flight also count
    */
   private async checkRateLimit(): Promise<void> {
-    if (this.rateLimitInfo && this.rateLimitInfo.remaining < 10) {
+    if (this.rateLimitInfo && this.rateLimitInfo.remaining < Math.max(10, this.limiter.limit)) {
       const waitTime = this.rateLimitInfo.resetTime.getTime() - Date.now() + 1000;
       if (waitTime > 0 && waitTime < 3600000) { // Don't wait more than 1 hour
         
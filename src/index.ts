@@ -8,21 +8,82 @@ export * from './types';
 // Export main components (specific exports to avoid conflicts)
 export { ConfigurationManager, DEFAULT_CONFIG } from './config';
 export { GitHubClient } from './github';
+export { GraphQLGitHubClient, createGitHubClient } from './github-graphql';
 export { DataCollector, createDataCollector } from './collectors';
+export {
+  MetricsComparator,
+  createMetricsComparator,
+  loadComparisonSide,
+  loadMetricsReport,
+  formatComparisonJSON,
+  formatComparisonMarkdown,
+  type ComparisonSide,
+  type MetricDelta,
+  type MetricsComparison
+} from './compare';
+export {
+  evaluateQualityGates,
+  parseQualityGateThresholds,
+  formatQualityGatesMarkdown,
+  type QualityGateThresholds,
+  type QualityGateResult
+} from './quality-gates';
+export {
+  StickyCommentPublisher,
+  createStickyCommentPublisher,
+  parseCommentTarget,
+  stickyMarker,
+  type PublishOptions,
+  type PublishResult
+} from './publish';
+export {
+  buildNotification,
+  postWebhook,
+  sendNotification,
+  NOTIFICATION_FORMATS,
+  type NotificationFormat
+} from './notify';
 export { 
   ReportGenerator, 
   BaseReportFormatter,
   JSONReportFormatter,
   MarkdownReportFormatter,
+  HTMLReportFormatter,
+  DelimitedReportFormatter,
+  ChatReportFormatter,
+  SlackReportFormatter,
+  TeamsReportFormatter,
+  MARKDOWN_TEMPLATE_SCHEMA,
   createReportGenerator, 
   createMetricsReport,
   detectOutputFormat,
   getFileExtension,
   isFormatSupported,
+  getPullRequestRowsPath,
+  OUTPUT_FORMATS,
   type OutputFormat,
   type ReportConfig,
   type ReportTemplateData
 } from './reporters';
+export {
+  TemplateEngine,
+  createTemplateEngine,
+  REPORT_TEMPLATE_SCHEMA,
+  type TemplateSchema,
+  type TemplateFormatter,
+  type TemplateEngineOptions,
+  type TemplateValidationResult
+} from './templates';
+export {
+  RulePackClassifier,
+  createCommentClassifier,
+  loadRulePack,
+  validateRulePack,
+  describeClassification,
+  DEFAULT_RULE_PACK,
+  type ClassificationRule,
+  type RulePack
+} from './classifier';
 
 // Version information
 export const VERSION = '1.0.0';
\ No newline at end of file
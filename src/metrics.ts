@@ -3,20 +3,54 @@
  * Implements Requirements 2.1, 2.2, 2.3, 2.7, 5.3
  */
 
-import { IMetricsCalculator } from './types/interfaces';
-import { PullRequest, Comment, MetricsSummary, DetailedMetrics, Reaction, PRDetails } from './types/core';
+import { CommentClassifier, IMetricsCalculator } from './types/interfaces';
+import { PullRequest, Comment, CommentDetails, MetricsSummary, DetailedMetrics, Reaction, PRDetails, ReviewerMetrics, ReviewSummary, AcceptanceSummary, SuggestionSummary, LatencyStats, LatencySummary, DateRange, TrendBucket, TrendPoint, FileBreakdown, PathStats, AuthorEngagement, MetricsReport } from './types/core';
+import { AIReviewerUtils, DEFAULT_WEB_BASE_URL } from './config';
+import { ReplyDetector } from './processors';
+import { RulePackClassifier } from './classifier';
 
 /**
  * Comment classification types
  */
 export type CommentType = 'suggestion' | 'issue' | 'question' | 'praise' | 'unknown';
 
+/**
+ * Maximum length of comment excerpts in per-PR details
+ */
+const COMMENT_EXCERPT_LENGTH = 280;
+
+/**
+ * Replacement for PR titles and comment text in anonymized reports
+ */
+const HIDDEN_TEXT = '(hidden)';
+
+/**
+ * Languages by file extension, for the file breakdown
+ */
+const LANGUAGES: Record<string, string> = {
+  '.ts': 'TypeScript', '.tsx': 'TypeScript', '.mts': 'TypeScript', '.cts': 'TypeScript',
+  '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+  '.py': 'Python', '.go': 'Go', '.rb': 'Ruby', '.java': 'Java', '.kt': 'Kotlin', '.kts': 'Kotlin',
+  '.rs': 'Rust', '.cs': 'C#', '.c': 'C', '.h': 'C/C++ Header', '.cpp': 'C++', '.cc': 'C++', '.hpp': 'C++',
+  '.php': 'PHP', '.swift': 'Swift', '.scala': 'Scala', '.sh': 'Shell', '.sql': 'SQL', '.tf': 'Terraform',
+  '.html': 'HTML', '.css': 'CSS', '.scss': 'SCSS', '.vue': 'Vue', '.svelte': 'Svelte',
+  '.md': 'Markdown', '.mdx': 'Markdown', '.json': 'JSON', '.yml': 'YAML', '.yaml': 'YAML', '.toml': 'TOML', '.xml': 'XML'
+};
+
+/**
+ * Check if a string is a supported trend bucket
+ */
+export function isTrendBucket(bucket: string): bucket is TrendBucket {
+  return ['week', 'month'].includes(bucket);
+}
+
 /**
  * Comment analytics utilities
  */
 export class CommentAnalytics {
   /**
    * Simple comment classification based on keywords
+   * Reports classify comments with a CommentClassifier (see classifier.ts) instead
    */
   static classifyComment(comment: Comment): CommentType {
     const body = comment.body.toLowerCase();
@@ -105,12 +139,29 @@ export class CommentAnalytics {
   }
 }
 
+/**
+ * Metrics calculator options
+ */
+export interface MetricsCalculatorOptions {
+  /** Web base URL used for PR links (defaults to https://github.com) */
+  webBaseUrl?: string;
+  /** Classifier for comment categories (defaults to the built-in rule pack) */
+  classifier?: CommentClassifier;
+}
+
 /**
  * Core metrics calculator implementation
  * Handles counting, statistical calculations, and edge cases
  */
 export class MetricsCalculator implements IMetricsCalculator {
-  
+  private webBaseUrl: string;
+  private classifier: CommentClassifier;
+
+  constructor(options: MetricsCalculatorOptions = {}) {
+    this.webBaseUrl = (options.webBaseUrl || DEFAULT_WEB_BASE_URL).replace(/\/+$/, '');
+    this.classifier = options.classifier || new RulePackClassifier();
+  }
+
   /**
    * Calculate summary metrics from PR and comment data
    * Implements Requirements 2.1, 2.2, 2.3, 2.7
@@ -139,7 +190,7 @@ export class MetricsCalculator implements IMetricsCalculator {
     // Count resolved comments (Requirement 2.7)
     const resolvedComments = this.countResolvedComments(comments);
 
-    return {
+    const summary: MetricsSummary = {
       totalPRs,
       totalComments,
       averageCommentsPerPR,
@@ -148,13 +199,155 @@ export class MetricsCalculator implements IMetricsCalculator {
       repliedComments,
       resolvedComments
     };
+
+    // Review outcomes, for data collected with reviews
+    if (prs.some(pr => pr.reviews !== undefined)) {
+      summary.reviews = this.calculateReviewSummary(prs);
+    }
+
+    // Time to human follow-up
+    if (comments && comments.length > 0) {
+      summary.latency = this.calculateLatency(prs, comments);
+    }
+
+    // Suggestion acceptance, for comments checked against the PR's commits
+    if (comments.some(comment => comment.actedOn !== undefined)) {
+      summary.acceptance = this.calculateAcceptanceSummary(comments);
+    }
+
+    // Applied suggested changes, for comments checked against the PR's final diff
+    if (comments.some(comment => comment.appliedSuggestions !== undefined)) {
+      summary.suggestions = this.calculateSuggestionSummary(comments);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Measure how long AI comments wait for a human reply, thread resolution and PR merge
+   * Resolution only counts threads an incremental collection saw change from open to resolved,
+   * using `resolvedObservedAt`; GitHub does not expose when other threads were resolved
+   */
+  calculateLatency(prs: PullRequest[], comments: Comment[]): LatencySummary {
+    const mergedAt = new Map<string, Date>();
+    for (const pr of prs) {
+      if (!pr.mergedAt) {
+        continue;
+      }
+      for (const comment of pr.comments || []) {
+        mergedAt.set(`${pr.repository || ''}#${comment.id}`, pr.mergedAt);
+      }
+    }
+
+    const replyTimes: number[] = [];
+    const resolutionTimes: number[] = [];
+    const mergeTimes: number[] = [];
+
+    for (const comment of comments) {
+      const created = comment.createdAt.getTime();
+
+      const replyTime = ReplyDetector.getFastestReplyTime(comment);
+      if (replyTime !== null && replyTime >= 0) {
+        replyTimes.push(replyTime);
+      }
+
+      if (comment.isResolved && comment.resolvedObservedAt && comment.resolvedObservedAt.getTime() >= created) {
+        resolutionTimes.push(comment.resolvedObservedAt.getTime() - created);
+      }
+
+      const merged = mergedAt.get(`${comment.repository || ''}#${comment.id}`);
+      if (merged && merged.getTime() >= created) {
+        mergeTimes.push(merged.getTime() - created);
+      }
+    }
+
+    return {
+      firstHumanReply: this.calculateLatencyStats(replyTimes),
+      resolution: this.calculateLatencyStats(resolutionTimes),
+      merge: this.calculateLatencyStats(mergeTimes)
+    };
+  }
+
+  /**
+   * Summarize durations by their median, 75th and 90th percentiles
+   */
+  calculateLatencyStats(durations: number[]): LatencyStats {
+    const sorted = [...durations].sort((a, b) => a - b);
+
+    return {
+      count: sorted.length,
+      median: this.calculatePercentile(sorted, 50),
+      p75: this.calculatePercentile(sorted, 75),
+      p90: this.calculatePercentile(sorted, 90)
+    };
+  }
+
+  /**
+   * Percentile of sorted values, interpolating linearly between the closest ranks
+   */
+  calculatePercentile(sortedValues: number[], percentile: number): number | null {
+    if (sortedValues.length === 0) {
+      return null;
+    }
+
+    const rank = (percentile / 100) * (sortedValues.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+  }
+
+  /**
+   * Count inline comments acted on by a later commit
+   * Only comments checked against commits by the data processor are counted
+   */
+  calculateAcceptanceSummary(comments: Comment[]): AcceptanceSummary {
+    const inlineComments = comments.filter(comment => comment.actedOn !== undefined);
+    const actedOn = inlineComments.filter(comment => comment.actedOn).length;
+
+    return {
+      inlineComments: inlineComments.length,
+      actedOn,
+      acceptanceRate: this.calculatePercentages(actedOn, inlineComments.length)
+    };
+  }
+
+  /**
+   * Count suggested change blocks and how many were applied
+   * Only comments checked against the PR's final diff by the data processor are counted
+   */
+  calculateSuggestionSummary(comments: Comment[]): SuggestionSummary {
+    const checked = comments.filter(comment => comment.appliedSuggestions !== undefined);
+    const suggestions = checked.reduce((total, comment) => total + (comment.suggestions || 0), 0);
+    const applied = checked.reduce((total, comment) => total + (comment.appliedSuggestions || 0), 0);
+
+    return {
+      suggestions,
+      applied,
+      appliedRate: this.calculatePercentages(applied, suggestions)
+    };
+  }
+
+  /**
+   * Count review outcomes: approvals, change requests, plain comments and dismissals
+   */
+  calculateReviewSummary(prs: PullRequest[]): ReviewSummary {
+    const reviews = prs.flatMap(pr => pr.reviews || []).filter(review => review.state !== 'pending');
+
+    return {
+      totalReviews: reviews.length,
+      approved: reviews.filter(review => review.state === 'approved').length,
+      changesRequested: reviews.filter(review => review.state === 'changes_requested').length,
+      commented: reviews.filter(review => review.state === 'commented').length,
+      dismissed: reviews.filter(review => review.dismissed || review.state === 'dismissed').length,
+      withSummary: reviews.filter(review => review.body.trim().length > 0).length
+    };
   }
 
   /**
    * Calculate detailed metrics breakdown
    */
   calculateDetailed(prs: PullRequest[], comments: Comment[], repository?: string): DetailedMetrics {
-    return {
+    const detailed: DetailedMetrics = {
       prBreakdown: {
         byState: this.calculatePRsByState(prs),
         byAuthor: this.calculatePRsByAuthor(prs)
@@ -169,6 +362,221 @@ export class MetricsCalculator implements IMetricsCalculator {
       },
       prDetails: this.calculatePRDetails(prs, comments, repository || 'owner/repo')
     };
+
+    // Per-repository breakdown for datasets spanning several repositories
+    const repositories = new Set(prs.map(pr => pr.repository).filter(name => name !== undefined));
+    if (repositories.size > 1) {
+      detailed.repositoryBreakdown = this.calculateRepositoryBreakdown(prs, comments);
+    }
+
+    if (comments.some(comment => comment.path)) {
+      detailed.fileBreakdown = this.calculateFileBreakdown(comments, repositories.size > 1);
+    }
+    if (prs.length > 0) {
+      detailed.authorBreakdown = this.calculateAuthorBreakdown(prs, comments);
+    }
+
+    return detailed;
+  }
+
+  /**
+   * Calculate metrics for each reviewer when several reviewers are compared
+   * Comments are bucketed by author; every reviewer is measured against the same PRs
+   */
+  calculateReviewerBreakdown(prs: PullRequest[], comments: Comment[], reviewers: string[], repository?: string): ReviewerMetrics[] {
+    return reviewers.map(reviewer => {
+      const reviewerComments = comments.filter(comment =>
+        AIReviewerUtils.isAIReviewer(comment.author.login, reviewer)
+      );
+      const reviewerPRs = prs.map(pr => pr.reviews
+        ? { ...pr, reviews: pr.reviews.filter(review => AIReviewerUtils.isAIReviewer(review.author.login, reviewer)) }
+        : pr
+      );
+
+      return {
+        reviewer,
+        summary: this.calculateSummary(reviewerPRs, reviewerComments),
+        detailed: this.calculateDetailed(reviewerPRs, reviewerComments, repository)
+      };
+    });
+  }
+
+  /**
+   * Calculate summary metrics for each week or month of a period
+   * PRs are bucketed by creation date and comments follow their PR, like the period filter
+   */
+  calculateTrend(prs: PullRequest[], comments: Comment[], period: DateRange, bucket: TrendBucket): TrendPoint[] {
+    return this.splitPeriod(period, bucket).map(range => {
+      const bucketPRs = prs.filter(pr => pr.createdAt >= range.start && pr.createdAt <= range.end);
+      const commentKeys = new Set(bucketPRs.flatMap(pr =>
+        (pr.comments || []).map(comment => `${pr.repository || ''}#${comment.id}`)
+      ));
+      const bucketComments = comments.filter(comment => commentKeys.has(`${comment.repository || ''}#${comment.id}`));
+
+      return {
+        period: range,
+        summary: this.calculateSummary(bucketPRs, bucketComments)
+      };
+    });
+  }
+
+  /**
+   * Split a period into calendar weeks (starting Monday) or months in UTC
+   * The first and last buckets are clipped to the period
+   */
+  splitPeriod(period: DateRange, bucket: TrendBucket): DateRange[] {
+    const ranges: DateRange[] = [];
+    const start = new Date(period.start);
+
+    let boundary = bucket === 'week'
+      ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() - (start.getUTCDay() + 6) % 7))
+      : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1));
+
+    while (boundary <= period.end) {
+      const next = bucket === 'week'
+        ? new Date(Date.UTC(boundary.getUTCFullYear(), boundary.getUTCMonth(), boundary.getUTCDate() + 7))
+        : new Date(Date.UTC(boundary.getUTCFullYear(), boundary.getUTCMonth() + 1, 1));
+
+      ranges.push({
+        start: boundary < period.start ? new Date(period.start) : boundary,
+        end: next.getTime() - 1 > period.end.getTime() ? new Date(period.end) : new Date(next.getTime() - 1)
+      });
+      boundary = next;
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Calculate summary metrics for each repository in a multi-repository dataset
+   */
+  private calculateRepositoryBreakdown(prs: PullRequest[], comments: Comment[]): Record<string, MetricsSummary> {
+    const breakdown: Record<string, MetricsSummary> = {};
+    const repositories = Array.from(new Set(prs.map(pr => pr.repository || 'unknown'))).sort();
+
+    for (const repository of repositories) {
+      const repoPRs = prs.filter(pr => (pr.repository || 'unknown') === repository);
+      const repoComments = comments.filter(comment => (comment.repository || 'unknown') === repository);
+      breakdown[repository] = this.calculateSummary(repoPRs, repoComments);
+    }
+
+    return breakdown;
+  }
+
+  /**
+   * Aggregate inline comments by file, by every directory prefix and by file extension
+   * Files and directories are kept per repository in multi-repository datasets
+   */
+  calculateFileBreakdown(comments: Comment[], multiRepository: boolean = false): FileBreakdown {
+    const files = new Map<string, PathStats>();
+    const directories = new Map<string, PathStats>();
+    const extensions = new Map<string, PathStats>();
+
+    const add = (groups: Map<string, PathStats>, path: string, comment: Comment, extra: Partial<PathStats> = {}) => {
+      const key = `${extra.repository || ''}:${path}`;
+      let stats = groups.get(key);
+      if (!stats) {
+        stats = { path, ...extra, comments: 0, resolved: 0, resolutionRate: 0, replied: 0, negativeReactions: 0 };
+        groups.set(key, stats);
+      }
+
+      stats.comments++;
+      if (comment.isResolved) {
+        stats.resolved++;
+      }
+      if (comment.replies && comment.replies.length > 0) {
+        stats.replied++;
+      }
+      stats.negativeReactions += (comment.reactions || []).filter(reaction => this.isNegativeReaction(reaction.type)).length;
+    };
+
+    for (const comment of comments) {
+      if (!comment.path) {
+        continue;
+      }
+
+      const repository = multiRepository && comment.repository ? { repository: comment.repository } : {};
+      add(files, comment.path, comment, repository);
+
+      const segments = comment.path.split('/');
+      for (let depth = 1; depth < segments.length; depth++) {
+        add(directories, `${segments.slice(0, depth).join('/')}/`, comment, repository);
+      }
+
+      const fileName = segments[segments.length - 1];
+      const dot = fileName.lastIndexOf('.');
+      const extension = dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+      add(extensions, extension || '(none)', comment, { language: LANGUAGES[extension] || 'Other' });
+    }
+
+    const finish = (groups: Map<string, PathStats>) => Array.from(groups.values())
+      .map(stats => ({ ...stats, resolutionRate: this.calculatePercentages(stats.resolved, stats.comments) }))
+      .sort((a, b) => b.comments - a.comments || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+    return {
+      byFile: finish(files),
+      byDirectory: finish(directories),
+      byExtension: finish(extensions)
+    };
+  }
+
+  /**
+   * Measure how each PR author engaged with the AI comments on their pull requests
+   * Only the author's own replies, reactions and resolutions count; threads resolved by
+   * someone else are excluded when the resolver is known
+   */
+  calculateAuthorBreakdown(prs: PullRequest[], comments: Comment[]): AuthorEngagement[] {
+    const authorOf = new Map<string, string>();
+    const pullRequests = new Map<string, number>();
+    for (const pr of prs) {
+      pullRequests.set(pr.author.login, (pullRequests.get(pr.author.login) || 0) + 1);
+      for (const comment of pr.comments || []) {
+        authorOf.set(`${pr.repository || ''}#${comment.id}`, pr.author.login);
+      }
+    }
+
+    const engagement = new Map<string, { replied: number; reacted: number; resolved: number; engaged: number; comments: number; responseTimes: number[] }>();
+    for (const author of pullRequests.keys()) {
+      engagement.set(author, { replied: 0, reacted: 0, resolved: 0, engaged: 0, comments: 0, responseTimes: [] });
+    }
+
+    for (const comment of comments) {
+      const author = authorOf.get(`${comment.repository || ''}#${comment.id}`);
+      const stats = author !== undefined ? engagement.get(author) : undefined;
+      if (!author || !stats) {
+        continue;
+      }
+
+      const replies = (comment.replies || []).filter(reply => reply.author.login === author);
+      const reactions = (comment.reactions || []).filter(reaction => !reaction.synthetic && reaction.user.login === author);
+      const resolved = comment.isResolved && (!comment.resolvedBy || comment.resolvedBy.login === author);
+
+      stats.comments++;
+      stats.replied += replies.length > 0 ? 1 : 0;
+      stats.reacted += reactions.length > 0 ? 1 : 0;
+      stats.resolved += resolved ? 1 : 0;
+      stats.engaged += replies.length > 0 || reactions.length > 0 || resolved ? 1 : 0;
+
+      const responses = [...replies.map(reply => reply.createdAt), ...reactions.map(reaction => reaction.createdAt)]
+        .map(date => date.getTime() - comment.createdAt.getTime())
+        .filter(duration => duration >= 0);
+      if (responses.length > 0) {
+        stats.responseTimes.push(Math.min(...responses));
+      }
+    }
+
+    return Array.from(engagement.entries())
+      .map(([author, stats]) => ({
+        author,
+        pullRequests: pullRequests.get(author) || 0,
+        comments: stats.comments,
+        replied: stats.replied,
+        reacted: stats.reacted,
+        resolved: stats.resolved,
+        engagementRate: this.calculatePercentages(stats.engaged, stats.comments),
+        medianResponseTime: this.calculatePercentile([...stats.responseTimes].sort((a, b) => a - b), 50)
+      }))
+      .sort((a, b) => b.comments - a.comments || (a.author < b.author ? -1 : a.author > b.author ? 1 : 0));
   }
 
   /**
@@ -363,29 +771,17 @@ export class MetricsCalculator implements IMetricsCalculator {
     return breakdown;
   }
 
+  /**
+   * Count comments per classifier category, most common first
+   */
   private calculateCommentsByType(comments: Comment[]): Record<string, number> {
-    const breakdown: Record<string, number> = {
-      'with_reactions': 0,
-      'with_replies': 0,
-      'resolved': 0,
-      'unresolved': 0
-    };
-    
+    const counts = new Map<string, number>();
     for (const comment of comments) {
-      if (comment.reactions && comment.reactions.length > 0) {
-        breakdown['with_reactions']++;
-      }
-      if (comment.replies && comment.replies.length > 0) {
-        breakdown['with_replies']++;
-      }
-      if (comment.isResolved) {
-        breakdown['resolved']++;
-      } else {
-        breakdown['unresolved']++;
-      }
+      const { category } = this.classifier.classify(comment);
+      counts.set(category, (counts.get(category) || 0) + 1);
     }
-    
-    return breakdown;
+
+    return Object.fromEntries([...counts].sort(([a, countA], [b, countB]) => countB - countA || (a < b ? -1 : a > b ? 1 : 0)));
   }
 
   private calculateCommentsByResolution(comments: Comment[]): Record<string, number> {
@@ -456,9 +852,10 @@ export class MetricsCalculator implements IMetricsCalculator {
       }
       
       // Generate GitHub URL for the PR
-      const url = `https://github.com/${repository}/pull/${pr.number}`;
+      const prRepository = pr.repository || repository;
+      const url = `${this.webBaseUrl}/${prRepository}/pull/${pr.number}`;
       
-      return {
+      const details: PRDetails = {
         number: pr.number,
         title: pr.title,
         url: url,
@@ -468,15 +865,122 @@ export class MetricsCalculator implements IMetricsCalculator {
         positiveReactions: positiveReactions,
         negativeReactions: negativeReactions
       };
+
+      if (pr.repository) {
+        details.repository = pr.repository;
+      }
+      if (prComments.length > 0) {
+        details.comments = prComments.map(comment => this.calculateCommentDetails(comment, url));
+      }
+
+      // Suggested changes, for PRs whose final diff was checked
+      const checkedSuggestions = prComments.filter(comment => comment.appliedSuggestions !== undefined);
+      if (checkedSuggestions.length > 0) {
+        details.suggestions = checkedSuggestions.reduce((total, comment) => total + (comment.suggestions || 0), 0);
+        details.appliedSuggestions = checkedSuggestions.reduce((total, comment) => total + (comment.appliedSuggestions || 0), 0);
+      }
+
+      return details;
     });
   }
+
+  /**
+   * Describe an AI comment for drill-down, with a link to it on the PR page
+   * Inline review comments are anchored as discussion_r<id>, conversation comments as issuecomment-<id>
+   */
+  private calculateCommentDetails(comment: Comment, prUrl: string): CommentDetails {
+    const anchor = comment.path !== undefined ? `discussion_r${comment.id}` : `issuecomment-${comment.id}`;
+    const reactions = comment.reactions || [];
+    const excerpt = comment.body
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const details: CommentDetails = {
+      id: comment.id,
+      url: `${prUrl}#${anchor}`,
+      author: comment.author.login,
+      createdAt: comment.createdAt,
+      type: this.classifier.classify(comment).category,
+      body: comment.body,
+      excerpt: excerpt.length > COMMENT_EXCERPT_LENGTH ? `${excerpt.slice(0, COMMENT_EXCERPT_LENGTH - 1)}…` : excerpt,
+      isResolved: comment.isResolved,
+      replies: (comment.replies || []).length,
+      positiveReactions: reactions.filter(reaction => this.isPositiveReaction(reaction.type)).length,
+      negativeReactions: reactions.filter(reaction => this.isNegativeReaction(reaction.type)).length
+    };
+
+    if (comment.path !== undefined) {
+      details.path = comment.path;
+    }
+    if (comment.line !== undefined) {
+      details.line = comment.line;
+    }
+
+    // Same samples as the latency summary
+    const replyTime = ReplyDetector.getFastestReplyTime(comment);
+    if (replyTime !== null && replyTime >= 0) {
+      details.timeToFirstReply = replyTime;
+    }
+    if (comment.isResolved && comment.resolvedObservedAt && comment.resolvedObservedAt >= comment.createdAt) {
+      details.timeToResolution = comment.resolvedObservedAt.getTime() - comment.createdAt.getTime();
+    }
+
+    return details;
+  }
+}
+
+/**
+ * Replace PR author logins with "Author 1", "Author 2", ... in the order of the author breakdown
+ * (most commented first), so reports can be shared without naming people
+ * The same author gets the same label in every reviewer's breakdown of the report. PR titles and
+ * comment bodies and excerpts, which often name or @-mention the author, are hidden; PR numbers
+ * and links are kept
+ */
+export function anonymizeAuthors(report: MetricsReport): MetricsReport {
+  const labels = new Map<string, string>();
+  const label = (author: string) => {
+    if (!labels.has(author)) {
+      labels.set(author, `Author ${labels.size + 1}`);
+    }
+    return labels.get(author)!;
+  };
+
+  const anonymize = (detailed: DetailedMetrics): DetailedMetrics => {
+    const authorBreakdown = detailed.authorBreakdown?.map(entry => ({ ...entry, author: label(entry.author) }));
+    return {
+      ...detailed,
+      prBreakdown: {
+        ...detailed.prBreakdown,
+        byAuthor: Object.fromEntries(Object.entries(detailed.prBreakdown.byAuthor).map(([author, count]) => [label(author), count]))
+      },
+      prDetails: detailed.prDetails.map(pr => ({
+        ...pr,
+        title: HIDDEN_TEXT,
+        ...(pr.comments ? {
+          comments: pr.comments.map(comment => ({ ...comment, body: HIDDEN_TEXT, excerpt: HIDDEN_TEXT }))
+        } : {})
+      })),
+      ...(authorBreakdown ? { authorBreakdown } : {})
+    };
+  };
+
+  const detailed = anonymize(report.detailed);
+  return {
+    ...report,
+    detailed,
+    ...(report.reviewerBreakdown ? {
+      reviewerBreakdown: report.reviewerBreakdown.map(entry => ({ ...entry, detailed: anonymize(entry.detailed) }))
+    } : {})
+  };
 }
 
 /**
  * Factory function to create a metrics calculator
  */
-export function createMetricsCalculator(): IMetricsCalculator {
-  return new MetricsCalculator();
+export function createMetricsCalculator(options: MetricsCalculatorOptions = {}): IMetricsCalculator {
+  return new MetricsCalculator(options);
 }
 
 /**
@@ -0,0 +1,59 @@
+/**
+ * Chat notifications: posting Slack or Microsoft Teams messages to incoming webhooks
+ * Webhook URLs embed their credentials, so they are never included in errors or logs
+ */
+
+import axios from 'axios';
+import { MetricsReport } from './types/core';
+import { createReportGenerator } from './reporters';
+
+/**
+ * Message formats accepted by chat webhooks
+ */
+export type NotificationFormat = 'slack' | 'teams';
+
+export const NOTIFICATION_FORMATS: NotificationFormat[] = ['slack', 'teams'];
+
+/** Request timeout for webhook calls in milliseconds */
+export const WEBHOOK_TIMEOUT = 10000;
+
+/**
+ * Render a report as a chat message payload (JSON)
+ */
+export async function buildNotification(report: MetricsReport, format: NotificationFormat): Promise<string> {
+  return createReportGenerator().generateReport(report, { format });
+}
+
+/**
+ * Post a JSON payload to an incoming webhook
+ */
+export async function postWebhook(webhookUrl: string, payload: string, timeout: number = WEBHOOK_TIMEOUT): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    throw new Error('Invalid webhook URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Unsupported webhook URL protocol ${url.protocol}`);
+  }
+
+  try {
+    await axios.post(url.toString(), payload, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout
+    });
+  } catch (error: any) {
+    if (error.response) {
+      throw new Error(`Webhook request failed: HTTP ${error.response.status}`);
+    }
+    throw new Error(`Webhook request failed: ${error.code || 'no response'}`);
+  }
+}
+
+/**
+ * Render a report and post it to a chat webhook
+ */
+export async function sendNotification(report: MetricsReport, format: NotificationFormat, webhookUrl: string): Promise<void> {
+  await postWebhook(webhookUrl, await buildNotification(report, format));
+}
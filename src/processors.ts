@@ -4,13 +4,27 @@
  */
 
 import { IDataProcessor } from './types/interfaces';
-import { PullRequest, Comment, DateRange, Reaction, User } from './types/core';
+import { PullRequest, PullRequestFile, Comment, Commit, CommitFile, DateRange, Reaction, User } from './types/core';
+import { ResolutionMode } from './config';
+
+/**
+ * Data processor options
+ */
+export interface DataProcessorOptions {
+  /** How comment resolution is determined (defaults to 'threads') */
+  resolutionMode?: ResolutionMode;
+}
 
 /**
  * Data processor implementation for reaction classification and reply detection
  * Handles positive/negative reaction categorization and human response detection
  */
 export class DataProcessor implements IDataProcessor {
+  private resolutionMode: ResolutionMode;
+
+  constructor(options: DataProcessorOptions = {}) {
+    this.resolutionMode = options.resolutionMode || 'threads';
+  }
 
   /**
    * Filter pull requests by time range
@@ -42,13 +56,21 @@ export class DataProcessor implements IDataProcessor {
 
   /**
    * Detect comment resolution status
-   * Enhanced resolution detection logic
+   * In 'threads' mode the review thread state collected from GitHub is kept as-is;
+   * in 'heuristic' mode resolution is inferred from the comment content
    */
   detectResolution(comments: Comment[]): Comment[] {
     if (!comments || comments.length === 0) {
       return [];
     }
 
+    if (this.resolutionMode === 'threads') {
+      return comments.map(comment => ({
+        ...comment,
+        isResolved: comment.threadId !== undefined && comment.isResolved
+      }));
+    }
+
     return comments.map(comment => ({
       ...comment,
       isResolved: this.isCommentResolved(comment)
@@ -124,6 +146,80 @@ export class DataProcessor implements IDataProcessor {
     }));
   }
 
+  /**
+   * Detect inline comments that were acted on by a later commit of their pull request
+   * Comments on PRs without collected commits, general PR comments and replies are left unchanged
+   */
+  detectAcceptance(comments: Comment[], prs: PullRequest[]): Comment[] {
+    if (!comments || comments.length === 0) {
+      return [];
+    }
+
+    const prsByComment = this.indexPullRequestsByComment(prs);
+
+    return comments.map(comment => {
+      const commits = prsByComment.get(this.commentKey(comment))?.commits;
+      if (!commits || !AcceptanceDetector.isEligible(comment)) {
+        return comment;
+      }
+
+      const actingCommit = AcceptanceDetector.findActingCommit(comment, commits);
+      return {
+        ...comment,
+        actedOn: actingCommit !== null,
+        ...(actingCommit ? { actedOnCommit: actingCommit.sha } : {})
+      };
+    });
+  }
+
+  /**
+   * Count suggested change blocks and check which of them landed in the pull request's final diff
+   * Applied counts are only set for comments on PRs whose changed files were collected
+   */
+  detectSuggestions(comments: Comment[], prs: PullRequest[]): Comment[] {
+    if (!comments || comments.length === 0) {
+      return [];
+    }
+
+    const prsByComment = this.indexPullRequestsByComment(prs);
+
+    return comments.map(comment => {
+      const suggestions = SuggestionDetector.parseSuggestions(comment.body);
+      if (suggestions.length === 0) {
+        return comment;
+      }
+
+      const files = prsByComment.get(this.commentKey(comment))?.files;
+      if (!files || comment.path === undefined) {
+        return { ...comment, suggestions: suggestions.length };
+      }
+
+      const file = files.find(candidate => candidate.filename === comment.path || candidate.previousFilename === comment.path);
+      return {
+        ...comment,
+        suggestions: suggestions.length,
+        appliedSuggestions: suggestions.filter(lines => SuggestionDetector.isApplied(lines, file, comment)).length
+      };
+    });
+  }
+
+  /**
+   * Map comments to their pull request through the PR's comment list
+   */
+  private indexPullRequestsByComment(prs: PullRequest[]): Map<string, PullRequest> {
+    const index = new Map<string, PullRequest>();
+    for (const pr of prs || []) {
+      for (const comment of pr.comments || []) {
+        index.set(`${pr.repository || ''}#${comment.id}`, pr);
+      }
+    }
+    return index;
+  }
+
+  private commentKey(comment: Comment): string {
+    return `${comment.repository || ''}#${comment.id}`;
+  }
+
   /**
    * Enhanced resolution detection logic
    * Checks multiple indicators for comment resolution
@@ -266,113 +362,36 @@ export class DataProcessor implements IDataProcessor {
    */
   private findHumanReplies(comment: Comment, commentMap: Map<number, Comment>): Comment[] {
     const replies: Comment[] = [];
+    const seen = new Set<number>();
+
+    const addReply = (reply: Comment) => {
+      if (!seen.has(reply.id) && ReplyDetector.isHumanUser(reply.author)) {
+        seen.add(reply.id);
+        replies.push(reply);
+      }
+    };
+
+    // Replies retained by the collector (review thread replies and conversational replies)
+    for (const reply of comment.replies || []) {
+      addReply(reply);
+    }
 
     // Check direct replies using inReplyToId
     for (const [, potentialReply] of commentMap) {
       if (potentialReply.inReplyToId === comment.id) {
-        // Only include if it's from a human (not a bot)
-        if (this.isHumanUser(potentialReply.author)) {
-          replies.push(potentialReply);
-        }
+        addReply(potentialReply);
       }
     }
 
     // For comments without explicit reply relationships,
     // use heuristics to detect conversational replies
     if (replies.length === 0) {
-      replies.push(...this.findConversationalReplies(comment, commentMap));
+      ReplyDetector.findConversationalReplies(comment, Array.from(commentMap.values())).forEach(addReply);
     }
 
     // Sort replies by creation date
     return replies.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
-
-  /**
-   * Detect conversational replies using heuristics
-   * For platforms where explicit reply relationships aren't available
-   */
-  private findConversationalReplies(comment: Comment, commentMap: Map<number, Comment>): Comment[] {
-    const replies: Comment[] = [];
-    const commentTime = comment.createdAt.getTime();
-    
-    // Look for comments that might be replies based on timing and content
-    for (const [, potentialReply] of commentMap) {
-      // Skip if it's the same comment or from a bot
-      if (potentialReply.id === comment.id || !this.isHumanUser(potentialReply.author)) {
-        continue;
-      }
-
-      const replyTime = potentialReply.createdAt.getTime();
-      
-      // Check if it's a potential reply based on timing (within reasonable timeframe)
-      const timeDiff = replyTime - commentTime;
-      const maxReplyWindow = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-      
-      if (timeDiff > 0 && timeDiff <= maxReplyWindow) {
-        // Check for conversational indicators
-        if (this.hasConversationalIndicators(potentialReply, comment)) {
-          replies.push(potentialReply);
-        }
-      }
-    }
-
-    return replies;
-  }
-
-  /**
-   * Check for conversational indicators that suggest a reply relationship
-   */
-  private hasConversationalIndicators(potentialReply: Comment, originalComment: Comment): boolean {
-    const replyBody = potentialReply.body.toLowerCase();
-    const originalAuthor = originalComment.author.login.toLowerCase();
-    
-    // Check for direct mentions
-    if (replyBody.includes(`@${originalAuthor}`)) {
-      return true;
-    }
-
-    // Check for reply indicators
-    const replyIndicators = [
-      'thanks',
-      'thank you',
-      'fixed',
-      'done',
-      'updated',
-      'addressed',
-      'good point',
-      'you\'re right',
-      'agreed',
-      'disagree',
-      'actually',
-      'however'
-    ];
-
-    return replyIndicators.some(indicator => replyBody.includes(indicator));
-  }
-
-  /**
-   * Determine if a user is human (not a bot)
-   */
-  private isHumanUser(user: User): boolean {
-    // Check user type
-    if (user.type === 'Bot') {
-      return false;
-    }
-
-    // Check for common bot username patterns
-    const botPatterns = [
-      /bot$/i,
-      /\[bot\]/i,
-      /^dependabot/i,
-      /^renovate/i,
-      /^github-actions/i,
-      /^codecov/i,
-      /^sonarcloud/i,
-      /^coderabbit/i
-    ];
-
-    return !botPatterns.some(pattern => pattern.test(user.login));
-  }
 }
 
 /**
@@ -490,6 +509,88 @@ export class ReplyDetector {
     ).length;
   }
 
+  /**
+   * Detect conversational replies using heuristics
+   * For comments where explicit reply relationships aren't available (e.g. general PR comments)
+   */
+  static findConversationalReplies(comment: Comment, candidates: Comment[]): Comment[] {
+    const replies: Comment[] = [];
+    const commentTime = comment.createdAt.getTime();
+    const maxReplyWindow = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+
+    // Look for comments that might be replies based on timing and content
+    for (const potentialReply of candidates) {
+      // Skip if it's the same comment or from a bot
+      if (potentialReply.id === comment.id || !this.isHumanUser(potentialReply.author)) {
+        continue;
+      }
+
+      // Check if it's a potential reply based on timing (within reasonable timeframe)
+      const timeDiff = potentialReply.createdAt.getTime() - commentTime;
+
+      if (timeDiff > 0 && timeDiff <= maxReplyWindow && this.hasConversationalIndicators(potentialReply, comment)) {
+        replies.push(potentialReply);
+      }
+    }
+
+    return replies;
+  }
+
+  /**
+   * Determine if a user is human (not a bot)
+   */
+  static isHumanUser(user: User): boolean {
+    // Check user type
+    if (user.type === 'Bot') {
+      return false;
+    }
+
+    // Check for common bot username patterns
+    const botPatterns = [
+      /bot$/i,
+      /\[bot\]/i,
+      /^dependabot/i,
+      /^renovate/i,
+      /^github-actions/i,
+      /^codecov/i,
+      /^sonarcloud/i,
+      /^coderabbit/i
+    ];
+
+    return !botPatterns.some(pattern => pattern.test(user.login));
+  }
+
+  /**
+   * Check for conversational indicators that suggest a reply relationship
+   */
+  private static hasConversationalIndicators(potentialReply: Comment, originalComment: Comment): boolean {
+    const replyBody = potentialReply.body.toLowerCase();
+    const originalAuthor = originalComment.author.login.toLowerCase();
+    
+    // Check for direct mentions
+    if (replyBody.includes(`@${originalAuthor}`)) {
+      return true;
+    }
+
+    // Check for reply indicators
+    const replyIndicators = [
+      'thanks',
+      'thank you',
+      'fixed',
+      'done',
+      'updated',
+      'addressed',
+      'good point',
+      'you\'re right',
+      'agreed',
+      'disagree',
+      'actually',
+      'however'
+    ];
+
+    return replyIndicators.some(indicator => replyBody.includes(indicator));
+  }
+
   /**
    * Get the fastest human reply time
    * Returns time in milliseconds from original comment to first human reply
@@ -583,11 +684,121 @@ export class CodeRabbitDetector {
   }
 }
 
+/**
+ * Suggestion acceptance utilities
+ * Decides whether an inline comment was acted on from the commits pushed after it,
+ * independent of reactions or thread resolution
+ */
+export class AcceptanceDetector {
+  /**
+   * Lines around the commented line that still count as the commented code
+   * Later commits may shift line numbers, so an exact match would miss most fixes
+   */
+  static readonly LINE_TOLERANCE = 3;
+
+  /**
+   * Only top-level inline comments can be acted on by a commit
+   */
+  static isEligible(comment: Comment): boolean {
+    return comment.path !== undefined && comment.inReplyToId === undefined;
+  }
+
+  /**
+   * Find the commit that acted on an inline comment
+   * A commit named in an "Addressed in commit" message wins; otherwise the first commit
+   * after the comment that changed lines near the commented line (or the commented file,
+   * when the line or the diff is unknown)
+   */
+  static findActingCommit(comment: Comment, commits: Commit[]): Commit | null {
+    const hash = CodeRabbitDetector.extractCommitHash(comment);
+    if (hash) {
+      const addressing = commits.find(commit => commit.sha.toLowerCase().startsWith(hash.toLowerCase()));
+      if (addressing) {
+        return addressing;
+      }
+    }
+
+    const laterCommits = commits
+      .filter(commit => commit.committedAt > comment.createdAt && commit.files)
+      .sort((a, b) => a.committedAt.getTime() - b.committedAt.getTime());
+
+    return laterCommits.find(commit => commit.files!.some(file => this.touchesComment(file, comment))) || null;
+  }
+
+  /**
+   * Check if a changed file covers the commented line
+   */
+  static touchesComment(file: CommitFile, comment: Comment): boolean {
+    if (file.filename !== comment.path && file.previousFilename !== comment.path) {
+      return false;
+    }
+
+    if (comment.line === undefined || !file.hunks) {
+      return true;
+    }
+
+    const line = comment.line;
+    return file.hunks.some(hunk => {
+      // Pure additions have no old lines; they are inserted after oldStart
+      const start = hunk.oldStart;
+      const end = hunk.oldStart + Math.max(hunk.oldLines, 1) - 1;
+      return line >= start - this.LINE_TOLERANCE && line <= end + this.LINE_TOLERANCE;
+    });
+  }
+}
+
+/**
+ * Suggested change utilities
+ * Parses GitHub ```suggestion blocks and checks whether they were committed
+ */
+export class SuggestionDetector {
+  /**
+   * Extract the lines of each suggestion block in a comment body
+   * An empty block suggests deleting the commented lines
+   */
+  static parseSuggestions(body: string): string[][] {
+    const suggestions: string[][] = [];
+    // Fences may use more than three backticks so the suggestion itself can contain ```
+    const block = /^[ \t]*(`{3,})suggestion[^\n]*\n([\s\S]*?)^[ \t]*\1[ \t]*$/gm;
+
+    let match: RegExpExecArray | null;
+    while ((match = block.exec(body || '')) !== null) {
+      const content = match[2].replace(/\r?\n$/, '');
+      suggestions.push(content === '' ? [] : content.split(/\r?\n/));
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Check if a suggestion landed in the final diff of the commented file
+   * Every non-blank suggested line that differs from the commented lines must be among the lines
+   * the PR adds (ignoring indentation); lines the suggestion repeats unchanged never show up as added.
+   * Pure deletions, and files whose patch GitHub omits, fall back to whether a later commit
+   * acted on the comment.
+   */
+  static isApplied(lines: string[], file: PullRequestFile | undefined, comment: Comment): boolean {
+    const originalLines = new Set((comment.commentedLines || []).map(line => line.trim()));
+    const suggestedLines = lines
+      .map(line => line.trim())
+      .filter(line => line !== '' && !originalLines.has(line));
+    if (suggestedLines.length === 0 || (file && !file.addedLines)) {
+      return comment.actedOn === true;
+    }
+    if (!file) {
+      return false;
+    }
+
+    const addedLines = new Set(file.addedLines!.map(line => line.trim()));
+    return suggestedLines.every(line => addedLines.has(line));
+  }
+}
+
 /**
  * Factory function to create a data processor
  */
-export function createDataProcessor(): IDataProcessor {
-  return new DataProcessor();
+export function createDataProcessor(options: DataProcessorOptions = {}): IDataProcessor {
+  return new DataProcessor(options);
 }
 
 /**
@@ -601,6 +812,8 @@ export function createDataProcessor(): IDataProcessor {
  * // Process comments
  * const classifiedComments = processor.classifyReactions(comments);
  * const commentsWithReplies = processor.detectReplies(classifiedComments);
+ * const commentsWithAcceptance = processor.detectAcceptance(commentsWithReplies, pullRequests);
+ * const commentsWithSuggestions = processor.detectSuggestions(commentsWithAcceptance, pullRequests);
  * 
  * // Analyze individual comments
  * const positiveReactions = ReactionClassifier.getPositiveReactions(comment);
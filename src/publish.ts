@@ -0,0 +1,114 @@
+/**
+ * Publishing reports as a sticky comment on an issue, pull request or discussion
+ * The comment carries a hidden HTML marker, so later runs find and edit it in place
+ * instead of posting a new comment every time
+ */
+
+import * as fs from 'fs/promises';
+import { CommentTarget, ICommentClient, PublishedComment } from './types/interfaces';
+
+/** Identifier of the sticky comment when none is configured */
+export const DEFAULT_STICKY_ID = 'pr-metrics';
+
+/** Maximum comment body length accepted by GitHub */
+export const MAX_COMMENT_LENGTH = 65536;
+
+const TRUNCATION_NOTICE = '\n\n---\n_Report truncated to fit the GitHub comment size limit. The full report is in the workflow artifacts._\n';
+
+export interface PublishOptions {
+  /** Identifier of the sticky comment; different IDs keep separate comments on the same target */
+  stickyId?: string;
+}
+
+export interface PublishResult {
+  action: 'created' | 'updated' | 'unchanged';
+  comment: PublishedComment;
+}
+
+/**
+ * Hidden marker identifying a sticky comment
+ */
+export function stickyMarker(stickyId: string = DEFAULT_STICKY_ID): string {
+  return `<!-- github-pr-metrics:sticky:${stickyId} -->`;
+}
+
+/**
+ * Parse a comment target given as "123", "#123" or "owner/repo#123"
+ * A bare number refers to the default repository (owner/repo)
+ */
+export function parseCommentTarget(value: string, type: CommentTarget['type'] = 'issue', defaultRepository?: string): CommentTarget {
+  const match = value.trim().match(/^(?:([\w.-]+)\/([\w.-]+))?#?(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid comment target "${value}"; use a number or owner/repo#number`);
+  }
+
+  const [owner, repo] = match[1] && match[2] ? [match[1], match[2]] : (defaultRepository || '').split('/');
+  if (!owner || !repo) {
+    throw new Error(`Comment target "${value}" needs a repository; use owner/repo#number`);
+  }
+
+  return { owner, repo, number: parseInt(match[3], 10), type };
+}
+
+/**
+ * Posts a report as a single comment and keeps it up to date
+ */
+export class StickyCommentPublisher {
+  private marker: string;
+
+  constructor(private client: ICommentClient, options: PublishOptions = {}) {
+    this.marker = stickyMarker(options.stickyId);
+  }
+
+  /**
+   * Create the sticky comment, or update it when the target already has one
+   * Only comments written by the authenticated user or app count, so a pasted marker is ignored;
+   * the most recent one is updated
+   */
+  async publish(target: CommentTarget, report: string): Promise<PublishResult> {
+    const body = this.buildBody(report);
+    const existing = (await this.client.listComments(target))
+      .filter(comment => comment.viewerDidAuthor && comment.body.includes(this.marker))
+      .pop();
+
+    if (!existing) {
+      return { action: 'created', comment: await this.client.createComment(target, body) };
+    }
+    if (existing.body === body) {
+      return { action: 'unchanged', comment: existing };
+    }
+    return { action: 'updated', comment: await this.client.updateComment(target, existing.id, body) };
+  }
+
+  /**
+   * Publish a report file written by the report generator
+   */
+  async publishFile(target: CommentTarget, reportPath: string): Promise<PublishResult> {
+    return this.publish(target, await fs.readFile(reportPath, 'utf8'));
+  }
+
+  /**
+   * Prefix the marker and truncate the report to the comment size limit
+   * The cut never splits a surrogate pair, so emoji at the boundary are dropped whole
+   */
+  buildBody(report: string): string {
+    const body = `${this.marker}\n${report}`;
+    if (body.length <= MAX_COMMENT_LENGTH) {
+      return body;
+    }
+
+    let end = MAX_COMMENT_LENGTH - TRUNCATION_NOTICE.length;
+    const lastKept = body.charCodeAt(end - 1);
+    if (lastKept >= 0xd800 && lastKept <= 0xdbff) {
+      end--;
+    }
+    return body.slice(0, end) + TRUNCATION_NOTICE;
+  }
+}
+
+/**
+ * Create a sticky comment publisher
+ */
+export function createStickyCommentPublisher(client: ICommentClient, options: PublishOptions = {}): StickyCommentPublisher {
+  return new StickyCommentPublisher(client, options);
+}
@@ -0,0 +1,127 @@
+/**
+ * Quality gates: thresholds on summary metrics that fail a run when breached
+ */
+
+import { MetricsSummary } from './types/core';
+
+/**
+ * Thresholds in percent (0-100); unset thresholds are not checked
+ */
+export interface QualityGateThresholds {
+  minResolutionRate?: number;
+  minReplyRate?: number;
+  maxNegativeReactionRate?: number;
+}
+
+/**
+ * Outcome of one threshold
+ */
+export interface QualityGateResult {
+  gate: keyof QualityGateThresholds;
+  label: string;
+  threshold: number;
+  /** Measured rate in percent (null when there were no comments to measure) */
+  actual: number | null;
+  passed: boolean;
+}
+
+type GateSummary = Pick<MetricsSummary, 'totalComments' | 'repliedComments' | 'resolvedComments' | 'negativeReactions'>;
+
+const GATES: Array<{
+  gate: keyof QualityGateThresholds;
+  label: string;
+  bound: 'min' | 'max';
+  rate: (summary: GateSummary) => number;
+}> = [
+  { gate: 'minResolutionRate', label: 'Resolution rate', bound: 'min', rate: summary => summary.resolvedComments },
+  { gate: 'minReplyRate', label: 'Reply rate', bound: 'min', rate: summary => summary.repliedComments },
+  { gate: 'maxNegativeReactionRate', label: 'Negative reaction rate', bound: 'max', rate: summary => summary.negativeReactions }
+];
+
+/**
+ * Check the configured thresholds against summary metrics
+ * Rates are relative to the number of AI comments, as in the reports. Without comments
+ * there is nothing to measure, so every gate passes.
+ */
+export function evaluateQualityGates(summary: GateSummary, thresholds: QualityGateThresholds): QualityGateResult[] {
+  const results: QualityGateResult[] = [];
+
+  for (const { gate, label, bound, rate } of GATES) {
+    const threshold = thresholds[gate];
+    if (threshold === undefined) {
+      continue;
+    }
+
+    const actual = summary.totalComments > 0 ? (rate(summary) / summary.totalComments) * 100 : null;
+    results.push({
+      gate,
+      label,
+      threshold,
+      actual,
+      passed: actual === null || (bound === 'min' ? actual >= threshold : actual <= threshold)
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Parse a threshold given as a percentage, e.g. "60" or "60%"
+ * Returns undefined for empty input
+ */
+export function parseThreshold(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  const threshold = Number(value.trim().replace(/%$/, ''));
+  if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+    throw new Error(`${name} must be a percentage between 0 and 100, got "${value}"`);
+  }
+
+  return threshold;
+}
+
+/**
+ * Parse raw threshold inputs (CLI flags or action inputs), skipping empty ones
+ */
+export function parseQualityGateThresholds(inputs: Partial<Record<keyof QualityGateThresholds, string>>): QualityGateThresholds {
+  const thresholds: QualityGateThresholds = {};
+
+  for (const { gate, label, bound } of GATES) {
+    const threshold = parseThreshold(inputs[gate], `${bound === 'min' ? 'Minimum' : 'Maximum'} ${label.toLowerCase()}`);
+    if (threshold !== undefined) {
+      thresholds[gate] = threshold;
+    }
+  }
+
+  return thresholds;
+}
+
+/**
+ * Describe a threshold for logs and summaries, e.g. "Resolution rate 42.0% (minimum 50%)"
+ */
+export function describeQualityGate(result: QualityGateResult): string {
+  const actual = result.actual === null ? 'n/a (no comments)' : `${result.actual.toFixed(1)}%`;
+  const bound = result.gate.startsWith('min') ? 'minimum' : 'maximum';
+  return `${result.label} ${actual} (${bound} ${result.threshold}%)`;
+}
+
+/**
+ * Render quality gate results as a Markdown section
+ */
+export function formatQualityGatesMarkdown(results: QualityGateResult[]): string {
+  const rows = results.map(result => {
+    const actual = result.actual === null ? 'n/a' : `${result.actual.toFixed(1)}%`;
+    const bound = result.gate.startsWith('min') ? '≥' : '≤';
+    return `| ${result.label} | ${bound} ${result.threshold}% | ${actual} | ${result.passed ? '✅ Pass' : '❌ Fail'} |`;
+  });
+
+  return `## Quality Gates
+
+| Gate | Threshold | Actual | Result |
+|------|-----------|--------|--------|
+${rows.join('\n')}
+
+`;
+}
@@ -2,13 +2,20 @@
  * Report generation system for GitHub PR metrics analysis
  */
 
-import { MetricsReport, DetailedMetrics, MetricsSummary } from './types/core';
+import { MetricsReport, CommentDetails, DetailedMetrics, MetricsSummary, ReviewerMetrics, ReviewSummary, AcceptanceSummary, PRDetails, SuggestionSummary, LatencyStats, LatencySummary, MetricsTrend, FileBreakdown, PathStats, AuthorEngagement } from './types/core';
+import * as path from 'path';
 import { IReportGenerator } from './types/interfaces';
+import { REPORT_TEMPLATE_SCHEMA, TemplateEngine, TemplateSchema, createTemplateEngine } from './templates';
 
 /**
  * Supported output formats
  */
-export type OutputFormat = 'json' | 'markdown';
+export type OutputFormat = 'json' | 'markdown' | 'html' | 'csv' | 'tsv' | 'slack' | 'teams';
+
+/**
+ * All output formats, in the order they are listed to users
+ */
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'markdown', 'html', 'csv', 'tsv', 'slack', 'teams'];
 
 /**
  * Template data interface for report generation
@@ -19,6 +26,7 @@ export interface ReportTemplateData {
     date: (date: Date) => string;
     number: (num: number) => string;
     percentage: (num: number, total: number) => string;
+    duration: (milliseconds: number | null) => string;
   };
 }
 
@@ -27,6 +35,7 @@ export interface ReportTemplateData {
  */
 export interface ReportConfig {
   format: OutputFormat;
+  /** Template file replacing the built-in Markdown layout */
   template?: string;
   customFields?: Record<string, any>;
 }
@@ -45,6 +54,13 @@ export abstract class BaseReportFormatter {
     percentage: (num: number, total: number) => {
       if (total === 0) return '0.00';
       return ((num / total) * 100).toFixed(1);
+    },
+    duration: (milliseconds: number | null) => {
+      if (milliseconds === null) return 'n/a';
+      const minutes = milliseconds / 60000;
+      if (minutes < 60) return `${Math.round(minutes)}m`;
+      if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)}h`;
+      return `${(minutes / (24 * 60)).toFixed(1)}d`;
     }
   };
 
@@ -62,6 +78,7 @@ export class JSONReportFormatter extends BaseReportFormatter {
 
   generate(data: MetricsReport): string {
     // Create a clean, structured format that's both human and machine readable
+    const prDetails = this.withoutCommentBodies(data.detailed.prDetails || []);
     const jsonReport = {
       metadata: {
         repository: data.repository,
@@ -71,117 +88,406 @@ export class JSONReportFormatter extends BaseReportFormatter {
         },
         reviewer: data.reviewer,
         generatedAt: data.generatedAt.toISOString(),
+        ...(data.trend ? { trendBucket: data.trend.bucket } : {}),
         notes: [
           "CodeRabbit 'Addressed in commit' messages are automatically detected as positive feedback",
           "Comments with commit resolution messages are counted as resolved"
         ]
       },
-      summary: {
-        pullRequests: {
-          total: data.summary.totalPRs
-        },
-        comments: {
-          total: data.summary.totalComments,
-          averagePerPR: Number(data.summary.averageCommentsPerPR.toFixed(2))
-        },
-        reactions: {
-          positive: data.summary.positiveReactions,
-          negative: data.summary.negativeReactions,
-          positivePercentage: data.summary.totalComments > 0 
-            ? Number(((data.summary.positiveReactions / data.summary.totalComments) * 100).toFixed(1))
-            : 0,
-          negativePercentage: data.summary.totalComments > 0 
-            ? Number(((data.summary.negativeReactions / data.summary.totalComments) * 100).toFixed(1))
-            : 0
-        },
-        engagement: {
-          repliedComments: data.summary.repliedComments,
-          resolvedComments: data.summary.resolvedComments,
-          replyRate: data.summary.totalComments > 0 
-            ? Number(((data.summary.repliedComments / data.summary.totalComments) * 100).toFixed(1))
-            : 0,
-          resolutionRate: data.summary.totalComments > 0 
-            ? Number(((data.summary.resolvedComments / data.summary.totalComments) * 100).toFixed(1))
-            : 0
-        }
-      },
-      detailed: data.detailed,
-      pullRequests: data.detailed.prDetails || []
+      summary: this.buildSummary(data.summary),
+      detailed: { ...data.detailed, prDetails },
+      pullRequests: prDetails,
+      ...(data.trend ? {
+        trend: data.trend.points.map(point => ({
+          start: point.period.start.toISOString(),
+          end: point.period.end.toISOString(),
+          summary: this.buildSummary(point.summary)
+        }))
+      } : {}),
+      ...(data.reviewerBreakdown ? {
+        reviewers: data.reviewerBreakdown.map(entry => ({
+          reviewer: entry.reviewer,
+          summary: this.buildSummary(entry.summary),
+          detailed: { ...entry.detailed, prDetails: this.withoutCommentBodies(entry.detailed.prDetails || []) }
+        }))
+      } : {})
     };
 
     return JSON.stringify(jsonReport, null, 2);
   }
+
+  /**
+   * PR details with comments reduced to their excerpt; full bodies would repeat every comment
+   * in the report several times, and the comment URL leads to the full text
+   */
+  private withoutCommentBodies(prDetails: PRDetails[]) {
+    return prDetails.map(pr => pr.comments ? {
+      ...pr,
+      comments: pr.comments.map(comment => {
+        const details: Partial<CommentDetails> = { ...comment };
+        delete details.body;
+        return details;
+      })
+    } : pr);
+  }
+
+  private buildSummary(summary: MetricsSummary) {
+    return {
+      pullRequests: {
+        total: summary.totalPRs
+      },
+      comments: {
+        total: summary.totalComments,
+        averagePerPR: Number(summary.averageCommentsPerPR.toFixed(2))
+      },
+      reactions: {
+        positive: summary.positiveReactions,
+        negative: summary.negativeReactions,
+        positivePercentage: summary.totalComments > 0 
+          ? Number(((summary.positiveReactions / summary.totalComments) * 100).toFixed(1))
+          : 0,
+        negativePercentage: summary.totalComments > 0 
+          ? Number(((summary.negativeReactions / summary.totalComments) * 100).toFixed(1))
+          : 0
+      },
+      engagement: {
+        repliedComments: summary.repliedComments,
+        resolvedComments: summary.resolvedComments,
+        replyRate: summary.totalComments > 0 
+          ? Number(((summary.repliedComments / summary.totalComments) * 100).toFixed(1))
+          : 0,
+        resolutionRate: summary.totalComments > 0 
+          ? Number(((summary.resolvedComments / summary.totalComments) * 100).toFixed(1))
+          : 0
+      },
+      ...(summary.reviews ? { reviews: this.buildReviewSummary(summary.reviews) } : {}),
+      ...(summary.acceptance ? {
+        acceptance: {
+          inlineComments: summary.acceptance.inlineComments,
+          actedOn: summary.acceptance.actedOn,
+          acceptanceRate: Number(summary.acceptance.acceptanceRate.toFixed(1))
+        }
+      } : {}),
+      ...(summary.latency ? { latency: this.buildLatencySummary(summary.latency) } : {}),
+      ...(summary.suggestions ? {
+        suggestions: {
+          total: summary.suggestions.suggestions,
+          applied: summary.suggestions.applied,
+          appliedRate: Number(summary.suggestions.appliedRate.toFixed(1))
+        }
+      } : {})
+    };
+  }
+
+  private buildLatencySummary(latency: LatencySummary) {
+    const hours = (milliseconds: number | null) => milliseconds === null ? null : Number((milliseconds / 3600000).toFixed(2));
+    const stats = (entry: LatencyStats) => ({
+      count: entry.count,
+      medianHours: hours(entry.median),
+      p75Hours: hours(entry.p75),
+      p90Hours: hours(entry.p90)
+    });
+
+    return {
+      firstHumanReply: stats(latency.firstHumanReply),
+      resolution: stats(latency.resolution),
+      merge: stats(latency.merge)
+    };
+  }
+
+  private buildReviewSummary(reviews: ReviewSummary) {
+    const rate = (count: number, total: number) => total > 0 ? Number(((count / total) * 100).toFixed(1)) : 0;
+    const decisive = reviews.approved + reviews.changesRequested;
+
+    return {
+      total: reviews.totalReviews,
+      approved: reviews.approved,
+      changesRequested: reviews.changesRequested,
+      commented: reviews.commented,
+      dismissed: reviews.dismissed,
+      withSummary: reviews.withSummary,
+      approvalRate: rate(reviews.approved, reviews.totalReviews),
+      changesRequestedRate: rate(reviews.changesRequested, reviews.totalReviews),
+      dismissalRate: rate(reviews.dismissed, decisive)
+    };
+  }
 }
 
+/**
+ * Fields available to Markdown templates: the report and the prebuilt sections of the built-in layout
+ */
+export const MARKDOWN_TEMPLATE_SCHEMA: TemplateSchema = {
+  report: REPORT_TEMPLATE_SCHEMA,
+  prDetailsTable: true,
+  repositoryBreakdownSection: true,
+  fileHotspotSection: true,
+  authorEngagementSection: true,
+  acceptanceSection: true,
+  trendSection: true,
+  latencySection: true,
+  suggestionSection: true,
+  reviewSection: true,
+  reviewerComparisonSection: true
+};
+
 /**
  * Markdown report formatter
  */
 export class MarkdownReportFormatter extends BaseReportFormatter {
+  static readonly TOP_NOISY_PATHS = 10;
+
+  /** Engine rendering the report; register custom formatters and partials here */
+  readonly templateEngine: TemplateEngine = createTemplateEngine({
+    schema: MARKDOWN_TEMPLATE_SCHEMA,
+    formatters: this.formatters
+  });
+
+  private template: string | null = null;
+
   getFormat(): OutputFormat {
     return 'markdown';
   }
 
   generate(data: MetricsReport): string {
-    const template = this.getMarkdownTemplate();
+    const template = this.template ?? this.getMarkdownTemplate();
     return this.renderTemplate(template, data);
   }
 
+  /**
+   * Use a template file instead of the built-in layout
+   * The template is validated first, so unknown fields fail before anything is rendered
+   */
+  async loadTemplate(filePath: string): Promise<void> {
+    const template = await this.templateEngine.loadTemplate(filePath);
+    const { errors } = this.templateEngine.validate(template);
+    if (errors.length > 0) {
+      throw new Error(`Invalid template ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+
+    this.template = template;
+  }
+
   private renderTemplate(template: string, data: MetricsReport): string {
+    const multiRepository = Object.keys(data.detailed.repositoryBreakdown || {}).length > 1;
     const context = {
       report: data,
-      formatters: this.formatters,
-      prDetailsTable: this.generatePRDetailsTable(data.detailed.prDetails)
+      prDetailsTable: this.generatePRDetailsTable(data.detailed.prDetails, multiRepository),
+      fileHotspotSection: data.detailed.fileBreakdown
+        ? this.generateFileHotspotSection(data.detailed.fileBreakdown)
+        : '',
+      authorEngagementSection: data.detailed.authorBreakdown && data.detailed.authorBreakdown.some(entry => entry.comments > 0)
+        ? this.generateAuthorEngagementSection(data.detailed.authorBreakdown)
+        : '',
+      repositoryBreakdownSection: multiRepository
+        ? this.generateRepositoryBreakdownSection(data.detailed.repositoryBreakdown!)
+        : '',
+      acceptanceSection: data.summary.acceptance
+        ? this.generateAcceptanceSection(data.summary.acceptance)
+        : '',
+      trendSection: data.trend && data.trend.points.length > 0
+        ? this.generateTrendSection(data.trend)
+        : '',
+      latencySection: data.summary.latency
+        ? this.generateLatencySection(data.summary.latency)
+        : '',
+      suggestionSection: data.summary.suggestions
+        ? this.generateSuggestionSection(data.summary.suggestions, data.detailed.prDetails, multiRepository)
+        : '',
+      reviewSection: data.summary.reviews
+        ? this.generateReviewSection(data.summary.reviews)
+        : '',
+      reviewerComparisonSection: data.reviewerBreakdown && data.reviewerBreakdown.length > 1
+        ? this.generateReviewerComparisonSection(data.reviewerBreakdown)
+        : ''
     };
 
-    return this.processTemplate(template, context);
+    return this.templateEngine.renderTemplate(template, context);
   }
 
-  private generatePRDetailsTable(prDetails: any[]): string {
-    return prDetails.map(pr => 
-      `| [#${pr.number}](${pr.url}) | ${pr.title} | ${pr.totalComments} | ${pr.aiComments} | ${pr.resolvedAiComments} | ${pr.positiveReactions} | ${pr.negativeReactions} |`
-    ).join('\n');
+  private generatePRDetailsTable(prDetails: any[], multiRepository: boolean = false): string {
+    return prDetails.map(pr => {
+      const label = multiRepository && pr.repository ? `${pr.repository}#${pr.number}` : `#${pr.number}`;
+      return `| [${label}](${pr.url}) | ${pr.title} | ${pr.totalComments} | ${pr.aiComments} | ${pr.resolvedAiComments} | ${pr.positiveReactions} | ${pr.negativeReactions} |`;
+    }).join('\n');
   }
 
-  private processTemplate(template: string, context: any): string {
-    // Match template expressions: {{expression}}
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, expression) => {
-      try {
-        return this.evaluateExpression(expression.trim(), context);
-      } catch (error) {
-        // Return original expression if evaluation fails to maintain template integrity
-        return match;
-      }
+  private generateAcceptanceSection(acceptance: AcceptanceSummary): string {
+    return `### Suggestion Acceptance
+- **Acted On by a Later Commit**: ${acceptance.actedOn} of ${acceptance.inlineComments} inline comments (${this.formatters.percentage(acceptance.actedOn, acceptance.inlineComments)}%)
+
+`;
+  }
+
+  private generateTrendSection(trend: MetricsTrend): string {
+    const rows = trend.points.map(({ period, summary }) => {
+      const label = trend.bucket === 'month'
+        ? period.start.toISOString().slice(0, 7)
+        : `${period.start.toISOString().slice(0, 10)} – ${period.end.toISOString().slice(0, 10)}`;
+      return `| ${label} | ${summary.totalPRs} | ${summary.totalComments} | ${this.formatters.number(summary.averageCommentsPerPR)} | ${this.formatters.percentage(summary.repliedComments, summary.totalComments)}% | ${this.formatters.percentage(summary.resolvedComments, summary.totalComments)}% | ${this.formatters.percentage(summary.positiveReactions, summary.totalComments)}% | ${this.formatters.percentage(summary.negativeReactions, summary.totalComments)}% |`;
     });
+
+    return `## Trend (${trend.bucket === 'month' ? 'Monthly' : 'Weekly'})
+
+| ${trend.bucket === 'month' ? 'Month' : 'Week'} | PRs | AI Comments | Comments per PR | Reply Rate | Resolution Rate | Positive Reaction Rate | Negative Reaction Rate |
+|------|-----|-------------|-----------------|------------|-----------------|------------------------|------------------------|
+${rows.join('\n')}
+
+`;
   }
 
-  private evaluateExpression(expression: string, context: any): string {
-    // Handle formatter function calls: formatters.date report.period.start
-    if (expression.startsWith('formatters.')) {
-      return this.evaluateFormatterCall(expression, context);
-    }
+  private generateLatencySection(latency: LatencySummary): string {
+    const row = (label: string, stats: LatencyStats) =>
+      `| ${label} | ${stats.count} | ${this.formatters.duration(stats.median)} | ${this.formatters.duration(stats.p75)} | ${this.formatters.duration(stats.p90)} |\n`;
+    // Resolution times only exist in data kept up to date with `collect --incremental`
+    const measuredResolution = latency.resolution.count > 0;
 
-    // Handle simple property access: report.repository
-    return String(this.getNestedProperty(expression, context) ?? '');
+    return `## Latency
+
+Time from each AI comment to the first human reply, to its review thread being resolved, and to its pull request being merged.
+${measuredResolution
+    ? 'Thread resolution only counts threads an incremental collection saw being resolved, timed by that collection.'
+    : 'Thread resolution: n/a – needs incremental collection (`collect --incremental`) to see threads being resolved.'}
+
+| From AI Comment To | Comments | Median | p75 | p90 |
+|--------------------|----------|--------|-----|-----|
+${row('First Human Reply', latency.firstHumanReply)}${measuredResolution ? row('Thread Resolution', latency.resolution) : ''}${row('PR Merge', latency.merge)}
+`;
   }
 
-  private evaluateFormatterCall(expression: string, context: any): string {
-    const parts = expression.split(' ');
-    const formatterPath = parts[0]; // e.g., "formatters.date"
-    const args = parts.slice(1); // e.g., ["report.period.start"]
+  private generateSuggestionSection(suggestions: SuggestionSummary, prDetails: PRDetails[], multiRepository: boolean): string {
+    const rows = prDetails
+      .filter(pr => pr.suggestions)
+      .map(pr => {
+        const label = multiRepository && pr.repository ? `${pr.repository}#${pr.number}` : `#${pr.number}`;
+        return `| [${label}](${pr.url}) | ${pr.suggestions} | ${pr.appliedSuggestions} | ${this.formatters.percentage(pr.appliedSuggestions!, pr.suggestions!)}% |`;
+      });
 
-    const formatter = this.getNestedProperty(formatterPath, context);
-    if (typeof formatter !== 'function') {
-      throw new Error(`Formatter not found: ${formatterPath}`);
-    }
+    return `## Suggested Changes
+
+- **Applied**: ${suggestions.applied} of ${suggestions.suggestions} suggested changes (${this.formatters.percentage(suggestions.applied, suggestions.suggestions)}%)
+
+| PR | Suggestions | Applied | Applied Rate |
+|----|-------------|---------|--------------|
+${rows.join('\n')}
+
+`;
+  }
+
+  private generateReviewSection(reviews: ReviewSummary): string {
+    const decisive = reviews.approved + reviews.changesRequested;
+
+    return `## Review Outcomes
+
+| Outcome | Reviews | Share |
+|---------|---------|-------|
+| Approved | ${reviews.approved} | ${this.formatters.percentage(reviews.approved, reviews.totalReviews)}% |
+| Changes Requested | ${reviews.changesRequested} | ${this.formatters.percentage(reviews.changesRequested, reviews.totalReviews)}% |
+| Commented | ${reviews.commented} | ${this.formatters.percentage(reviews.commented, reviews.totalReviews)}% |
+
+- **Total Reviews**: ${reviews.totalReviews} (${reviews.withSummary} with a summary)
+- **Dismissed by Humans**: ${reviews.dismissed} of ${decisive} approvals and change requests (${this.formatters.percentage(reviews.dismissed, decisive)}%)
+
+`;
+  }
+
+  private generateRepositoryBreakdownSection(breakdown: Record<string, MetricsSummary>): string {
+    const rows = Object.entries(breakdown).map(([repository, summary]) =>
+      `| ${repository} | ${summary.totalPRs} | ${summary.totalComments} | ${this.formatters.number(summary.averageCommentsPerPR)} | ${this.formatters.percentage(summary.repliedComments, summary.totalComments)}% | ${this.formatters.percentage(summary.resolvedComments, summary.totalComments)}% | ${summary.positiveReactions} | ${summary.negativeReactions} |`
+    );
 
-    const resolvedArgs = args.map(arg => this.getNestedProperty(arg, context));
-    return String(formatter(...resolvedArgs));
+    return `## Repository Breakdown
+
+| Repository | PRs | AI Comments | Comments per PR | Reply Rate | Resolution Rate | Positive Reactions | Negative Reactions |
+|------------|-----|-------------|-----------------|------------|-----------------|--------------------|--------------------|
+${rows.join('\n')}
+
+`;
   }
 
-  private getNestedProperty(path: string, obj: any): any {
-    return path.split('.').reduce((current, key) => {
-      return current?.[key];
-    }, obj);
+  /**
+   * Paths ranked by unresolved comments, then negative reactions: the first candidates for path filters
+   */
+  private generateFileHotspotSection(breakdown: FileBreakdown): string {
+    const label = (stats: PathStats) => `\`${stats.repository ? `${stats.repository}/` : ''}${stats.path}\``;
+    const noisyPaths = [...breakdown.byDirectory, ...breakdown.byFile]
+      .filter(stats => stats.resolved < stats.comments || stats.negativeReactions > 0)
+      .sort((a, b) =>
+        (b.comments - b.resolved) - (a.comments - a.resolved) ||
+        b.negativeReactions - a.negativeReactions ||
+        b.comments - a.comments
+      )
+      .slice(0, MarkdownReportFormatter.TOP_NOISY_PATHS)
+      .map(stats =>
+        `| ${label(stats)} | ${stats.comments} | ${stats.resolutionRate.toFixed(1)}% | ${stats.comments - stats.resolved} | ${stats.negativeReactions} |`
+      );
+    const languages = breakdown.byExtension.map(stats =>
+      `| ${stats.path} | ${stats.language} | ${stats.comments} | ${stats.resolutionRate.toFixed(1)}% | ${stats.negativeReactions} |`
+    );
+
+    return `## File Hotspots
+
+Inline AI comments by path. Paths with many unresolved comments or negative reactions are candidates for the reviewer's path filters.
+
+### Top Noisy Paths
+
+| Path | AI Comments | Resolution Rate | Unresolved | Negative Reactions |
+|------|-------------|-----------------|------------|--------------------|
+${noisyPaths.length > 0 ? noisyPaths.join('\n') : '| _No unresolved or disliked comments_ | | | | |'}
+
+### By Language
+
+| Extension | Language | AI Comments | Resolution Rate | Negative Reactions |
+|-----------|----------|-------------|-----------------|--------------------|
+${languages.join('\n')}
+
+`;
+  }
+
+  private generateAuthorEngagementSection(authors: AuthorEngagement[]): string {
+    const rows = authors
+      .filter(entry => entry.comments > 0)
+      .map(entry =>
+        `| ${entry.author} | ${entry.pullRequests} | ${entry.comments} | ${entry.replied} | ${entry.reacted} | ${entry.resolved} | ${entry.engagementRate.toFixed(1)}% | ${this.formatters.duration(entry.medianResponseTime)} |`
+      );
+
+    return `## Author Engagement
+
+How PR authors responded to AI comments on their own pull requests: replies, reactions and resolved threads.
+
+| Author | PRs | AI Comments | Replied | Reacted | Resolved | Engagement Rate | Median Response Time |
+|--------|-----|-------------|---------|---------|----------|-----------------|----------------------|
+${rows.join('\n')}
+
+`;
+  }
+
+  private generateReviewerComparisonSection(breakdown: ReviewerMetrics[]): string {
+    const rows = breakdown.map(({ reviewer, summary }) =>
+      `| ${reviewer} | ${summary.totalComments} | ${this.formatters.number(summary.averageCommentsPerPR)} | ${this.formatters.percentage(summary.repliedComments, summary.totalComments)}% | ${this.formatters.percentage(summary.resolvedComments, summary.totalComments)}% | ${this.formatters.percentage(summary.positiveReactions, summary.totalComments)}% | ${this.formatters.percentage(summary.negativeReactions, summary.totalComments)}% |`
+    );
+
+    const sections = breakdown.map(({ reviewer, summary, detailed }) => {
+      const reactions = Object.entries(detailed.reactionBreakdown.byType)
+        .map(([type, count]) => `${type}: ${count}`)
+        .join(', ') || 'none';
+      const reviewedPRs = detailed.prDetails.filter(pr => pr.aiComments > 0).length;
+
+      return `### ${reviewer}
+- **AI Comments**: ${summary.totalComments} across ${reviewedPRs} of ${summary.totalPRs} PRs
+- **Replied**: ${summary.repliedComments} | **Resolved**: ${summary.resolvedComments}
+- **Positive / Negative Reactions**: ${summary.positiveReactions} / ${summary.negativeReactions}
+- **Reactions by Type**: ${reactions}
+${summary.latency ? `- **Median Time to First Human Reply**: ${this.formatters.duration(summary.latency.firstHumanReply.median)}\n` : ''}${summary.suggestions ? `- **Suggested Changes Applied**: ${summary.suggestions.applied} of ${summary.suggestions.suggestions}\n` : ''}${summary.acceptance ? `- **Acted On**: ${summary.acceptance.actedOn} of ${summary.acceptance.inlineComments} inline comments\n` : ''}${summary.reviews ? `- **Reviews**: ${summary.reviews.approved} approved / ${summary.reviews.changesRequested} changes requested / ${summary.reviews.commented} commented (${summary.reviews.dismissed} dismissed)\n` : ''}`;
+    });
+
+    return `## Reviewer Comparison
+
+| Reviewer | AI Comments | Comments per PR | Reply Rate | Resolution Rate | Positive Reaction Rate | Negative Reaction Rate |
+|----------|-------------|-----------------|------------|-----------------|------------------------|------------------------|
+${rows.join('\n')}
+
+${sections.join('\n')}
+`;
   }
 
   private getMarkdownTemplate(): string {
@@ -215,7 +521,7 @@ export class MarkdownReportFormatter extends BaseReportFormatter {
 - **Comments with Replies**: {{report.summary.repliedComments}} ({{formatters.percentage report.summary.repliedComments report.summary.totalComments}}%)
 - **Resolution Rate**: {{report.summary.resolvedComments}} ({{formatters.percentage report.summary.resolvedComments report.summary.totalComments}}%)
 
-### CodeRabbit Resolution Tracking
+{{acceptanceSection}}### CodeRabbit Resolution Tracking
 CodeRabbit's "Addressed in commit" messages are automatically detected as positive feedback, indicating that:
 - The reviewer's feedback was actionable and clear
 - The author responded appropriately by making changes
@@ -223,7 +529,7 @@ CodeRabbit's "Addressed in commit" messages are automatically detected as positi
 
 *Note: Comments with "Addressed in commit [hash]" messages are counted as resolved, even without explicit user reactions.*
 
-## Pull Request Details
+{{trendSection}}{{latencySection}}{{reviewSection}}{{suggestionSection}}{{reviewerComparisonSection}}{{repositoryBreakdownSection}}{{fileHotspotSection}}{{authorEngagementSection}}## Pull Request Details
 
 | PR | Title | Total Comments | AI Comments | Resolved AI Comments | Positive Reactions | Negative Reactions | 
 |----|-------|----------------|-------------|----------------------|--------------------|-------------------|
@@ -246,6 +552,659 @@ CodeRabbit's "Addressed in commit" messages are automatically detected as positi
   }
 }
 
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+:root { --fg: #1f2328; --muted: #59636e; --border: #d1d9e0; --bg: #f6f8fa; --accent: #0969da; --good: #1a7f37; --bad: #cf222e; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: var(--fg); background: #fff; }
+header, main, footer { max-width: 1200px; margin: 0 auto; padding: 16px 24px; }
+header { border-bottom: 1px solid var(--border); }
+h1 { margin: 0 0 4px; font-size: 24px; }
+h2 { font-size: 18px; margin: 32px 0 12px; }
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+.meta, footer { color: var(--muted); }
+.cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(170px, 1fr)); gap: 12px; }
+.card { border: 1px solid var(--border); border-radius: 6px; padding: 12px 16px; background: var(--bg); }
+.card .value { font-size: 24px; font-weight: 600; }
+.card .label, .card .detail { color: var(--muted); font-size: 12px; }
+.charts { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 16px; }
+.chart { border: 1px solid var(--border); border-radius: 6px; padding: 12px 16px; }
+.chart h3 { margin: 0 0 8px; font-size: 14px; }
+.chart svg { width: 100%; height: auto; }
+.chart text { font-size: 12px; fill: var(--fg); }
+.chart .bar { fill: var(--accent); }
+.chart [data-filter-type] { cursor: pointer; }
+.chart [data-filter-type]:hover .bar { fill: #0550ae; }
+.empty { color: var(--muted); }
+.controls { display: flex; gap: 8px; margin-bottom: 8px; }
+.controls input { flex: 1; }
+.controls input, .controls select { padding: 6px 8px; border: 1px solid var(--border); border-radius: 6px; font: inherit; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--border); vertical-align: top; }
+th { background: var(--bg); white-space: nowrap; }
+th[data-sort] { cursor: pointer; user-select: none; }
+th[aria-sort="ascending"]::after { content: " \\25B2"; }
+th[aria-sort="descending"]::after { content: " \\25BC"; }
+td.number, th.number { text-align: right; }
+button.toggle { border: 1px solid var(--border); border-radius: 6px; background: #fff; padding: 2px 8px; cursor: pointer; font: inherit; white-space: nowrap; }
+button.toggle[aria-expanded="true"] { background: var(--bg); }
+tr.comment-row > td { background: var(--bg); }
+ul.comments { list-style: none; margin: 0; padding: 0; }
+li.comment { padding: 8px 0; border-bottom: 1px dashed var(--border); }
+li.comment:last-child { border-bottom: 0; }
+li.comment p { margin: 4px 0 0; white-space: pre-wrap; }
+.comment-meta { color: var(--muted); font-size: 12px; }
+.badge { display: inline-block; padding: 0 6px; border-radius: 10px; background: #ddf4ff; color: var(--accent); font-size: 12px; }
+.resolved { color: var(--good); }
+.unresolved { color: var(--bad); }
+`;
+
+const HTML_SCRIPT = `
+(function () {
+  var table = document.getElementById('pr-table');
+  if (!table) { return; }
+  var body = table.tBodies[0];
+  var search = document.getElementById('pr-filter');
+  var typeFilter = document.getElementById('type-filter');
+
+  function pairs() {
+    return Array.prototype.map.call(body.querySelectorAll('tr.pr-row'), function (row) {
+      return { row: row, details: row.nextElementSibling };
+    });
+  }
+
+  function isExpanded(row) {
+    var button = row.querySelector('button.toggle');
+    return !!button && button.getAttribute('aria-expanded') === 'true';
+  }
+
+  function applyFilters() {
+    var query = search.value.trim().toLowerCase();
+    var type = typeFilter.value;
+    pairs().forEach(function (pair) {
+      var comments = Array.prototype.slice.call(pair.details.querySelectorAll('li.comment'));
+      comments.forEach(function (comment) {
+        comment.hidden = !!type && comment.getAttribute('data-type') !== type;
+      });
+      var matchesType = !type || comments.some(function (comment) { return !comment.hidden; });
+      var matchesQuery = !query || (pair.row.textContent + ' ' + pair.details.textContent).toLowerCase().indexOf(query) !== -1;
+      pair.row.hidden = !(matchesType && matchesQuery);
+      pair.details.hidden = pair.row.hidden || !isExpanded(pair.row);
+    });
+  }
+
+  function sortValue(cell, numeric) {
+    var raw = cell.hasAttribute('data-value') ? cell.getAttribute('data-value') : cell.textContent;
+    return numeric ? (parseFloat(raw) || 0) : raw.trim().toLowerCase();
+  }
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (header, index) {
+    if (!header.hasAttribute('data-sort')) { return; }
+    header.addEventListener('click', function () {
+      var ascending = header.getAttribute('aria-sort') !== 'ascending';
+      var numeric = header.getAttribute('data-sort') === 'number';
+      Array.prototype.forEach.call(table.tHead.rows[0].cells, function (other) { other.removeAttribute('aria-sort'); });
+      header.setAttribute('aria-sort', ascending ? 'ascending' : 'descending');
+      pairs().sort(function (a, b) {
+        var x = sortValue(a.row.cells[index], numeric);
+        var y = sortValue(b.row.cells[index], numeric);
+        var order = numeric ? x - y : String(x).localeCompare(String(y));
+        return ascending ? order : -order;
+      }).forEach(function (pair) {
+        body.appendChild(pair.row);
+        body.appendChild(pair.details);
+      });
+    });
+  });
+
+  body.addEventListener('click', function (event) {
+    var button = event.target.closest('button.toggle');
+    if (!button) { return; }
+    var expanded = button.getAttribute('aria-expanded') !== 'true';
+    button.setAttribute('aria-expanded', String(expanded));
+    button.closest('tr').nextElementSibling.hidden = !expanded;
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll('[data-filter-type]'), function (bar) {
+    bar.addEventListener('click', function () {
+      typeFilter.value = bar.getAttribute('data-filter-type');
+      applyFilters();
+      table.scrollIntoView({ behavior: 'smooth' });
+    });
+  });
+
+  search.addEventListener('input', applyFilters);
+  typeFilter.addEventListener('change', applyFilters);
+})();
+`;
+
+/**
+ * HTML report formatter
+ * Produces a single self-contained page: styles, SVG charts and the script for sorting,
+ * filtering and comment drill-down are inlined, so the file works offline
+ */
+export class HTMLReportFormatter extends BaseReportFormatter {
+  getFormat(): OutputFormat {
+    return 'html';
+  }
+
+  generate(data: MetricsReport): string {
+    const multiRepository = Object.keys(data.detailed.repositoryBreakdown || {}).length > 1;
+    const commentTypes = this.countCommentTypes(data.detailed.prDetails);
+    const commentOutcomes = {
+      replied: data.summary.repliedComments,
+      resolved: data.summary.resolvedComments,
+      unresolved: data.summary.totalComments - data.summary.resolvedComments
+    };
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>PR Metrics: ${escapeHtml(data.repository)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>GitHub PR Metrics Report</h1>
+<p class="meta"><strong>${escapeHtml(data.repository)}</strong> · AI reviewer: ${escapeHtml(data.reviewer)} · ${escapeHtml(this.formatters.date(data.period.start))} to ${escapeHtml(this.formatters.date(data.period.end))}</p>
+</header>
+<main>
+<section>
+<h2>Summary</h2>
+${this.renderSummaryCards(data.summary)}
+</section>
+<section>
+<h2>Engagement</h2>
+<div class="charts">
+${this.renderBarChart('Reactions', data.detailed.reactionBreakdown.byType)}
+${this.renderBarChart('Comment Types', commentTypes, true)}
+${this.renderBarChart('Comment Outcomes', commentOutcomes)}
+</div>
+</section>
+${data.reviewerBreakdown && data.reviewerBreakdown.length > 1 ? this.renderReviewerTable(data.reviewerBreakdown) : ''}${data.trend && data.trend.points.length > 0 ? this.renderTrendTable(data.trend) : ''}${this.renderPRTable(data.detailed.prDetails, Object.keys(commentTypes), multiRepository)}
+</main>
+<footer>Report generated by GitHub PR Metrics Analyzer on ${escapeHtml(this.formatters.date(data.generatedAt))}</footer>
+<script>${HTML_SCRIPT}</script>
+</body>
+</html>
+`;
+  }
+
+  private renderSummaryCards(summary: MetricsSummary): string {
+    const card = (label: string, value: string, detail: string = '') =>
+      `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div>${detail ? `<div class="detail">${escapeHtml(detail)}</div>` : ''}</div>`;
+    const rate = (count: number) => `${this.formatters.percentage(count, summary.totalComments)}%`;
+
+    const cards = [
+      card('Pull Requests', String(summary.totalPRs)),
+      card('AI Comments', String(summary.totalComments), `${this.formatters.number(summary.averageCommentsPerPR)} per PR`),
+      card('Reply Rate', rate(summary.repliedComments), `${summary.repliedComments} comments with replies`),
+      card('Resolution Rate', rate(summary.resolvedComments), `${summary.resolvedComments} resolved comments`),
+      card('Positive Reactions', String(summary.positiveReactions), `${rate(summary.positiveReactions)} of comments`),
+      card('Negative Reactions', String(summary.negativeReactions), `${rate(summary.negativeReactions)} of comments`)
+    ];
+    if (summary.acceptance) {
+      cards.push(card('Acted On', `${this.formatters.percentage(summary.acceptance.actedOn, summary.acceptance.inlineComments)}%`,
+        `${summary.acceptance.actedOn} of ${summary.acceptance.inlineComments} inline comments`));
+    }
+    if (summary.suggestions) {
+      cards.push(card('Suggestions Applied', `${this.formatters.percentage(summary.suggestions.applied, summary.suggestions.suggestions)}%`,
+        `${summary.suggestions.applied} of ${summary.suggestions.suggestions} suggested changes`));
+    }
+    if (summary.latency) {
+      cards.push(card('Median Time to Reply', this.formatters.duration(summary.latency.firstHumanReply.median),
+        `p90 ${this.formatters.duration(summary.latency.firstHumanReply.p90)}`));
+    }
+
+    return `<div class="cards">\n${cards.join('\n')}\n</div>`;
+  }
+
+  /**
+   * Horizontal SVG bar chart; bars of the comment type chart filter the PR table when clicked
+   */
+  private renderBarChart(title: string, counts: Record<string, number>, filterByType: boolean = false): string {
+    const entries = Object.entries(counts).filter(([, count]) => count > 0);
+    if (entries.length === 0) {
+      return `<div class="chart"><h3>${escapeHtml(title)}</h3><p class="empty">No data</p></div>`;
+    }
+
+    const max = Math.max(...entries.map(([, count]) => count));
+    const total = entries.reduce((sum, [, count]) => sum + count, 0);
+    const rowHeight = 26;
+    const bars = entries.map(([key, count], index) => {
+      const label = key.replace(/_/g, ' ');
+      const y = index * rowHeight;
+      const width = Math.max(2, Math.round((count / max) * 220));
+      return `<g${filterByType ? ` data-filter-type="${escapeHtml(key)}"` : ''}><title>${escapeHtml(label)}: ${count} (${this.formatters.percentage(count, total)}%)</title>`
+        + `<text x="0" y="${y + 17}">${escapeHtml(label)}</text>`
+        + `<rect class="bar" x="130" y="${y + 4}" width="${width}" height="18" rx="3"></rect>`
+        + `<text x="${136 + width}" y="${y + 17}">${count}</text></g>`;
+    });
+
+    return `<div class="chart"><h3>${escapeHtml(title)}</h3>
+<svg viewBox="0 0 400 ${entries.length * rowHeight}" role="img" aria-label="${escapeHtml(title)}">
+${bars.join('\n')}
+</svg></div>`;
+  }
+
+  private renderReviewerTable(breakdown: ReviewerMetrics[]): string {
+    const rows = breakdown.map(({ reviewer, summary }) => `<tr><td>${escapeHtml(reviewer)}</td>`
+      + `<td class="number">${summary.totalComments}</td>`
+      + `<td class="number">${this.formatters.number(summary.averageCommentsPerPR)}</td>`
+      + `<td class="number">${this.formatters.percentage(summary.repliedComments, summary.totalComments)}%</td>`
+      + `<td class="number">${this.formatters.percentage(summary.resolvedComments, summary.totalComments)}%</td>`
+      + `<td class="number">${this.formatters.percentage(summary.positiveReactions, summary.totalComments)}%</td>`
+      + `<td class="number">${this.formatters.percentage(summary.negativeReactions, summary.totalComments)}%</td></tr>`);
+
+    return `<section>
+<h2>Reviewer Comparison</h2>
+<table>
+<thead><tr><th>Reviewer</th><th class="number">AI Comments</th><th class="number">Comments per PR</th><th class="number">Reply Rate</th><th class="number">Resolution Rate</th><th class="number">Positive Reaction Rate</th><th class="number">Negative Reaction Rate</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</section>
+`;
+  }
+
+  private renderTrendTable(trend: MetricsTrend): string {
+    const rows = trend.points.map(({ period, summary }) => {
+      const label = trend.bucket === 'month'
+        ? period.start.toISOString().slice(0, 7)
+        : `${period.start.toISOString().slice(0, 10)} – ${period.end.toISOString().slice(0, 10)}`;
+      return `<tr><td>${label}</td>`
+        + `<td class="number">${summary.totalPRs}</td>`
+        + `<td class="number">${summary.totalComments}</td>`
+        + `<td class="number">${this.formatters.percentage(summary.repliedComments, summary.totalComments)}%</td>`
+        + `<td class="number">${this.formatters.percentage(summary.resolvedComments, summary.totalComments)}%</td>`
+        + `<td class="number">${this.formatters.percentage(summary.negativeReactions, summary.totalComments)}%</td></tr>`;
+    });
+
+    return `<section>
+<h2>Trend (${trend.bucket === 'month' ? 'Monthly' : 'Weekly'})</h2>
+<table>
+<thead><tr><th>${trend.bucket === 'month' ? 'Month' : 'Week'}</th><th class="number">PRs</th><th class="number">AI Comments</th><th class="number">Reply Rate</th><th class="number">Resolution Rate</th><th class="number">Negative Reaction Rate</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</section>
+`;
+  }
+
+  private renderPRTable(prDetails: PRDetails[], commentTypes: string[], multiRepository: boolean): string {
+    const showSuggestions = prDetails.some(pr => pr.suggestions !== undefined);
+    const columns = 7 + (showSuggestions ? 1 : 0);
+
+    const rows = prDetails.map(pr => {
+      const label = multiRepository && pr.repository ? `${pr.repository}#${pr.number}` : `#${pr.number}`;
+      const comments = pr.comments || [];
+      const types = Array.from(new Set(comments.map(comment => comment.type))).join(' ');
+
+      return `<tr class="pr-row" data-types="${escapeHtml(types)}">`
+        + `<td data-value="${escapeHtml(label)}"><a href="${escapeHtml(pr.url)}" target="_blank" rel="noopener">${escapeHtml(label)}</a></td>`
+        + `<td>${escapeHtml(pr.title)}</td>`
+        + `<td class="number">${pr.aiComments}</td>`
+        + `<td class="number">${pr.resolvedAiComments}</td>`
+        + `<td class="number">${pr.positiveReactions}</td>`
+        + `<td class="number">${pr.negativeReactions}</td>`
+        + (showSuggestions ? `<td class="number" data-value="${pr.suggestions ? pr.appliedSuggestions! / pr.suggestions : -1}">${pr.suggestions ? `${pr.appliedSuggestions} of ${pr.suggestions}` : ''}</td>` : '')
+        + `<td>${comments.length > 0 ? `<button type="button" class="toggle" aria-expanded="false">${comments.length} comment${comments.length === 1 ? '' : 's'}</button>` : ''}</td>`
+        + `</tr>\n<tr class="comment-row" hidden><td colspan="${columns}"><ul class="comments">${comments.map(comment => this.renderComment(comment)).join('')}</ul></td></tr>`;
+    });
+
+    return `<section>
+<h2>Pull Requests</h2>
+<div class="controls">
+<input type="search" id="pr-filter" placeholder="Filter pull requests and comments" aria-label="Filter pull requests and comments">
+<select id="type-filter" aria-label="Comment type"><option value="">All comment types</option>${commentTypes.map(type => `<option value="${escapeHtml(type)}">${escapeHtml(type)}</option>`).join('')}</select>
+</div>
+<table id="pr-table">
+<thead><tr><th data-sort="text">PR</th><th data-sort="text">Title</th><th class="number" data-sort="number">AI Comments</th><th class="number" data-sort="number">Resolved</th><th class="number" data-sort="number">Positive Reactions</th><th class="number" data-sort="number">Negative Reactions</th>${showSuggestions ? '<th class="number" data-sort="number">Suggestions Applied</th>' : ''}<th>Comments</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</section>`;
+  }
+
+  private renderComment(comment: CommentDetails): string {
+    const location = comment.path ? `<code>${escapeHtml(comment.path)}${comment.line !== undefined ? `:${comment.line}` : ''}</code> · ` : '';
+    const status = comment.isResolved ? '<span class="resolved">resolved</span>' : '<span class="unresolved">unresolved</span>';
+
+    return `<li class="comment" data-type="${escapeHtml(comment.type)}"><div class="comment-meta">`
+      + `<span class="badge">${escapeHtml(comment.type)}</span> ${location}${escapeHtml(comment.author)} · ${escapeHtml(this.formatters.date(new Date(comment.createdAt)))} · ${status}`
+      + `${comment.replies > 0 ? ` · ${comment.replies} repl${comment.replies === 1 ? 'y' : 'ies'}` : ''} · +${comment.positiveReactions} / -${comment.negativeReactions}`
+      + ` · <a href="${escapeHtml(comment.url)}" target="_blank" rel="noopener">View on GitHub</a>`
+      + `</div><p>${escapeHtml(comment.excerpt)}</p></li>`;
+  }
+
+  private countCommentTypes(prDetails: PRDetails[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const comment of prDetails.flatMap(pr => pr.comments || [])) {
+      counts[comment.type] = (counts[comment.type] || 0) + 1;
+    }
+    return counts;
+  }
+}
+
+/**
+ * Quote a delimited field when it contains the delimiter, quotes or line breaks (RFC 4180)
+ * Text starting like a formula (=, +, -, @, tab or CR) gets a leading ' and is quoted, so
+ * spreadsheets show titles and comments written by others instead of evaluating them
+ */
+function quoteField(value: unknown, delimiter: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV and TSV report formatter
+ * The report holds one row per AI comment; rows per pull request are generated separately
+ * for a companion file. TSV fields are quoted like CSV ones, which spreadsheets accept.
+ */
+export class DelimitedReportFormatter extends BaseReportFormatter {
+  private delimiter: string;
+
+  constructor(private format: 'csv' | 'tsv') {
+    super();
+    this.delimiter = format === 'csv' ? ',' : '\t';
+  }
+
+  getFormat(): OutputFormat {
+    return this.format;
+  }
+
+  generate(data: MetricsReport): string {
+    // Resolution times only exist in data kept up to date with `collect --incremental`; without any, the column is left out
+    const measuredResolution = data.detailed.prDetails.some(pr => (pr.comments || []).some(comment => comment.timeToResolution !== undefined));
+    const header = [
+      'repository', 'pr_number', 'pr_title', 'comment_id', 'url', 'author', 'created_at', 'type', 'path', 'line',
+      'resolved', 'positive_reactions', 'negative_reactions', 'replies', 'hours_to_first_reply',
+      ...(measuredResolution ? ['hours_to_resolution'] : []), 'body'
+    ];
+    const rows = data.detailed.prDetails.flatMap(pr => (pr.comments || []).map(comment => [
+      pr.repository || data.repository,
+      pr.number,
+      pr.title,
+      comment.id,
+      comment.url,
+      comment.author,
+      new Date(comment.createdAt),
+      comment.type,
+      comment.path,
+      comment.line,
+      comment.isResolved,
+      comment.positiveReactions,
+      comment.negativeReactions,
+      comment.replies,
+      this.hours(comment.timeToFirstReply),
+      ...(measuredResolution ? [this.hours(comment.timeToResolution)] : []),
+      comment.body
+    ]));
+
+    return this.toDelimited([header, ...rows]);
+  }
+
+  /**
+   * One row per pull request, as in the report's PR details
+   */
+  generatePullRequestRows(data: MetricsReport): string {
+    const header = [
+      'repository', 'pr_number', 'title', 'url', 'total_comments', 'ai_comments', 'resolved_ai_comments',
+      'positive_reactions', 'negative_reactions', 'suggestions', 'applied_suggestions'
+    ];
+    const rows = data.detailed.prDetails.map(pr => [
+      pr.repository || data.repository,
+      pr.number,
+      pr.title,
+      pr.url,
+      pr.totalComments,
+      pr.aiComments,
+      pr.resolvedAiComments,
+      pr.positiveReactions,
+      pr.negativeReactions,
+      pr.suggestions,
+      pr.appliedSuggestions
+    ]);
+
+    return this.toDelimited([header, ...rows]);
+  }
+
+  private hours(milliseconds: number | undefined): string {
+    return milliseconds === undefined ? '' : (milliseconds / 3600000).toFixed(2);
+  }
+
+  private toDelimited(rows: unknown[][]): string {
+    return rows.map(row => row.map(value => quoteField(value, this.delimiter)).join(this.delimiter)).join('\r\n') + '\r\n';
+  }
+}
+
+/**
+ * Headline metric of a chat message, with its change since the previous report
+ */
+interface ChatHeadline {
+  label: string;
+  value: string;
+  /** e.g. "↑ +4.1 pp"; empty without a previous report */
+  change: string;
+}
+
+/**
+ * Base class for chat message formatters (Slack, Microsoft Teams)
+ * Messages carry headline numbers, their change since `report.previous` and the PRs with the most AI comments
+ */
+export abstract class ChatReportFormatter extends BaseReportFormatter {
+  static readonly TOP_PULL_REQUESTS = 5;
+
+  protected headlines(data: MetricsReport): ChatHeadline[] {
+    const current = data.summary;
+    const previous = data.previous?.summary;
+    const rate = (count: number, total: number) => total > 0 ? (count / total) * 100 : 0;
+
+    const headline = (
+      label: string,
+      value: (summary: MetricsSummary) => number | null,
+      unit: 'count' | 'ratio' | 'percent'
+    ): ChatHeadline | null => {
+      const currentValue = value(current);
+      if (currentValue === null) {
+        return null;
+      }
+      const format = (number: number) =>
+        unit === 'percent' ? `${number.toFixed(1)}%` : unit === 'ratio' ? number.toFixed(2) : String(number);
+      const previousValue = previous ? value(previous) : null;
+
+      return {
+        label,
+        value: format(currentValue),
+        change: previousValue === null ? '' : this.describeChange(currentValue - previousValue, unit)
+      };
+    };
+
+    return [
+      headline('Pull Requests', summary => summary.totalPRs, 'count'),
+      headline('AI Comments', summary => summary.totalComments, 'count'),
+      headline('Comments per PR', summary => summary.averageCommentsPerPR, 'ratio'),
+      headline('Reply Rate', summary => rate(summary.repliedComments, summary.totalComments), 'percent'),
+      headline('Resolution Rate', summary => rate(summary.resolvedComments, summary.totalComments), 'percent'),
+      headline('Negative Reaction Rate', summary => rate(summary.negativeReactions, summary.totalComments), 'percent'),
+      headline('Acted On', summary => summary.acceptance ? summary.acceptance.acceptanceRate : null, 'percent'),
+      headline('Suggestions Applied', summary => summary.suggestions ? summary.suggestions.appliedRate : null, 'percent')
+    ].filter((entry): entry is ChatHeadline => entry !== null);
+  }
+
+  protected topPullRequests(data: MetricsReport): PRDetails[] {
+    return data.detailed.prDetails
+      .filter(pr => pr.aiComments > 0)
+      .sort((a, b) => b.aiComments - a.aiComments)
+      .slice(0, ChatReportFormatter.TOP_PULL_REQUESTS);
+  }
+
+  protected title(data: MetricsReport): string {
+    return `PR Metrics: ${data.repository}`;
+  }
+
+  protected subtitle(data: MetricsReport): string {
+    const period = `${this.formatters.date(data.period.start)} to ${this.formatters.date(data.period.end)}`;
+    const comparedTo = data.previous
+      ? `, compared with ${this.formatters.date(data.previous.period.start)} to ${this.formatters.date(data.previous.period.end)}`
+      : '';
+    return `AI reviewer ${data.reviewer} · ${period}${comparedTo}`;
+  }
+
+  private describeChange(change: number, unit: 'count' | 'ratio' | 'percent'): string {
+    const rounded = unit === 'count' ? change : Number(change.toFixed(unit === 'percent' ? 1 : 2));
+    if (rounded === 0) {
+      return '→ 0';
+    }
+
+    const magnitude = unit === 'percent' ? `${rounded.toFixed(1)} pp` : unit === 'ratio' ? rounded.toFixed(2) : String(rounded);
+    return `${rounded > 0 ? '↑ +' : '↓ '}${magnitude}`;
+  }
+}
+
+/**
+ * Escape text for Slack mrkdwn, where &, < and > delimit links and mentions
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Slack message formatter (Block Kit payload for incoming webhooks)
+ */
+export class SlackReportFormatter extends ChatReportFormatter {
+  /** Slack rejects header blocks with longer text */
+  static readonly MAX_HEADER_LENGTH = 150;
+  /** Slack rejects context elements with longer text */
+  static readonly MAX_CONTEXT_LENGTH = 3000;
+
+  getFormat(): OutputFormat {
+    return 'slack';
+  }
+
+  generate(data: MetricsReport): string {
+    const fields = this.headlines(data).map(headline => ({
+      type: 'mrkdwn',
+      text: `*${headline.label}*\n${headline.value}${headline.change ? `  ${headline.change}` : ''}`
+    }));
+    const topPullRequests = this.topPullRequests(data).map(pr =>
+      `• <${pr.url}|${escapeSlack(pr.repository ? `${pr.repository}#${pr.number}` : `#${pr.number}`)}> ${escapeSlack(pr.title)}: ${pr.aiComments} AI comments, ${pr.resolvedAiComments} resolved`
+    );
+
+    // A long repository list (--repos) does not fit in the header, so it moves to the context line
+    const title = this.title(data);
+    const header = title.length > SlackReportFormatter.MAX_HEADER_LENGTH ? 'PR Metrics' : title;
+    const context = [
+      ...(header !== title ? [this.truncate(`Repositories: ${escapeSlack(data.repository)}`, SlackReportFormatter.MAX_CONTEXT_LENGTH)] : []),
+      escapeSlack(this.subtitle(data))
+    ];
+
+    const blocks: any[] = [
+      { type: 'header', text: { type: 'plain_text', text: header } },
+      { type: 'context', elements: context.map(text => ({ type: 'mrkdwn', text })) },
+      // Section blocks take at most 10 fields
+      { type: 'section', fields: fields.slice(0, 10) }
+    ];
+    if (topPullRequests.length > 0) {
+      blocks.push(
+        { type: 'divider' },
+        { type: 'section', text: { type: 'mrkdwn', text: `*Top PRs by AI Comments*\n${topPullRequests.join('\n')}` } }
+      );
+    }
+
+    return JSON.stringify({
+      text: `${title}: ${data.summary.totalComments} AI comments on ${data.summary.totalPRs} PRs`,
+      blocks
+    }, null, 2);
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+  }
+}
+
+/**
+ * Escape text for Adaptive Card Markdown, where *, _, ~, ` and brackets format text and build links
+ */
+function escapeTeams(text: string): string {
+  return text.replace(/[\\`*_~[\]]/g, character => `\\${character}`);
+}
+
+/**
+ * Microsoft Teams message formatter (Adaptive Card in an incoming webhook message)
+ */
+export class TeamsReportFormatter extends ChatReportFormatter {
+  getFormat(): OutputFormat {
+    return 'teams';
+  }
+
+  generate(data: MetricsReport): string {
+    const body: any[] = [
+      { type: 'TextBlock', text: escapeTeams(this.title(data)), weight: 'Bolder', size: 'Large', wrap: true },
+      { type: 'TextBlock', text: escapeTeams(this.subtitle(data)), isSubtle: true, spacing: 'None', wrap: true },
+      {
+        type: 'FactSet',
+        facts: this.headlines(data).map(headline => ({
+          title: headline.label,
+          value: `${headline.value}${headline.change ? `  ${headline.change}` : ''}`
+        }))
+      }
+    ];
+
+    const topPullRequests = this.topPullRequests(data);
+    if (topPullRequests.length > 0) {
+      body.push({ type: 'TextBlock', text: 'Top PRs by AI Comments', weight: 'Bolder', separator: true, wrap: true });
+      for (const pr of topPullRequests) {
+        const label = pr.repository ? `${pr.repository}#${pr.number}` : `#${pr.number}`;
+        body.push({
+          type: 'TextBlock',
+          text: `[${escapeTeams(label)}](${pr.url}) ${escapeTeams(pr.title)}: ${pr.aiComments} AI comments, ${pr.resolvedAiComments} resolved`,
+          spacing: 'Small',
+          wrap: true
+        });
+      }
+    }
+
+    return JSON.stringify({
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body
+        }
+      }]
+    }, null, 2);
+  }
+}
+
 /**
  * Main report generator implementation
  */
@@ -253,13 +1212,27 @@ export class ReportGenerator implements IReportGenerator {
   private formatters: Map<OutputFormat, BaseReportFormatter>;
 
   constructor() {
-    this.formatters = new Map([
+    this.formatters = new Map<OutputFormat, BaseReportFormatter>([
       ['json', new JSONReportFormatter()],
-      ['markdown', new MarkdownReportFormatter()]
+      ['markdown', new MarkdownReportFormatter()],
+      ['html', new HTMLReportFormatter()],
+      ['csv', new DelimitedReportFormatter('csv')],
+      ['tsv', new DelimitedReportFormatter('tsv')],
+      ['slack', new SlackReportFormatter()],
+      ['teams', new TeamsReportFormatter()]
     ]);
   }
 
   async generateReport(data: MetricsReport, config: ReportConfig = { format: 'markdown' }): Promise<string> {
+    if (config.template) {
+      if (config.format !== 'markdown') {
+        throw new Error('Templates can only be used with Markdown reports');
+      }
+      const formatter = new MarkdownReportFormatter();
+      await formatter.loadTemplate(config.template);
+      return formatter.generate(data);
+    }
+
     const formatter = this.formatters.get(config.format);
     if (!formatter) {
       throw new Error(`Unsupported format: ${config.format}`);
@@ -311,6 +1284,14 @@ export function detectOutputFormat(filename: string): OutputFormat {
     case 'md':
     case 'markdown':
       return 'markdown';
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'csv':
+      return 'csv';
+    case 'tsv':
+    case 'tab':
+      return 'tsv';
     default:
       return 'markdown'; // Default fallback
   }
@@ -322,9 +1303,17 @@ export function detectOutputFormat(filename: string): OutputFormat {
 export function getFileExtension(format: OutputFormat): string {
   switch (format) {
     case 'json':
+    case 'slack':
+    case 'teams':
       return '.json';
     case 'markdown':
       return '.md';
+    case 'html':
+      return '.html';
+    case 'csv':
+      return '.csv';
+    case 'tsv':
+      return '.tsv';
     default:
       return '.txt';
   }
@@ -334,7 +1323,16 @@ export function getFileExtension(format: OutputFormat): string {
  * Utility function to check format compatibility
  */
 export function isFormatSupported(format: string): format is OutputFormat {
-  return ['json', 'markdown'].includes(format);
+  return (OUTPUT_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Path of the per-pull-request file written next to a CSV or TSV report
+ * e.g. "reports/metrics.csv" -> "reports/metrics-prs.csv"
+ */
+export function getPullRequestRowsPath(filePath: string): string {
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}-prs${extension}`;
 }
 
 /**
@@ -345,9 +1343,11 @@ export function createMetricsReport(
   period: { start: Date; end: Date },
   reviewer: string,
   summary: MetricsSummary,
-  detailed: DetailedMetrics
+  detailed: DetailedMetrics,
+  reviewerBreakdown?: ReviewerMetrics[],
+  trend?: MetricsTrend
 ): MetricsReport {
-  return {
+  const report: MetricsReport = {
     repository,
     period,
     reviewer,
@@ -355,4 +1355,13 @@ export function createMetricsReport(
     detailed,
     generatedAt: new Date()
   };
+
+  if (reviewerBreakdown) {
+    report.reviewerBreakdown = reviewerBreakdown;
+  }
+  if (trend) {
+    report.trend = trend;
+  }
+
+  return report;
 }
\ No newline at end of file
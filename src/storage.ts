@@ -5,10 +5,30 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { PullRequest, Comment, DateRange } from './types/core';
+import { PullRequest, Comment, Commit, DateRange, Review } from './types/core';
+import { DEFAULT_WEB_BASE_URL, ResolutionMode } from './config';
+
+/**
+ * Record of a single collection run
+ */
+export interface CollectionRun {
+  /** When the run started fetching (used as the cutoff for the next incremental run) */
+  startedAt: string;
+  /** When the run finished and saved */
+  collectedAt: string;
+  mode: 'full' | 'incremental';
+  /** Cutoff for incremental runs: only PRs updated at or after this time were fetched */
+  updatedSince?: string;
+  /** Number of pull requests fetched in this run */
+  fetchedPRs: number;
+  /** Number of reviewer comments fetched in this run */
+  fetchedComments: number;
+}
 
 /**
  * Structure for collected data storage
+ * Each reviewer comment carries its thread context (replies from humans, the PR author
+ * and other bots) in `replies`, so reply metrics can be computed from the stored file
  */
 export interface CollectedData {
   metadata: {
@@ -21,6 +41,16 @@ export interface CollectedData {
     collectedAt: string;
     totalPRs: number;
     totalComments: number;
+    /** Resolution mode used during collection (absent in files written before thread support) */
+    resolutionMode?: ResolutionMode;
+    /** Repositories included in a multi-repository collection ("owner/repo") */
+    repositories?: string[];
+    /** Reviewers compared in a multi-reviewer collection */
+    reviewers?: string[];
+    /** Collection runs that produced this dataset, oldest first */
+    collectionHistory?: CollectionRun[];
+    /** Web base URL of the GitHub instance the data came from (absent for github.com) */
+    webBaseUrl?: string;
   };
   pullRequests: PullRequest[];
   comments: Comment[];
@@ -42,6 +72,11 @@ export class DataStorage {
       repository: string;
       reviewer: string;
       period: DateRange;
+      resolutionMode?: ResolutionMode;
+      repositories?: string[];
+      reviewers?: string[];
+      collectionHistory?: CollectionRun[];
+      webBaseUrl?: string;
     }
   ): Promise<void> {
     const collectedData: CollectedData = {
@@ -60,6 +95,22 @@ export class DataStorage {
       comments: comments
     };
 
+    if (metadata.resolutionMode) {
+      collectedData.metadata.resolutionMode = metadata.resolutionMode;
+    }
+    if (metadata.repositories && metadata.repositories.length > 1) {
+      collectedData.metadata.repositories = metadata.repositories;
+    }
+    if (metadata.reviewers && metadata.reviewers.length > 1) {
+      collectedData.metadata.reviewers = metadata.reviewers;
+    }
+    if (metadata.collectionHistory) {
+      collectedData.metadata.collectionHistory = metadata.collectionHistory;
+    }
+    if (metadata.webBaseUrl && metadata.webBaseUrl !== DEFAULT_WEB_BASE_URL) {
+      collectedData.metadata.webBaseUrl = metadata.webBaseUrl;
+    }
+
     // Create directory if it doesn't exist
     const outputDir = path.dirname(filePath);
     if (!fs.existsSync(outputDir)) {
@@ -85,37 +136,130 @@ export class DataStorage {
     const rawData = fs.readFileSync(filePath, 'utf8');
     const data: CollectedData = JSON.parse(rawData);
     
-    // Convert date strings back to Date objects for PRs
-    const prs = data.pullRequests.map((pr: any) => ({
+    // Convert date strings back to Date objects
+    const prs = data.pullRequests.map((pr: any) => DataStorage.revivePullRequest(pr));
+    const comments = data.comments.map((comment: any) => DataStorage.reviveComment(comment));
+
+    return {
+      prs,
+      comments,
+      metadata: data.metadata
+    };
+  }
+
+  /**
+   * Convert date strings of a deserialized pull request back to Date objects
+   */
+  static revivePullRequest(pr: any): PullRequest {
+    return {
       ...pr,
       createdAt: new Date(pr.createdAt),
       updatedAt: new Date(pr.updatedAt),
-      mergedAt: pr.mergedAt ? new Date(pr.mergedAt) : undefined
-    }));
-    
-    // Convert date strings back to Date objects for comments
-    const comments = data.comments.map((comment: any) => ({
-      ...comment,
+      mergedAt: pr.mergedAt ? new Date(pr.mergedAt) : undefined,
+      ...(pr.reviews ? { reviews: pr.reviews.map((review: any) => DataStorage.reviveReview(review)) } : {}),
+      ...(pr.commits ? { commits: pr.commits.map((commit: any) => DataStorage.reviveCommit(commit)) } : {})
+    };
+  }
+
+  /**
+   * Convert date strings of a deserialized commit back to Date objects
+   */
+  static reviveCommit(commit: any): Commit {
+    return {
+      ...commit,
+      committedAt: new Date(commit.committedAt)
+    };
+  }
+
+  /**
+   * Convert date strings of a deserialized review back to Date objects
+   */
+  static reviveReview(review: any): Review {
+    return {
+      ...review,
+      submittedAt: review.submittedAt ? new Date(review.submittedAt) : undefined,
+      dismissedAt: review.dismissedAt ? new Date(review.dismissedAt) : undefined
+    };
+  }
+
+  /**
+   * Convert date strings of a deserialized comment (including reactions and replies) back to Date objects
+   */
+  static reviveComment(comment: any): Comment {
+    // `resolvedAt` in older files is when a collection ran, not when the thread was resolved, so it is dropped
+    const fields = { ...comment };
+    delete fields.resolvedAt;
+    return {
+      ...fields,
       createdAt: new Date(comment.createdAt),
       updatedAt: new Date(comment.updatedAt),
-      reactions: comment.reactions.map((reaction: any) => ({
+      resolvedObservedAt: comment.resolvedObservedAt ? new Date(comment.resolvedObservedAt) : undefined,
+      reactions: (comment.reactions || []).map((reaction: any) => ({
         ...reaction,
         createdAt: new Date(reaction.createdAt)
       })),
-      replies: comment.replies.map((reply: any) => ({
+      replies: (comment.replies || []).map((reply: any) => ({
         ...reply,
         createdAt: new Date(reply.createdAt),
-        updatedAt: new Date(reply.updatedAt)
+        updatedAt: new Date(reply.updatedAt),
+        reactions: (reply.reactions || []).map((reaction: any) => ({
+          ...reaction,
+          createdAt: new Date(reaction.createdAt)
+        }))
       }))
-    }));
-
-    return {
-      prs,
-      comments,
-      metadata: data.metadata
     };
   }
 
+  /**
+   * Merge freshly collected data into an existing dataset
+   * Pull requests are upserted by ID; a re-fetched PR's comments replace its previous
+   * comments entirely (so deleted comments disappear), other comments are kept as-is.
+   * A thread stored open and now resolved gets `resolvedObservedAt` = `observedAt`; it is kept
+   * while the thread stays resolved. Threads already resolved when first collected get none.
+   */
+  static mergeCollectedData(
+    existing: { prs: PullRequest[]; comments: Comment[] },
+    updates: { prs: PullRequest[]; comments: Comment[] },
+    observedAt: Date = new Date()
+  ): { prs: PullRequest[]; comments: Comment[] } {
+    const updatedPRIds = new Set(updates.prs.map(pr => pr.id));
+
+    // Comments belonging to re-fetched PRs are superseded by the new collection
+    const supersededCommentIds = new Set<number>();
+    for (const pr of existing.prs) {
+      if (updatedPRIds.has(pr.id)) {
+        (pr.comments || []).forEach(comment => supersededCommentIds.add(comment.id));
+      }
+    }
+
+    const previousComments = new Map(existing.comments.map(comment => [comment.id, comment]));
+    const updatedComments = updates.comments.map(comment => {
+      const previous = previousComments.get(comment.id);
+      if (!comment.isResolved || !previous) {
+        return comment;
+      }
+      if (!previous.isResolved) {
+        return { ...comment, resolvedObservedAt: observedAt };
+      }
+      return previous.resolvedObservedAt ? { ...comment, resolvedObservedAt: previous.resolvedObservedAt } : comment;
+    });
+    const updatedCommentIds = new Set(updatedComments.map(comment => comment.id));
+
+    const prs = [
+      ...existing.prs.filter(pr => !updatedPRIds.has(pr.id)),
+      ...updates.prs
+    ].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const comments = [
+      ...existing.comments.filter(comment =>
+        !supersededCommentIds.has(comment.id) && !updatedCommentIds.has(comment.id)
+      ),
+      ...updatedComments
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return { prs, comments };
+  }
+
   /**
    * Check if a data file exists
    */
@@ -0,0 +1,606 @@
+/**
+ * Template engine for user-supplied report templates
+ *
+ * Syntax (a small Handlebars-like subset, no code execution):
+ * - `{{report.summary.totalPRs}}` inserts a field; `{{percentage a b}}` (or `{{formatters.percentage a b}}`)
+ *   calls a formatter with fields or literals ("text", 12, true) as arguments
+ * - `{{#each report.detailed.prDetails}}...{{else}}...{{/each}}` loops over a list or record;
+ *   inside, item fields are used directly (`{{title}}`), with `this`, `@index`, `@key`, `@first`, `@last`
+ *   and `../field` for the enclosing scope
+ * - `{{#if field}}...{{else}}...{{/if}}` and `{{#unless field}}`; empty lists and 0 are false
+ * - `{{> name}}` includes a partial; `{{! comment }}` is dropped
+ * Block tags on a line of their own do not leave an empty line behind.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ITemplateEngine } from './types/interfaces';
+
+/**
+ * Fields available to a template, used to report unknown fields before rendering
+ * `true` is a value without known fields, `[item]` a list and `{ '*': value }` a record with any keys
+ */
+export type TemplateSchema = true | TemplateSchema[] | { [field: string]: TemplateSchema };
+
+export type TemplateFormatter = (...args: any[]) => unknown;
+
+export interface TemplateEngineOptions {
+  /** Fields of the data passed to `renderTemplate`; fields are not checked without a schema */
+  schema?: TemplateSchema;
+  /** Formatters in addition to the built-in ones */
+  formatters?: Record<string, TemplateFormatter>;
+  /** Partials by name */
+  partials?: Record<string, string>;
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+interface Expression {
+  /** Field path, or formatter name when there are arguments */
+  name: string;
+  args: Array<{ path: string } | { literal: string | number | boolean | null }>;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; expression: Expression; line: number }
+  | { type: 'each'; path: string; body: TemplateNode[]; inverse: TemplateNode[]; line: number }
+  | { type: 'if'; negate: boolean; expression: Expression; body: TemplateNode[]; inverse: TemplateNode[]; line: number }
+  | { type: 'partial'; name: string; line: number };
+
+interface Scope<T> {
+  data: T;
+  locals: Record<string, unknown>;
+}
+
+/** Maximum depth of partials including partials, to stop recursive includes */
+const MAX_PARTIAL_DEPTH = 10;
+
+const fields = (...names: string[]): Record<string, TemplateSchema> =>
+  Object.fromEntries(names.map(name => [name, true as TemplateSchema]));
+
+const PERIOD_SCHEMA = fields('start', 'end');
+const LATENCY_SCHEMA = fields('count', 'median', 'p75', 'p90');
+
+const SUMMARY_SCHEMA: TemplateSchema = {
+  ...fields('totalPRs', 'totalComments', 'averageCommentsPerPR', 'positiveReactions', 'negativeReactions', 'repliedComments', 'resolvedComments'),
+  reviews: fields('totalReviews', 'approved', 'changesRequested', 'commented', 'dismissed', 'withSummary'),
+  acceptance: fields('inlineComments', 'actedOn', 'acceptanceRate'),
+  suggestions: fields('suggestions', 'applied', 'appliedRate'),
+  latency: { firstHumanReply: LATENCY_SCHEMA, resolution: LATENCY_SCHEMA, merge: LATENCY_SCHEMA }
+};
+
+const COMMENT_SCHEMA = fields(
+  'id', 'url', 'author', 'createdAt', 'type', 'body', 'excerpt', 'path', 'line', 'isResolved',
+  'replies', 'positiveReactions', 'negativeReactions', 'timeToFirstReply', 'timeToResolution'
+);
+
+const PR_SCHEMA: TemplateSchema = {
+  ...fields(
+    'repository', 'number', 'title', 'url', 'totalComments', 'aiComments', 'resolvedAiComments',
+    'positiveReactions', 'negativeReactions', 'suggestions', 'appliedSuggestions'
+  ),
+  comments: [COMMENT_SCHEMA]
+};
+
+const PATH_SCHEMA = fields('path', 'repository', 'language', 'comments', 'resolved', 'resolutionRate', 'replied', 'negativeReactions');
+
+const DETAILED_SCHEMA: TemplateSchema = {
+  prBreakdown: { byState: { '*': true }, byAuthor: { '*': true } },
+  commentBreakdown: { byType: { '*': true }, byResolution: { '*': true } },
+  reactionBreakdown: { byType: { '*': true }, positiveVsNegative: fields('positive', 'negative') },
+  prDetails: [PR_SCHEMA],
+  repositoryBreakdown: { '*': SUMMARY_SCHEMA },
+  fileBreakdown: { byFile: [PATH_SCHEMA], byDirectory: [PATH_SCHEMA], byExtension: [PATH_SCHEMA] },
+  authorBreakdown: [fields('author', 'pullRequests', 'comments', 'replied', 'reacted', 'resolved', 'engagementRate', 'medianResponseTime')]
+};
+
+/**
+ * Fields of a MetricsReport
+ */
+export const REPORT_TEMPLATE_SCHEMA: TemplateSchema = {
+  ...fields('repository', 'reviewer', 'generatedAt'),
+  period: PERIOD_SCHEMA,
+  summary: SUMMARY_SCHEMA,
+  detailed: DETAILED_SCHEMA,
+  reviewerBreakdown: [{ reviewer: true, summary: SUMMARY_SCHEMA, detailed: DETAILED_SCHEMA }],
+  trend: { bucket: true, points: [{ period: PERIOD_SCHEMA, summary: SUMMARY_SCHEMA }] },
+  previous: { period: PERIOD_SCHEMA, summary: SUMMARY_SCHEMA }
+};
+
+/**
+ * Formatters available to every template
+ */
+const BUILT_IN_FORMATTERS: Record<string, TemplateFormatter> = {
+  isoDate: (date: Date | string) => date ? new Date(date).toISOString().slice(0, 10) : '',
+  truncate: (text: unknown, length: number) => {
+    const value = text === undefined || text === null ? '' : String(text);
+    return value.length > length ? `${value.slice(0, Math.max(length - 1, 0))}…` : value;
+  },
+  upper: (text: unknown) => String(text ?? '').toUpperCase(),
+  lower: (text: unknown) => String(text ?? '').toLowerCase(),
+  default: (value: unknown, fallback: unknown) => value === undefined || value === null || value === '' ? fallback : value,
+  eq: (a: unknown, b: unknown) => a === b,
+  gt: (a: number, b: number) => a > b,
+  lt: (a: number, b: number) => a < b
+};
+
+const LOOP_LOCALS = ['@index', '@key', '@first', '@last'];
+
+/**
+ * Template engine implementation
+ */
+export class TemplateEngine implements ITemplateEngine {
+  private formatters: Record<string, TemplateFormatter>;
+  private partials: Record<string, string>;
+  private schema: TemplateSchema | undefined;
+  private parsed = new Map<string, TemplateNode[]>();
+
+  constructor(options: TemplateEngineOptions = {}) {
+    this.formatters = { ...BUILT_IN_FORMATTERS, ...options.formatters };
+    this.partials = { ...options.partials };
+    this.schema = options.schema;
+  }
+
+  registerFormatter(name: string, formatter: TemplateFormatter): void {
+    this.formatters[name] = formatter;
+  }
+
+  registerPartial(name: string, template: string): void {
+    this.partials[name] = template;
+  }
+
+  /**
+   * Read a template file; partials it includes that are not registered yet are read from
+   * files next to it, by name or by name plus the template's extension
+   */
+  async loadTemplate(filePath: string): Promise<string> {
+    const template = await fs.readFile(filePath, 'utf8');
+    await this.loadPartials(template, filePath, 0);
+    return template;
+  }
+
+  renderTemplate(template: string, data: any): string {
+    return this.renderNodes(this.parse(template), [{ data, locals: {} }], 0);
+  }
+
+  validateTemplate(template: string): boolean {
+    return this.validate(template).valid;
+  }
+
+  /**
+   * Check syntax, formatters, partials and (with a schema) fields without rendering
+   */
+  validate(template: string): TemplateValidationResult {
+    const errors: string[] = [];
+    try {
+      const nodes = this.parse(template);
+      this.validateNodes(nodes, [{ data: this.schema, locals: {} }], errors, []);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private async loadPartials(template: string, filePath: string, depth: number): Promise<void> {
+    if (depth > MAX_PARTIAL_DEPTH) {
+      throw new Error(`Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep in ${filePath}`);
+    }
+
+    const names = Array.from(template.matchAll(/\{\{>\s*([^}\s]+)\s*\}\}/g), match => match[1]);
+    for (const name of names) {
+      if (name in this.partials) {
+        continue;
+      }
+
+      const candidates = [path.resolve(path.dirname(filePath), name), path.resolve(path.dirname(filePath), name + path.extname(filePath))];
+      let partialPath: string | undefined;
+      for (const candidate of candidates) {
+        if (await fs.stat(candidate).then(stats => stats.isFile(), () => false)) {
+          partialPath = candidate;
+          break;
+        }
+      }
+      if (!partialPath) {
+        // Reported by validate() as an unknown partial
+        continue;
+      }
+
+      const partial = await fs.readFile(partialPath, 'utf8');
+      this.registerPartial(name, partial);
+      await this.loadPartials(partial, partialPath, depth + 1);
+    }
+  }
+
+  private parse(template: string): TemplateNode[] {
+    const cached = this.parsed.get(template);
+    if (cached) {
+      return cached;
+    }
+
+    // Alternating text and tags, starting and ending with text
+    const texts: string[] = [];
+    const tags: Array<{ content: string; line: number; standalone: boolean }> = [];
+    const pattern = /\{\{([\s\S]*?)\}\}/g;
+    let offset = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(template)) !== null) {
+      texts.push(template.slice(offset, match.index));
+      tags.push({ content: match[1].trim(), line: template.slice(0, match.index).split('\n').length, standalone: false });
+      offset = match.index + match[0].length;
+    }
+    texts.push(template.slice(offset));
+
+    // Block tags alone on their line take the whole line with them
+    tags.forEach((tag, index) => {
+      if (!/^[#/!>]|^else$/.test(tag.content)) {
+        return;
+      }
+      const before = texts[index];
+      const after = texts[index + 1];
+      const startsLine = /\n[ \t]*$/.test(before) || (index === 0 && /^[ \t]*$/.test(before));
+      const endsLine = /^[ \t]*\r?\n/.test(after) || (index === tags.length - 1 && /^[ \t]*$/.test(after));
+      tag.standalone = startsLine && endsLine;
+    });
+    tags.forEach((tag, index) => {
+      if (tag.standalone) {
+        texts[index] = texts[index].replace(/[ \t]*$/, '');
+        texts[index + 1] = texts[index + 1].replace(/^[ \t]*\r?\n?/, '');
+      }
+    });
+
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: Extract<TemplateNode, { body: TemplateNode[] }>; inElse: boolean }> = [];
+    const current = () => {
+      const frame = stack[stack.length - 1];
+      return frame ? (frame.inElse ? frame.node.inverse : frame.node.body) : root;
+    };
+    const fail = (line: number, message: string): never => {
+      throw new Error(`Line ${line}: ${message}`);
+    };
+
+    texts.forEach((text, index) => {
+      if (text) {
+        current().push({ type: 'text', value: text });
+      }
+
+      const tag = tags[index];
+      if (!tag) {
+        return;
+      }
+      const { content, line } = tag;
+
+      if (content.startsWith('!')) {
+        return;
+      }
+      if (content.startsWith('>')) {
+        const name = content.slice(1).trim();
+        if (!name) {
+          fail(line, 'partial name missing in {{>}}');
+        }
+        current().push({ type: 'partial', name, line });
+        return;
+      }
+      if (content === 'else') {
+        const frame = stack[stack.length - 1];
+        if (!frame || frame.inElse) {
+          fail(line, 'unexpected {{else}}');
+        }
+        frame!.inElse = true;
+        return;
+      }
+      if (content.startsWith('#')) {
+        const [keyword, ...rest] = content.slice(1).trim().split(/\s+/);
+        const argument = rest.join(' ');
+        if (!argument) {
+          fail(line, `{{#${keyword}}} needs an argument`);
+        }
+
+        let node: Extract<TemplateNode, { body: TemplateNode[] }>;
+        if (keyword === 'each') {
+          node = { type: 'each', path: argument, body: [], inverse: [], line };
+        } else if (keyword === 'if' || keyword === 'unless') {
+          node = { type: 'if', negate: keyword === 'unless', expression: this.parseExpression(argument), body: [], inverse: [], line };
+        } else {
+          return fail(line, `unknown block {{#${keyword}}}`);
+        }
+        current().push(node);
+        stack.push({ node, inElse: false });
+        return;
+      }
+      if (content.startsWith('/')) {
+        const keyword = content.slice(1).trim();
+        const frame = stack.pop();
+        const expected = frame ? (frame.node.type === 'each' ? 'each' : (frame.node as { negate: boolean }).negate ? 'unless' : 'if') : undefined;
+        if (keyword !== expected) {
+          fail(line, `unexpected {{/${keyword}}}${expected ? `, expected {{/${expected}}} for the block on line ${frame!.node.line}` : ''}`);
+        }
+        return;
+      }
+      if (!content) {
+        fail(line, 'empty tag {{}}');
+      }
+
+      current().push({ type: 'value', expression: this.parseExpression(content), line });
+    });
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+      fail(unclosed.node.line, `block {{#${unclosed.node.type === 'each' ? 'each' : 'if'}}} is not closed`);
+    }
+
+    this.parsed.set(template, root);
+    return root;
+  }
+
+  private parseExpression(content: string): Expression {
+    const [name = '', ...args] = content.match(/"[^"]*"|'[^']*'|\S+/g) || [];
+
+    return {
+      name: args.length > 0 ? name.replace(/^formatters\./, '') : name,
+      args: args.map(arg => {
+        if (/^(["']).*\1$/.test(arg)) {
+          return { literal: arg.slice(1, -1) };
+        }
+        if (/^-?\d+(\.\d+)?$/.test(arg)) {
+          return { literal: Number(arg) };
+        }
+        if (arg === 'true' || arg === 'false') {
+          return { literal: arg === 'true' };
+        }
+        if (arg === 'null') {
+          return { literal: null };
+        }
+        return { path: arg };
+      })
+    };
+  }
+
+  private renderNodes(nodes: TemplateNode[], scopes: Scope<any>[], depth: number): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'value':
+          output += this.stringify(this.evaluate(node.expression, scopes, node.line));
+          break;
+        case 'if': {
+          const value = this.evaluate(node.expression, scopes, node.line);
+          const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+          output += this.renderNodes(truthy !== node.negate ? node.body : node.inverse, scopes, depth);
+          break;
+        }
+        case 'each': {
+          const value = this.lookup(node.path, scopes);
+          const entries: Array<[string | number, unknown]> = Array.isArray(value)
+            ? value.map((item, index) => [index, item])
+            : value && typeof value === 'object' && !(value instanceof Date) ? Object.entries(value) : [];
+
+          if (entries.length === 0) {
+            output += this.renderNodes(node.inverse, scopes, depth);
+            break;
+          }
+          entries.forEach(([key, item], index) => {
+            const locals = {
+              '@index': index,
+              '@key': key,
+              '@first': index === 0,
+              '@last': index === entries.length - 1
+            };
+            output += this.renderNodes(node.body, [...scopes, { data: item, locals }], depth);
+          });
+          break;
+        }
+        case 'partial': {
+          if (depth >= MAX_PARTIAL_DEPTH) {
+            throw new Error(`Line ${node.line}: partials nested more than ${MAX_PARTIAL_DEPTH} levels deep`);
+          }
+          const partial = this.partials[node.name];
+          if (partial === undefined) {
+            throw new Error(`Line ${node.line}: unknown partial "${node.name}"`);
+          }
+          output += this.renderNodes(this.parse(partial), scopes, depth + 1);
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private evaluate(expression: Expression, scopes: Scope<any>[], line: number): unknown {
+    if (expression.args.length === 0) {
+      return this.lookup(expression.name, scopes);
+    }
+
+    const formatter = this.formatters[expression.name];
+    if (!formatter) {
+      throw new Error(`Line ${line}: unknown formatter "${expression.name}"`);
+    }
+    return formatter(...expression.args.map(arg => 'path' in arg ? this.lookup(arg.path, scopes) : arg.literal));
+  }
+
+  /**
+   * Resolve a field path; the first segment is looked up from the innermost scope outwards
+   */
+  private lookup(fieldPath: string, scopes: Scope<any>[]): unknown {
+    const { segments, candidates } = this.splitPath(fieldPath, scopes);
+    if (segments.length === 0) {
+      return candidates[0]?.data;
+    }
+    if (segments[0].startsWith('@')) {
+      return candidates[0]?.locals[segments[0]];
+    }
+
+    const scope = candidates.find(candidate =>
+      candidate.data !== null && typeof candidate.data === 'object' && segments[0] in candidate.data
+    );
+    return segments.reduce((value: any, segment) => value?.[segment], scope?.data);
+  }
+
+  /**
+   * Split a path into its fields and the scopes it may be resolved in, innermost first
+   * `this.field` and `./field` only use the innermost scope; every `../` skips one scope
+   */
+  private splitPath<T>(fieldPath: string, scopes: Scope<T>[]): { segments: string[]; candidates: Scope<T>[] } {
+    let rest = fieldPath;
+    let skip = 0;
+    while (rest.startsWith('../')) {
+      rest = rest.slice(3);
+      skip++;
+    }
+
+    const inner = scopes.slice(0, Math.max(scopes.length - skip, 1)).reverse();
+    if (rest === 'this' || rest === '.') {
+      return { segments: [], candidates: inner.slice(0, 1) };
+    }
+    if (rest.startsWith('this.') || rest.startsWith('./')) {
+      return { segments: rest.replace(/^(this\.|\.\/)/, '').split('.'), candidates: inner.slice(0, 1) };
+    }
+
+    return { segments: rest.split('.'), candidates: skip > 0 ? inner.slice(0, 1) : inner };
+  }
+
+  private stringify(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.stringify(item)).join(', ');
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  private validateNodes(nodes: TemplateNode[], scopes: Scope<TemplateSchema | undefined>[], errors: string[], partialStack: string[]): void {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          break;
+        case 'value':
+          this.validateExpression(node.expression, scopes, node.line, errors);
+          break;
+        case 'if':
+          this.validateExpression(node.expression, scopes, node.line, errors);
+          this.validateNodes(node.body, scopes, errors, partialStack);
+          this.validateNodes(node.inverse, scopes, errors, partialStack);
+          break;
+        case 'each': {
+          const schema = this.resolveSchema(node.path, scopes, node.line, errors);
+          let item: TemplateSchema | undefined;
+          if (Array.isArray(schema)) {
+            item = schema[0];
+          } else if (schema && schema !== true) {
+            item = schema['*'];
+            if (item === undefined) {
+              errors.push(`Line ${node.line}: "${node.path}" is not a list`);
+            }
+          } else if (schema === true) {
+            errors.push(`Line ${node.line}: "${node.path}" is not a list`);
+          }
+
+          const locals = Object.fromEntries(LOOP_LOCALS.map(local => [local, true]));
+          this.validateNodes(node.body, [...scopes, { data: item, locals }], errors, partialStack);
+          this.validateNodes(node.inverse, scopes, errors, partialStack);
+          break;
+        }
+        case 'partial': {
+          const partial = this.partials[node.name];
+          if (partial === undefined) {
+            errors.push(`Line ${node.line}: unknown partial "${node.name}"`);
+            break;
+          }
+          if (partialStack.includes(node.name)) {
+            errors.push(`Line ${node.line}: partial "${node.name}" includes itself`);
+            break;
+          }
+          try {
+            const partialErrors: string[] = [];
+            this.validateNodes(this.parse(partial), scopes, partialErrors, [...partialStack, node.name]);
+            errors.push(...partialErrors.map(error => `Partial "${node.name}": ${error}`));
+          } catch (error) {
+            errors.push(`Partial "${node.name}": ${error instanceof Error ? error.message : String(error)}`);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  private validateExpression(expression: Expression, scopes: Scope<TemplateSchema | undefined>[], line: number, errors: string[]): void {
+    if (expression.args.length === 0) {
+      this.resolveSchema(expression.name, scopes, line, errors);
+      return;
+    }
+
+    if (!this.formatters[expression.name]) {
+      errors.push(`Line ${line}: unknown formatter "${expression.name}"`);
+    }
+    for (const arg of expression.args) {
+      if ('path' in arg) {
+        this.resolveSchema(arg.path, scopes, line, errors);
+      }
+    }
+  }
+
+  /**
+   * Schema of a field path; records an error for unknown fields
+   * Returns undefined when the field is unknown or the scope has no schema
+   */
+  private resolveSchema(fieldPath: string, scopes: Scope<TemplateSchema | undefined>[], line: number, errors: string[]): TemplateSchema | undefined {
+    const { segments, candidates } = this.splitPath(fieldPath, scopes);
+    if (segments.length === 0) {
+      return candidates[0]?.data;
+    }
+    if (segments[0].startsWith('@')) {
+      if (!candidates[0] || !(segments[0] in candidates[0].locals)) {
+        errors.push(`Line ${line}: ${segments[0]} can only be used inside {{#each}}`);
+      }
+      return true;
+    }
+    // Fields of scopes without a schema are not checked
+    if (candidates.some(candidate => candidate.data === undefined)) {
+      return undefined;
+    }
+
+    const field = (schema: TemplateSchema | undefined, segment: string): TemplateSchema | undefined => {
+      if (Array.isArray(schema)) {
+        return segment === 'length' ? true : /^\d+$/.test(segment) ? schema[0] : undefined;
+      }
+      if (schema && schema !== true) {
+        return segment in schema ? schema[segment] : schema['*'];
+      }
+      return undefined;
+    };
+
+    const scope = candidates.find(candidate => field(candidate.data, segments[0]) !== undefined);
+    let schema = scope?.data;
+    for (const segment of segments) {
+      schema = field(schema, segment);
+      if (schema === undefined) {
+        errors.push(`Line ${line}: unknown field "${fieldPath}"`);
+        return undefined;
+      }
+    }
+    return schema;
+  }
+}
+
+/**
+ * Factory function to create a template engine
+ */
+export function createTemplateEngine(options: TemplateEngineOptions = {}): TemplateEngine {
+  return new TemplateEngine(options);
+}
@@ -28,6 +28,83 @@ export interface Comment {
   replies: Comment[];
   // GitHub API reply relationship data
   inReplyToId?: number; // For review comments that are replies to other review comments
+  // Review thread state from the GraphQL API (only set for review comments)
+  threadId?: string; // Node ID of the review thread the comment belongs to
+  isOutdated?: boolean; // Thread no longer applies to the current diff
+  resolvedBy?: User; // User who resolved the thread
+  resolvedObservedAt?: Date; // First collection that saw the thread resolved after an earlier one saw it open: an upper bound on the resolution time, which GitHub does not expose
+  repository?: string; // "owner/repo" the comment was collected from
+  reviewId?: number; // Review the inline comment was submitted with (pull_request_review_id)
+  line?: number; // File line the inline comment refers to, in the commit it was made on
+  commitId?: string; // Commit the inline comment was made on
+  commentedLines?: string[]; // Code lines the inline comment covers, as of `commitId` (from the diff hunk)
+  actedOn?: boolean; // A later commit changed the commented code (set by the data processor)
+  actedOnCommit?: string; // SHA of the commit that acted on the comment
+  suggestions?: number; // Number of ```suggestion blocks in the body (set by the data processor)
+  appliedSuggestions?: number; // Suggestion blocks found in the final diff (absent when not checked)
+}
+
+/**
+ * Changed line range of a diff hunk, as in "@@ -oldStart,oldLines +newStart,newLines @@"
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+/**
+ * File changed by a commit
+ */
+export interface CommitFile {
+  filename: string;
+  previousFilename?: string; // Set for renamed files
+  status: string;
+  hunks?: DiffHunk[]; // Absent when GitHub omits the patch (binary or very large diffs)
+}
+
+/**
+ * File changed by a pull request, compared with its base branch
+ */
+export interface PullRequestFile {
+  filename: string;
+  previousFilename?: string; // Set for renamed files
+  status: string;
+  addedLines?: string[]; // Lines added by the pull request; absent when GitHub omits the patch
+}
+
+/**
+ * Commit of a pull request
+ */
+export interface Commit {
+  sha: string;
+  message: string;
+  author?: User;
+  committedAt: Date;
+  files?: CommitFile[]; // Only fetched for commits pushed after the first reviewer comment
+}
+
+/**
+ * Review state as submitted; 'dismissed' is only used when the state before dismissal is unknown
+ */
+export type ReviewState = 'approved' | 'changes_requested' | 'commented' | 'dismissed' | 'pending';
+
+/**
+ * Pull request review, including the top-level summary body (e.g. a walkthrough posted by an AI reviewer)
+ */
+export interface Review {
+  id: number;
+  body: string;
+  author: User;
+  state: ReviewState;
+  submittedAt?: Date;
+  commitId?: string; // Head commit the review was submitted against
+  commentIds: number[]; // Inline comments submitted with this review
+  dismissed?: boolean; // Review was dismissed after submission
+  dismissedBy?: User;
+  dismissedAt?: Date;
+  repository?: string; // "owner/repo" the review was collected from
 }
 
 export interface PullRequest {
@@ -40,6 +117,10 @@ export interface PullRequest {
   mergedAt?: Date;
   author: User;
   comments: Comment[];
+  repository?: string; // "owner/repo" the pull request belongs to
+  reviews?: Review[]; // Reviews submitted by the analyzed reviewer(s), when collected
+  commits?: Commit[]; // Commits of the pull request, when collected
+  files?: PullRequestFile[]; // Changed files with suggested changes, when collected
 }
 
 export interface DateRange {
@@ -55,9 +136,66 @@ export interface MetricsSummary {
   negativeReactions: number;
   repliedComments: number;
   resolvedComments: number;
+  /** Review outcomes (absent when reviews were not collected) */
+  reviews?: ReviewSummary;
+  /** Inline comments acted on by a later commit (absent when commits were not collected) */
+  acceptance?: AcceptanceSummary;
+  /** Suggested change blocks applied to the code (absent when diffs were not collected) */
+  suggestions?: SuggestionSummary;
+  /** Time from AI comments to human follow-up (absent when there are no comments) */
+  latency?: LatencySummary;
+}
+
+/**
+ * Distribution of durations in milliseconds; percentiles are null when there are no samples
+ */
+export interface LatencyStats {
+  count: number;
+  median: number | null;
+  p75: number | null;
+  p90: number | null;
+}
+
+export interface LatencySummary {
+  /** From AI comment to the first human reply */
+  firstHumanReply: LatencyStats;
+  /** From AI comment to its review thread being resolved */
+  resolution: LatencyStats;
+  /** From AI comment to its pull request being merged */
+  merge: LatencyStats;
+}
+
+export interface SuggestionSummary {
+  /** Suggested change blocks in comments on pull requests with collected diffs */
+  suggestions: number;
+  /** Suggested changes found in the final code */
+  applied: number;
+  /** Percentage of suggested changes applied */
+  appliedRate: number;
+}
+
+export interface AcceptanceSummary {
+  /** Inline reviewer comments on pull requests with collected commits */
+  inlineComments: number;
+  /** Inline comments whose code was changed by a later commit */
+  actedOn: number;
+  /** Percentage of inline comments acted on */
+  acceptanceRate: number;
+}
+
+export interface ReviewSummary {
+  totalReviews: number;
+  approved: number;
+  changesRequested: number;
+  commented: number;
+  /** Approvals and change requests later dismissed */
+  dismissed: number;
+  /** Reviews with a non-empty summary body */
+  withSummary: number;
 }
 
 export interface PRDetails {
+  repository?: string;
   number: number;
   title: string;
   url: string;
@@ -66,6 +204,30 @@ export interface PRDetails {
   resolvedAiComments: number;
   positiveReactions: number;
   negativeReactions: number;
+  suggestions?: number; // Suggested change blocks in reviewer comments (when diffs were collected)
+  appliedSuggestions?: number;
+  comments?: CommentDetails[]; // AI comments on the PR, for drill-down in reports
+}
+
+/**
+ * An AI comment as listed in reports, linking back to GitHub
+ */
+export interface CommentDetails {
+  id: number;
+  url: string;
+  author: string;
+  createdAt: Date;
+  type: string; // Category from the comment classifier (security, bug, style, ...)
+  body: string;
+  excerpt: string; // Start of the body as plain text
+  path?: string;
+  line?: number;
+  isResolved: boolean;
+  replies: number;
+  positiveReactions: number;
+  negativeReactions: number;
+  timeToFirstReply?: number; // Milliseconds until the first human reply
+  timeToResolution?: number; // Milliseconds until an incremental collection saw the thread resolved (upper bound)
 }
 
 export interface DetailedMetrics {
@@ -74,7 +236,7 @@ export interface DetailedMetrics {
     byAuthor: Record<string, number>;
   };
   commentBreakdown: {
-    byType: Record<string, number>;
+    byType: Record<string, number>; // Comments per classifier category
     byResolution: Record<string, number>;
   };
   reactionBreakdown: {
@@ -85,6 +247,70 @@ export interface DetailedMetrics {
     };
   };
   prDetails: PRDetails[];
+  /** Summary metrics per repository, keyed by "owner/repo" (multi-repository collections) */
+  repositoryBreakdown?: Record<string, MetricsSummary>;
+  /** Inline AI comments by file, directory and file extension (absent when no comment has a path) */
+  fileBreakdown?: FileBreakdown;
+  /** How each PR author engaged with AI comments on their PRs, most commented first */
+  authorBreakdown?: AuthorEngagement[];
+}
+
+/**
+ * Engagement of a pull request author with the AI comments on their pull requests
+ */
+export interface AuthorEngagement {
+  author: string;
+  pullRequests: number;
+  comments: number; // AI comments received
+  replied: number; // Comments the author replied to
+  reacted: number; // Comments the author reacted to
+  resolved: number; // Resolved comments, unless resolved by someone else
+  engagementRate: number; // Percentage of comments replied to, reacted to or resolved
+  medianResponseTime: number | null; // Milliseconds until the author's first reply or reaction
+}
+
+/**
+ * Inline AI comments on one file, directory or file extension
+ */
+export interface PathStats {
+  path: string; // File path, directory with a trailing slash ("src/api/") or extension (".ts")
+  repository?: string; // Set for files and directories in multi-repository datasets
+  language?: string; // Set for extensions
+  comments: number;
+  resolved: number;
+  resolutionRate: number; // Percentage of comments resolved
+  replied: number;
+  negativeReactions: number;
+}
+
+export interface FileBreakdown {
+  byFile: PathStats[];
+  byDirectory: PathStats[]; // Every directory prefix, e.g. "src/" and "src/api/"
+  byExtension: PathStats[];
+}
+
+export interface ReviewerMetrics {
+  reviewer: string;
+  summary: MetricsSummary;
+  detailed: DetailedMetrics;
+}
+
+/**
+ * Length of the buckets a trend splits the analysis period into
+ */
+export type TrendBucket = 'week' | 'month';
+
+/**
+ * Summary metrics of one bucket of a trend
+ */
+export interface TrendPoint {
+  period: DateRange;
+  summary: MetricsSummary;
+}
+
+export interface MetricsTrend {
+  bucket: TrendBucket;
+  points: TrendPoint[];
 }
 
 export interface MetricsReport {
@@ -93,5 +319,14 @@ export interface MetricsReport {
   reviewer: string;
   summary: MetricsSummary;
   detailed: DetailedMetrics;
+  /** Per-reviewer metrics when several reviewers are compared in one run */
+  reviewerBreakdown?: ReviewerMetrics[];
+  /** Summary metrics per week or month of the period, oldest first */
+  trend?: MetricsTrend;
+  /** Summary of an earlier report, for period-over-period changes in chat messages */
+  previous?: {
+    period: DateRange;
+    summary: MetricsSummary;
+  };
   generatedAt: Date;
 }
\ No newline at end of file
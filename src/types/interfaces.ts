@@ -2,7 +2,7 @@
  * Core interfaces for system components
  */
 
-import { PullRequest, Comment, MetricsReport, DateRange, MetricsSummary } from './core';
+import { PullRequest, PullRequestFile, Comment, Commit, MetricsReport, DateRange, MetricsSummary, Review, ReviewerMetrics, TrendBucket, TrendPoint, User } from './core';
 
 /**
  * Configuration management interface
@@ -29,10 +29,49 @@ import {
  */
 export interface IGitHubClient {
   authenticate(config: AuthConfig): Promise<void>;
-  getPullRequests(repo: RepositoryConfig, period: DateRange): Promise<PullRequest[]>;
+  getPullRequests(repo: RepositoryConfig, period: DateRange, updatedSince?: Date): Promise<PullRequest[]>;
   getComments(repo: RepositoryConfig, prNumber: number): Promise<Comment[]>;
+  getReviews(repo: RepositoryConfig, prNumber: number): Promise<Review[]>;
+  getCommits(repo: RepositoryConfig, prNumber: number, filesSince?: Date): Promise<Commit[]>;
+  getPullRequestFiles(repo: RepositoryConfig, prNumber: number): Promise<PullRequestFile[]>;
   getRateLimit(): Promise<RateLimitInfo>;
   isAuthenticated(): boolean;
+  listOrganizationRepositories(organization: string): Promise<RepositorySummary[]>;
+}
+
+/**
+ * Issue, pull request or discussion a comment is posted to
+ * Pull requests take issue comments, so they use the 'issue' type
+ */
+export interface CommentTarget {
+  owner: string;
+  repo: string;
+  number: number;
+  type: 'issue' | 'discussion';
+}
+
+export interface PublishedComment {
+  /** REST comment ID for issues, node ID for discussions */
+  id: string;
+  body: string;
+  url: string;
+  viewerDidAuthor: boolean; // Written by the authenticated user or app
+}
+
+/**
+ * Comment access used to publish reports
+ */
+export interface ICommentClient {
+  listComments(target: CommentTarget): Promise<PublishedComment[]>;
+  createComment(target: CommentTarget, body: string): Promise<PublishedComment>;
+  updateComment(target: CommentTarget, commentId: string, body: string): Promise<PublishedComment>;
+}
+
+export interface RepositorySummary {
+  owner: string;
+  repo: string;
+  topics: string[];
+  archived: boolean;
 }
 
 export interface RateLimitInfo {
@@ -41,12 +80,30 @@ export interface RateLimitInfo {
   resetTime: Date;
 }
 
+/**
+ * Resolution state of a pull request review thread
+ */
+export interface ReviewThreadState {
+  threadId: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  resolvedBy?: User;
+}
+
 /**
  * Data collection interface
  */
 export interface IDataCollector {
   collectPullRequests(config: AnalysisConfig, repoConfig: RepositoryConfig): Promise<PullRequest[]>;
-  collectComments(prs: PullRequest[], reviewerUserName: string, repoConfig: RepositoryConfig): Promise<Comment[]>;
+  collectComments(prs: PullRequest[], reviewerUserName: string | string[], repoConfig: RepositoryConfig): Promise<Comment[]>;
+  collectRepositories(config: AnalysisConfig, repositories: RepositoryConfig[]): Promise<RepositoryCollectionResult>;
+}
+
+export interface RepositoryCollectionResult {
+  pullRequests: PullRequest[];
+  comments: Comment[];
+  failures: { repository: string; error: string }[];
+  failedPullRequests: { repository: string; number: number; error: string }[]; // Left out of `pullRequests`
 }
 
 /**
@@ -58,6 +115,8 @@ export interface IDataProcessor {
   detectResolution(comments: Comment[]): Comment[];
   classifyReactions(comments: Comment[]): Comment[];
   detectReplies(comments: Comment[]): Comment[];
+  detectAcceptance(comments: Comment[], prs: PullRequest[]): Comment[];
+  detectSuggestions(comments: Comment[], prs: PullRequest[]): Comment[];
 }
 
 /**
@@ -66,11 +125,39 @@ export interface IDataProcessor {
 export interface IMetricsCalculator {
   calculateSummary(prs: PullRequest[], comments: Comment[]): MetricsSummary;
   calculateDetailed(prs: PullRequest[], comments: Comment[], repository?: string): any;
+  calculateReviewerBreakdown(prs: PullRequest[], comments: Comment[], reviewers: string[], repository?: string): ReviewerMetrics[];
+  calculateTrend(prs: PullRequest[], comments: Comment[], period: DateRange, bucket: TrendBucket): TrendPoint[];
   calculateAverages(data: number[]): number;
   calculatePercentages(numerator: number, denominator: number): number;
   handleEdgeCases(value: number): number;
 }
 
+/**
+ * A classification rule that matched a comment
+ */
+export interface RuleMatch {
+  rule: string;
+  category: string;
+  priority: number;
+  text: string; // Matched text
+}
+
+/**
+ * Category of a comment and the rules that led to it
+ */
+export interface CommentClassification {
+  category: string;
+  rule?: string; // Winning rule; absent when no rule matched
+  matches: RuleMatch[]; // Every matching rule, winner first
+}
+
+/**
+ * Comment classification interface
+ */
+export interface CommentClassifier {
+  classify(comment: Comment): CommentClassification;
+}
+
 /**
  * Report generation interface
  */
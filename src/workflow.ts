@@ -2,12 +2,21 @@
  * Shared workflow for complete PR metrics analysis
  */
 
-import { ConfigurationManager } from './config';
-import { GitHubClient } from './github';
-import { createDataCollector } from './collectors';
+import {
+  ApiClientType,
+  ConfigurationManager,
+  RepositoryConfig,
+  ResolutionMode,
+  hasRepositoryScope,
+  describeRepositoryScope,
+  getWebBaseUrl,
+  parseRepository
+} from './config';
+import { createGitHubClient } from './github-graphql';
+import { createDataCollector, resolveRepositories } from './collectors';
 import { createDataProcessor } from './processors';
-import { createMetricsCalculator } from './metrics';
-import { createReportGenerator, createMetricsReport, OutputFormat } from './reporters';
+import { anonymizeAuthors, createMetricsCalculator } from './metrics';
+import { createReportGenerator, createMetricsReport, DelimitedReportFormatter, getPullRequestRowsPath, OutputFormat } from './reporters';
 import { MetricsReport } from './types/core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -19,6 +28,31 @@ export interface WorkflowOptions {
   endDate: string;
   outputDir: string;
   githubToken?: string;
+  resolutionMode?: ResolutionMode;
+  /** Compare several reviewers side by side (`reviewerUsername` is used when omitted) */
+  reviewers?: string[];
+  /** Collect from all repositories of this organization instead of `repository` */
+  organization?: string;
+  /** Collect from these repositories ("owner/repo") instead of `repository` */
+  repositories?: string[];
+  /** Glob matched against repository names in multi-repository mode */
+  repositoryFilter?: string;
+  /** Only include organization repositories with this topic */
+  topic?: string;
+  /** Maximum number of GitHub API requests in flight at once */
+  concurrency?: number;
+  /** GitHub API used to fetch pull requests and comments */
+  apiClient?: ApiClientType;
+  /** Directory for cached GitHub API responses (caching is disabled when unset) */
+  cacheDir?: string;
+  /** Seconds a cached response is reused without revalidation */
+  cacheTtl?: number;
+  /** GitHub API base URL (GitHub Enterprise Server) */
+  apiBaseUrl?: string;
+  /** GitHub web base URL used for links */
+  webBaseUrl?: string;
+  /** Replace PR author logins with "Author 1", "Author 2", ... in the reports */
+  anonymizeAuthors?: boolean;
 }
 
 export interface WorkflowResult {
@@ -38,19 +72,28 @@ export interface WorkflowResult {
 /**
  * Generate and save a report in the specified format to a custom file path
  * Single responsibility: report generation and file writing
+ * `template` is a template file replacing the built-in Markdown layout
  */
 export async function generateAndSaveReportToPath(
   report: MetricsReport,
   format: OutputFormat,
   filePath: string,
-  logger: { info: (message: string) => void }
+  logger: { info: (message: string) => void },
+  template?: string
 ): Promise<string> {
   const generator = createReportGenerator();
   
-  logger.info(`📄 Generating ${format.toUpperCase()} report...`);
-  const content = await generator.generateReport(report, { format });
+  logger.info(`📄 Generating ${format.toUpperCase()} report${template ? ` from template ${template}` : ''}...`);
+  const content = await generator.generateReport(report, { format, ...(template ? { template } : {}) });
   
   await fs.writeFile(filePath, content, 'utf8');
+
+  // CSV and TSV reports hold one row per comment; pull request rows go to a companion file
+  if (format === 'csv' || format === 'tsv') {
+    const pullRequestsPath = getPullRequestRowsPath(filePath);
+    await fs.writeFile(pullRequestsPath, new DelimitedReportFormatter(format).generatePullRequestRows(report), 'utf8');
+    logger.info(`📄 Pull request rows saved to: ${pullRequestsPath}`);
+  }
   
   return filePath;
 }
@@ -69,11 +112,16 @@ export async function runCompleteWorkflow(
 ): Promise<WorkflowResult> {
   const startTime = Date.now();
   
-  // Parse repository
+  const multiRepository = !!options.organization || (options.repositories?.length ?? 0) > 0;
+
+  // Parse repository (a multi-repository scope replaces it)
   const [owner, repo] = options.repository.split('/');
-  if (!owner || !repo) {
+  if (!multiRepository && (!owner || !repo)) {
     throw new Error('Repository must be in format owner/repo');
   }
+  const explicitRepositories = (options.repositories || []).map(parseRepository);
+  const reviewers = options.reviewers && options.reviewers.length > 0 ? options.reviewers : [options.reviewerUsername];
+  const reviewerLabel = reviewers.join(', ');
   
   // Parse dates
   const start = new Date(options.startDate);
@@ -87,8 +135,16 @@ export async function runCompleteWorkflow(
     throw new Error('Start date must be before end date');
   }
   
-  logger.info(`📊 Repository: ${options.repository}`);
-  logger.info(`👤 Reviewer: ${options.reviewerUsername}`);
+  if (options.organization) {
+    logger.info(`🏢 Organization: ${options.organization}`);
+  }
+  if (explicitRepositories.length > 0) {
+    logger.info(`📚 Repositories: ${options.repositories!.join(', ')}`);
+  }
+  if (!multiRepository) {
+    logger.info(`📊 Repository: ${options.repository}`);
+  }
+  logger.info(`👤 Reviewer: ${reviewerLabel}`);
   logger.info(`📅 Period: ${options.startDate} to ${options.endDate}`);
   
   // Create output directory
@@ -97,6 +153,18 @@ export async function runCompleteWorkflow(
   // Set environment variables for configuration loading
   process.env.GITHUB_REPOSITORY = options.repository;
   process.env.REVIEWER_USERNAME = options.reviewerUsername;
+  if (options.organization) {
+    process.env.GITHUB_ORGANIZATION = options.organization;
+  }
+  if (explicitRepositories.length > 0) {
+    process.env.GITHUB_REPOSITORIES = options.repositories!.join(',');
+  }
+  if (options.repositoryFilter) {
+    process.env.REPOSITORY_FILTER = options.repositoryFilter;
+  }
+  if (options.topic) {
+    process.env.REPOSITORY_TOPIC = options.topic;
+  }
   if (options.githubToken) {
     process.env.GITHUB_TOKEN = options.githubToken;
   }
@@ -106,10 +174,38 @@ export async function runCompleteWorkflow(
   const config = await configManager.loadConfig();
   
   // Override configuration with options (double-check)
-  config.repository.owner = owner;
-  config.repository.repo = repo;
-  config.analysis.reviewerUserName = options.reviewerUsername;
+  if (owner && repo) {
+    config.repository.owner = owner;
+    config.repository.repo = repo;
+  }
+  config.analysis.reviewerUserName = reviewers[0];
+  if (reviewers.length > 1) {
+    config.analysis.reviewers = reviewers;
+  }
   config.analysis.timePeriod = { start, end };
+  if (options.resolutionMode) {
+    config.analysis.resolutionMode = options.resolutionMode;
+  }
+  const resolutionMode = config.analysis.resolutionMode || 'threads';
+  if (options.concurrency) {
+    config.api = { ...config.api, concurrency: options.concurrency };
+  }
+  const concurrency = config.api?.concurrency || 1;
+  if (options.apiClient) {
+    config.api = { ...config.api, client: options.apiClient };
+  }
+  if (options.cacheDir) {
+    config.api = { ...config.api, cacheDir: options.cacheDir };
+  }
+  if (options.cacheTtl !== undefined) {
+    config.api = { ...config.api, cacheTtl: options.cacheTtl };
+  }
+  if (options.apiBaseUrl) {
+    config.api = { ...config.api, apiBaseUrl: options.apiBaseUrl };
+  }
+  if (options.webBaseUrl) {
+    config.api = { ...config.api, webBaseUrl: options.webBaseUrl };
+  }
   
   if (options.githubToken) {
     config.auth.token = options.githubToken;
@@ -117,14 +213,29 @@ export async function runCompleteWorkflow(
   
   // Initialize GitHub client
   logger.info('🔐 Authenticating with GitHub...');
-  const githubClient = new GitHubClient();
+  const githubClient = createGitHubClient(config.api);
   await githubClient.authenticate(config.auth);
   
   // Collect data
   logger.info('📥 Collecting PR data...');
-  const collector = createDataCollector(githubClient);
+  const collector = createDataCollector(githubClient, { resolutionMode, concurrency });
   
-  const prs = await collector.collectPullRequests(config.analysis, config.repository);
+  let repositories: RepositoryConfig[] = [config.repository];
+  if (hasRepositoryScope(config.scope)) {
+    repositories = await resolveRepositories(githubClient, config.scope!);
+    if (repositories.length === 0) {
+      throw new Error('No repositories matched the given organization, list and filters');
+    }
+    logger.info(`📚 Collecting from ${repositories.length} repositories`);
+  }
+  const repositoryLabel = describeRepositoryScope(repositories, config.scope);
+
+  const { pullRequests: prs, comments, failures, failedPullRequests } = await collector.collectRepositories(config.analysis, repositories);
+  failures.forEach(failure => logger.warning(`Skipped ${failure.repository}: ${failure.error}`));
+  failedPullRequests.forEach(failure => logger.warning(`Skipped ${failure.repository}#${failure.number}: ${failure.error}`));
+  if (failures.length === repositories.length) {
+    throw new Error(`Collection failed: ${failures.map(failure => failure.error).join('; ')}`);
+  }
   logger.info(`📋 Found ${prs.length} pull requests`);
   
   if (prs.length === 0) {
@@ -145,30 +256,40 @@ export async function runCompleteWorkflow(
     };
   }
   
-  const comments = await collector.collectComments(prs, options.reviewerUsername, config.repository);
-  logger.info(`💬 Found ${comments.length} comments from ${options.reviewerUsername}`);
+  logger.info(`💬 Found ${comments.length} comments from ${reviewerLabel}`);
   
   // Process data and calculate metrics
   logger.info('🔄 Processing metrics...');
-  const processor = createDataProcessor();
-  const processedComments = processor.classifyReactions(
-    processor.detectReplies(
-      processor.detectResolution(comments)
-    )
+  const processor = createDataProcessor({ resolutionMode });
+  const processedComments = processor.detectSuggestions(
+    processor.detectAcceptance(
+      processor.classifyReactions(
+        processor.detectReplies(
+          processor.detectResolution(comments)
+        )
+      ),
+      prs
+    ),
+    prs
   );
   
-  const calculator = createMetricsCalculator();
+  const calculator = createMetricsCalculator({ webBaseUrl: getWebBaseUrl(config.api) });
   const summary = calculator.calculateSummary(prs, processedComments);
-  const detailed = calculator.calculateDetailed(prs, processedComments, options.repository);
+  const detailed = calculator.calculateDetailed(prs, processedComments, repositoryLabel);
+  const reviewerBreakdown = reviewers.length > 1
+    ? calculator.calculateReviewerBreakdown(prs, processedComments, reviewers, repositoryLabel)
+    : undefined;
   
   // Generate reports using the core utility function
-  const report = createMetricsReport(
-    options.repository,
+  const metricsReport = createMetricsReport(
+    repositoryLabel,
     { start, end },
-    options.reviewerUsername,
+    reviewerLabel,
     summary,
-    detailed
+    detailed,
+    reviewerBreakdown
   );
+  const report = options.anonymizeAuthors ? anonymizeAuthors(metricsReport) : metricsReport;
   
   const artifacts: string[] = [];
   
@@ -178,6 +299,9 @@ export async function runCompleteWorkflow(
   
   const markdownPath = path.join(options.outputDir, `${filename}.md`);
   artifacts.push(await generateAndSaveReportToPath(report, 'markdown', markdownPath, logger));
+
+  const htmlPath = path.join(options.outputDir, `${filename}.html`);
+  artifacts.push(await generateAndSaveReportToPath(report, 'html', htmlPath, logger));
   
   const executionTime = Date.now() - startTime;
   
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the HTTP response cache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResponseCache } from '../../src/cache';
+
+describe('ResponseCache', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should key requests by URL, parameters and credentials', () => {
+    const cache = new ResponseCache(tempDir);
+
+    expect(cache.keyFor('/repos/a/b/pulls', { page: 1, per_page: 100 }))
+      .toBe(cache.keyFor('/repos/a/b/pulls', { per_page: 100, page: 1 }));
+    expect(cache.keyFor('/repos/a/b/pulls', { page: 1 })).not.toBe(cache.keyFor('/repos/a/b/pulls', { page: 2 }));
+    expect(cache.keyFor('/repos/a/b/pulls', {}, 'token one')).not.toBe(cache.keyFor('/repos/a/b/pulls', {}, 'token two'));
+  });
+
+  it('should round-trip entries and treat missing or corrupt files as misses', () => {
+    const cache = new ResponseCache(path.join(tempDir, 'nested'));
+    const key = cache.keyFor('/rate_limit');
+
+    expect(cache.read(key)).toBeNull();
+
+    cache.write(key, { url: '/rate_limit', etag: '"abc"', data: [{ id: 1 }], storedAt: 1000 });
+    expect(cache.read(key)).toEqual({ url: '/rate_limit', etag: '"abc"', data: [{ id: 1 }], storedAt: 1000 });
+
+    fs.writeFileSync(path.join(tempDir, 'nested', `${key}.json`), '{"url": "/rate');
+    expect(cache.read(key)).toBeNull();
+  });
+
+  it('should only serve entries without revalidation within the TTL', () => {
+    const entry = { url: '/x', data: [], storedAt: 10_000 };
+
+    expect(new ResponseCache(tempDir, 0).isFresh(entry, 10_001)).toBe(false);
+    expect(new ResponseCache(tempDir, 60).isFresh(entry, 69_999)).toBe(true);
+    expect(new ResponseCache(tempDir, 60).isFresh(entry, 70_000)).toBe(false);
+  });
+});
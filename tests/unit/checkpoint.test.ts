@@ -0,0 +1,117 @@
+/**
+ * Unit tests for collection checkpoints
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CollectionCheckpoint, CheckpointKey } from '../../src/checkpoint';
+import { PullRequest, Comment } from '../../src/types/core';
+
+describe('CollectionCheckpoint', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  const key: CheckpointKey = {
+    repository: 'test-owner/test-repo',
+    reviewer: 'coderabbitai[bot]',
+    period: { start: '2024-01-01T00:00:00.000Z', end: '2024-01-31T00:00:00.000Z' }
+  };
+
+  const createComment = (id: number): Comment => ({
+    id,
+    body: `Comment ${id}`,
+    author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+    createdAt: new Date('2024-01-02T10:00:00Z'),
+    updatedAt: new Date('2024-01-02T10:00:00Z'),
+    isResolved: true,
+    resolvedObservedAt: new Date('2024-01-03T10:00:00Z'),
+    reactions: [],
+    replies: []
+  });
+
+  const createPR = (number: number): PullRequest => ({
+    id: number,
+    number,
+    title: `PR ${number}`,
+    state: 'open',
+    createdAt: new Date('2024-01-02T00:00:00Z'),
+    updatedAt: new Date('2024-01-02T00:00:00Z'),
+    author: { login: 'developer', type: 'User', id: 1 },
+    comments: []
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-test-'));
+    filePath = CollectionCheckpoint.pathFor(path.join(tempDir, 'data.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should restore recorded progress when loaded', () => {
+    const checkpoint = CollectionCheckpoint.create(filePath, key, new Date('2024-02-01T00:00:00Z'));
+    checkpoint.recordPullRequests(key.repository, [createPR(1), createPR(2)]);
+    checkpoint.recordComments(key.repository, 1, [createComment(10)]);
+    checkpoint.flush();
+
+    const loaded = CollectionCheckpoint.load(filePath);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.key).toEqual(key);
+    expect(loaded!.startedAt).toBe('2024-02-01T00:00:00.000Z');
+    expect(loaded!.getPullRequests(key.repository)?.map(pr => pr.number)).toEqual([1, 2]);
+    expect(loaded!.getPullRequests(key.repository)?.[0]?.createdAt).toBeInstanceOf(Date);
+    expect(loaded!.getComments(key.repository, 1)?.[0]?.resolvedObservedAt).toEqual(new Date('2024-01-03T10:00:00Z'));
+    expect(loaded!.getComments(key.repository, 2)).toBeUndefined();
+    expect(loaded!.countPendingPullRequests()).toBe(1);
+  });
+
+  it('should restore reviews and commits recorded with comments', () => {
+    const checkpoint = CollectionCheckpoint.create(filePath, key);
+    checkpoint.recordComments(key.repository, 1, [createComment(10)], {
+      reviews: [{ id: 5, body: '', author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 }, state: 'commented', submittedAt: new Date('2024-01-02T00:00:00Z'), commentIds: [10] }],
+      commits: [{ sha: 'abc', message: 'Fix', committedAt: new Date('2024-01-03T00:00:00Z') }],
+      files: [{ filename: 'a.ts', status: 'modified', addedLines: ['x'] }]
+    });
+    checkpoint.recordComments(key.repository, 2, []);
+    checkpoint.flush();
+
+    const loaded = CollectionCheckpoint.load(filePath)!;
+    const details = loaded.getDetails(key.repository, 1);
+
+    expect(details?.reviews?.[0]?.submittedAt).toEqual(new Date('2024-01-02T00:00:00Z'));
+    expect(details?.commits?.[0]?.committedAt).toEqual(new Date('2024-01-03T00:00:00Z'));
+    expect(details?.files).toEqual([{ filename: 'a.ts', status: 'modified', addedLines: ['x'] }]);
+    expect(loaded.getDetails(key.repository, 2)).toEqual({});
+  });
+
+  it('should ignore a truncated final record', () => {
+    const checkpoint = CollectionCheckpoint.create(filePath, key);
+    checkpoint.recordPullRequests(key.repository, [createPR(1)]);
+    checkpoint.flush();
+    fs.appendFileSync(filePath, '{"type":"comments","repository":"test-owner/te');
+
+    const loaded = CollectionCheckpoint.load(filePath);
+
+    expect(loaded!.getPullRequests(key.repository)).toHaveLength(1);
+    expect(loaded!.countPendingPullRequests()).toBe(1);
+  });
+
+  it('should return null for missing or invalid checkpoint files', () => {
+    expect(CollectionCheckpoint.load(filePath)).toBeNull();
+
+    fs.writeFileSync(filePath, 'not json\n');
+    expect(CollectionCheckpoint.load(filePath)).toBeNull();
+  });
+
+  it('should delete the file when removed', () => {
+    const checkpoint = CollectionCheckpoint.create(filePath, key);
+    checkpoint.recordPullRequests(key.repository, []);
+
+    checkpoint.remove();
+
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for the rule-pack comment classifier
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RulePackClassifier, createCommentClassifier, describeClassification, loadRulePack, validateRulePack } from '../../src/classifier';
+import { MetricsCalculator } from '../../src/metrics';
+import { Comment, PullRequest } from '../../src/types/core';
+
+const createComment = (body: string, overrides: Partial<Comment> = {}): Comment => ({
+  id: 1,
+  body,
+  author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  isResolved: false,
+  reactions: [],
+  replies: [],
+  ...overrides
+});
+
+describe('RulePackClassifier', () => {
+  const classifier = new RulePackClassifier();
+
+  it('should let specific concerns outrank phrasing', () => {
+    expect(classifier.classify(createComment('You should fix this bug before merging')).category).toBe('bug');
+    expect(classifier.classify(createComment('Consider hashing the password here')).category).toBe('security');
+    expect(classifier.classify(createComment('How does this handle the N+1 queries in the loop?')).category).toBe('performance');
+    expect(classifier.classify(createComment('Nit: rename `x` to `count`')).category).toBe('nitpick');
+    expect(classifier.classify(createComment('Why is this needed?')).category).toBe('question');
+    expect(classifier.classify(createComment('Looks good to me')).category).toBe('praise');
+    expect(classifier.classify(createComment('Walkthrough of the changes')).category).toBe('unknown');
+  });
+
+  it('should not treat a question mark inside a sentence or "how" as a question', () => {
+    expect(classifier.classify(createComment('Check how `fetch?.()` behaves here.')).category).toBe('unknown');
+  });
+
+  it('should ignore hidden HTML comments and fenced code', () => {
+    const body = '<!-- security metadata -->\nPrefer a constant here.\n```suggestion\nconst password = readSecret();\n```\n';
+
+    expect(classifier.classify(createComment(body))).toEqual({
+      category: 'suggestion',
+      rule: 'suggestion',
+      matches: [{ rule: 'suggestion', category: 'suggestion', priority: 20, text: 'Prefer' }]
+    });
+  });
+
+  it('should report every matching rule, winner first', () => {
+    const classification = classifier.classify(createComment('You should sanitize this input, it looks wrong'));
+
+    expect(classification.matches.map(match => match.rule)).toEqual(['security', 'bug', 'suggestion']);
+    expect(describeClassification(classification))
+      .toBe('security (rule security matched "sanitize"; also matched bug "wrong", suggestion "should")');
+    expect(describeClassification(classifier.classify(createComment('Walkthrough')))).toBe('unknown (no rule matched)');
+  });
+
+  it('should apply custom packs, breaking priority ties by rule order', () => {
+    const custom = new RulePackClassifier({
+      fallback: 'other',
+      rules: [
+        { category: 'testing', pattern: '\\btests?\\b', priority: 5 },
+        { id: 'typing', category: 'types', pattern: '\\bany\\b', priority: 5 },
+        { category: 'urgent', pattern: 'ASAP', flags: '', priority: 9 }
+      ]
+    });
+
+    expect(custom.classify(createComment('Add a test for any input'))).toMatchObject({ category: 'testing', rule: 'testing-1' });
+    expect(custom.classify(createComment('fix asap')).category).toBe('other');
+    expect(custom.classify(createComment('Fix ASAP, any test')).category).toBe('urgent');
+    expect(custom.getCategories()).toEqual(['urgent', 'testing', 'types', 'other']);
+  });
+
+  it('should add custom rules to the built-in ones with extends', () => {
+    const extended = new RulePackClassifier({ extends: 'default', rules: [{ category: 'testing', pattern: '\\bflaky\\b', priority: 95 }] });
+
+    expect(extended.classify(createComment('This flaky check is a bug')).category).toBe('testing');
+    expect(extended.classify(createComment('This is a bug')).category).toBe('bug');
+  });
+});
+
+describe('rule pack files', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'classifier-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load JSON and YAML rule packs', async () => {
+    const jsonPath = path.join(tempDir, 'rules.json');
+    fs.writeFileSync(jsonPath, JSON.stringify({ rules: [{ category: 'testing', pattern: '\\btests?\\b' }] }));
+    const yamlPath = path.join(tempDir, 'rules.yaml');
+    fs.writeFileSync(yamlPath, [
+      'extends: default',
+      'fallback: other',
+      'rules:',
+      '  - id: flaky',
+      '    category: testing',
+      "    pattern: '\\bflaky\\b'",
+      '    priority: 95',
+      ''
+    ].join('\n'));
+
+    expect(await loadRulePack(jsonPath)).toEqual({ rules: [{ category: 'testing', pattern: '\\btests?\\b' }] });
+
+    const classifier = await createCommentClassifier(yamlPath);
+    expect(classifier.classify(createComment('Flaky bug')).rule).toBe('flaky');
+    expect(classifier.classify(createComment('Walkthrough')).category).toBe('other');
+  });
+
+  it('should reject missing, unparsable and malformed rule packs', async () => {
+    const brokenPath = path.join(tempDir, 'broken.yml');
+    fs.writeFileSync(brokenPath, 'rules: [');
+    const invalidPath = path.join(tempDir, 'invalid.json');
+    fs.writeFileSync(invalidPath, JSON.stringify({ rules: [{ category: 'bug', pattern: '(' }, { pattern: 'x', priority: 'high' }] }));
+
+    await expect(loadRulePack(path.join(tempDir, 'missing.json'))).rejects.toThrow('Rule pack not found');
+    await expect(loadRulePack(brokenPath)).rejects.toThrow(`Invalid rule pack ${brokenPath}`);
+    await expect(loadRulePack(invalidPath)).rejects.toThrow(/rules\[0\]\.pattern is invalid[\s\S]*rules\[1\]\.category must be a non-empty string[\s\S]*rules\[1\]\.priority must be a number/);
+  });
+
+  it('should validate the top-level shape', () => {
+    expect(validateRulePack([])).toEqual(['rule pack must be an object with a "rules" list']);
+    expect(validateRulePack({ extends: 'strict', fallback: '', rules: {} })).toEqual([
+      '"extends" must be "default"',
+      '"fallback" must be a non-empty string',
+      '"rules" must be a list'
+    ]);
+  });
+});
+
+describe('MetricsCalculator with a classifier', () => {
+  const pr: PullRequest = {
+    id: 1,
+    number: 1,
+    title: 'Test PR',
+    state: 'merged',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-02'),
+    author: { login: 'developer', type: 'User', id: 1 },
+    comments: [createComment('', { id: 1 }), createComment('', { id: 2 }), createComment('', { id: 3 })]
+  };
+  const comments = [
+    createComment('You should fix this bug', { id: 1 }),
+    createComment('This crashes on empty input', { id: 2 }),
+    createComment('Why?', { id: 3 })
+  ];
+
+  it('should count comments per category and label comment details', () => {
+    const detailed = new MetricsCalculator().calculateDetailed([pr], comments, 'test/repo');
+
+    expect(detailed.commentBreakdown.byType).toEqual({ bug: 2, question: 1 });
+    expect(detailed.prDetails[0].comments?.map(comment => comment.type)).toEqual(['bug', 'bug', 'question']);
+  });
+
+  it('should use the configured classifier', () => {
+    const classifier = new RulePackClassifier({ rules: [{ category: 'terse', pattern: '^.{0,10}$' }] });
+    const detailed = new MetricsCalculator({ classifier }).calculateDetailed([pr], comments, 'test/repo');
+
+    expect(detailed.commentBreakdown.byType).toEqual({ unknown: 2, terse: 1 });
+  });
+});
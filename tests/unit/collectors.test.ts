@@ -2,10 +2,15 @@
  * Unit tests for data collection services
  */
 
-import { DataCollector } from '../../src/collectors';
-import { IGitHubClient } from '../../src/types/interfaces';
-import { PullRequest, Comment, User, Reaction } from '../../src/types/core';
+import { DataCollector, resolveRepositories, matchesRepositoryFilter } from '../../src/collectors';
+import { IGitHubClient, RepositorySummary } from '../../src/types/interfaces';
+import { PullRequest, PullRequestFile, Comment, Commit, User, Reaction, Review } from '../../src/types/core';
 import { AnalysisConfig, RepositoryConfig } from '../../src/config';
+import { CollectionCheckpoint } from '../../src/checkpoint';
+import { DataStorage } from '../../src/storage';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock GitHub client for testing
 class MockGitHubClient implements IGitHubClient {
@@ -53,6 +58,18 @@ class MockGitHubClient implements IGitHubClient {
     ];
   }
 
+  async getReviews(): Promise<Review[]> {
+    return [];
+  }
+
+  async getCommits(): Promise<Commit[]> {
+    return [];
+  }
+
+  async getPullRequestFiles(): Promise<PullRequestFile[]> {
+    return [];
+  }
+
   async getRateLimit() {
     return { limit: 5000, remaining: 4999, resetTime: new Date() };
   }
@@ -60,6 +77,14 @@ class MockGitHubClient implements IGitHubClient {
   isAuthenticated(): boolean {
     return this.authenticated;
   }
+
+  async listOrganizationRepositories(organization: string): Promise<RepositorySummary[]> {
+    return [
+      { owner: organization, repo: 'api-server', topics: ['backend'], archived: false },
+      { owner: organization, repo: 'api-legacy', topics: ['backend'], archived: true },
+      { owner: organization, repo: 'web-app', topics: ['frontend'], archived: false }
+    ];
+  }
 }
 
 describe('DataCollector', () => {
@@ -224,6 +249,33 @@ describe('DataCollector with repository config', () => {
     });
   });
 
+  describe('resolution detection', () => {
+    const threadComment: Comment = {
+      id: 1,
+      body: 'Consider renaming this variable',
+      author: { login: 'coderabbitai', type: 'Bot', id: 1 },
+      createdAt: new Date('2023-01-01'),
+      updatedAt: new Date('2023-01-01'),
+      isResolved: true,
+      reactions: [],
+      replies: [],
+      threadId: 'thread-1'
+    };
+
+    it('should keep review thread resolution state by default', async () => {
+      const enhanced = await collector.enhanceCommentMetadata([threadComment]);
+
+      expect(enhanced[0].isResolved).toBe(true);
+    });
+
+    it('should use heuristics in heuristic resolution mode', async () => {
+      const heuristicCollector = new DataCollector(mockClient, { resolutionMode: 'heuristic' });
+      const enhanced = await heuristicCollector.enhanceCommentMetadata([threadComment]);
+
+      expect(enhanced[0].isResolved).toBe(false);
+    });
+  });
+
   describe('reply detection', () => {
     it('should detect replies using GitHub inReplyToId attribute', async () => {
       const parentComment: Comment = {
@@ -309,6 +361,215 @@ describe('DataCollector with repository config', () => {
     });
   });
 
+  describe('collectComments reply context', () => {
+    const pr: PullRequest = {
+      id: 1,
+      number: 1,
+      title: 'Test PR',
+      state: 'open',
+      createdAt: new Date('2023-01-01'),
+      updatedAt: new Date('2023-01-02'),
+      author: { login: 'testuser', type: 'User', id: 1 },
+      comments: []
+    };
+
+    const createComment = (overrides: Partial<Comment>): Comment => ({
+      id: 1,
+      body: 'Comment',
+      author: { login: 'coderabbitai', type: 'Bot', id: 2 },
+      createdAt: new Date('2023-01-01T10:00:00Z'),
+      updatedAt: new Date('2023-01-01T10:00:00Z'),
+      isResolved: false,
+      reactions: [],
+      replies: [],
+      ...overrides
+    });
+
+    it('should keep human thread replies on reviewer comments', async () => {
+      jest.spyOn(mockClient, 'getComments').mockResolvedValue([
+        createComment({ id: 1, body: 'Consider a guard clause', path: 'src/index.ts' }),
+        createComment({
+          id: 2,
+          body: 'Good catch, will change',
+          author: { login: 'testuser', type: 'User', id: 1 },
+          createdAt: new Date('2023-01-01T11:00:00Z'),
+          path: 'src/index.ts',
+          inReplyToId: 1
+        }),
+        createComment({
+          id: 3,
+          body: 'Thanks!',
+          createdAt: new Date('2023-01-01T12:00:00Z'),
+          path: 'src/index.ts',
+          inReplyToId: 1
+        })
+      ]);
+
+      const comments = await collector.collectComments([{ ...pr }], 'coderabbitai', repoConfig);
+
+      expect(comments.map(comment => comment.id)).toEqual([1, 3]);
+      expect(comments[0].replies.map(reply => reply.id)).toEqual([2, 3]);
+      expect(comments[0].replies[0].author.login).toBe('testuser');
+    });
+
+    it('should attach conversational replies to general PR comments', async () => {
+      jest.spyOn(mockClient, 'getComments').mockResolvedValue([
+        createComment({ id: 10, body: 'Walkthrough of the changes' }),
+        createComment({
+          id: 11,
+          body: '@coderabbitai thanks, the summary helped',
+          author: { login: 'testuser', type: 'User', id: 1 },
+          createdAt: new Date('2023-01-02T09:00:00Z')
+        }),
+        createComment({
+          id: 12,
+          body: 'Unrelated status update',
+          author: { login: 'other', type: 'User', id: 3 },
+          createdAt: new Date('2023-01-02T10:00:00Z')
+        })
+      ]);
+
+      const comments = await collector.collectComments([{ ...pr }], 'coderabbitai', repoConfig);
+
+      expect(comments).toHaveLength(1);
+      expect(comments[0].replies.map(reply => reply.id)).toEqual([11]);
+    });
+  });
+
+  describe('collectComments for several reviewers', () => {
+    it('should keep comments from every listed reviewer in one pass', async () => {
+      const author = (login: string): User => ({ login, type: 'Bot', id: login.length });
+      const getComments = jest.spyOn(mockClient, 'getComments').mockResolvedValue([
+        { id: 1, body: 'From CodeRabbit', author: author('coderabbitai'), createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), isResolved: false, reactions: [], replies: [] },
+        { id: 2, body: 'From Copilot', author: author('Copilot'), createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), isResolved: false, reactions: [], replies: [] },
+        { id: 3, body: 'From another bot', author: author('dependabot'), createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), isResolved: false, reactions: [], replies: [] }
+      ]);
+      const pr: PullRequest = {
+        id: 1,
+        number: 1,
+        title: 'Test PR',
+        state: 'open',
+        createdAt: new Date('2023-01-01'),
+        updatedAt: new Date('2023-01-02'),
+        author: { login: 'testuser', type: 'User', id: 1 },
+        comments: []
+      };
+
+      const comments = await collector.collectComments([pr], ['coderabbitai', 'copilot'], repoConfig);
+
+      expect(getComments).toHaveBeenCalledTimes(1);
+      expect(comments.map(comment => comment.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe('collectComments reviews', () => {
+    it('should keep reviewer reviews linked to the inline comments submitted with them', async () => {
+      const bot: User = { login: 'coderabbitai', type: 'Bot', id: 2 };
+      const human: User = { login: 'maintainer', type: 'User', id: 5 };
+      jest.spyOn(mockClient, 'getComments').mockResolvedValue([
+        { id: 1, body: 'Inline', author: bot, createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), path: 'a.ts', isResolved: false, reactions: [], replies: [], reviewId: 10 },
+        { id: 2, body: 'Other inline', author: bot, createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), path: 'b.ts', isResolved: false, reactions: [], replies: [], reviewId: 11 }
+      ]);
+      jest.spyOn(mockClient, 'getReviews').mockResolvedValue([
+        { id: 10, body: 'Walkthrough', author: bot, state: 'changes_requested', commentIds: [] },
+        { id: 12, body: 'LGTM', author: human, state: 'approved', commentIds: [] }
+      ]);
+      const pr: PullRequest = {
+        id: 1,
+        number: 1,
+        title: 'Test PR',
+        state: 'open',
+        createdAt: new Date('2023-01-01'),
+        updatedAt: new Date('2023-01-02'),
+        author: { login: 'testuser', type: 'User', id: 1 },
+        comments: []
+      };
+
+      await collector.collectComments([pr], 'coderabbitai', repoConfig);
+
+      expect(pr.reviews).toEqual([
+        { id: 10, body: 'Walkthrough', author: bot, state: 'changes_requested', commentIds: [1], repository: 'testowner/testrepo' }
+      ]);
+      expect(pr.comments.map(comment => comment.reviewId)).toEqual([10, 11]);
+    });
+  });
+
+  describe('collectComments commits', () => {
+    it('should fetch commits with files since the earliest inline reviewer comment', async () => {
+      const bot: User = { login: 'coderabbitai', type: 'Bot', id: 2 };
+      jest.spyOn(mockClient, 'getComments').mockResolvedValue([
+        { id: 1, body: 'General', author: bot, createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), isResolved: false, reactions: [], replies: [] },
+        { id: 2, body: 'Inline', author: bot, createdAt: new Date('2023-01-03'), updatedAt: new Date('2023-01-03'), path: 'a.ts', line: 4, isResolved: false, reactions: [], replies: [] },
+        { id: 3, body: 'Inline', author: bot, createdAt: new Date('2023-01-02'), updatedAt: new Date('2023-01-02'), path: 'b.ts', isResolved: false, reactions: [], replies: [] }
+      ]);
+      const commits: Commit[] = [{ sha: 'abc', message: 'Fix', committedAt: new Date('2023-01-04'), files: [] }];
+      const getCommits = jest.spyOn(mockClient, 'getCommits').mockResolvedValue(commits);
+      const pr: PullRequest = {
+        id: 1,
+        number: 7,
+        title: 'Test PR',
+        state: 'open',
+        createdAt: new Date('2023-01-01'),
+        updatedAt: new Date('2023-01-02'),
+        author: { login: 'testuser', type: 'User', id: 1 },
+        comments: []
+      };
+
+      await collector.collectComments([pr], 'coderabbitai', repoConfig);
+
+      expect(getCommits).toHaveBeenCalledWith(repoConfig, 7, new Date('2023-01-02'));
+      expect(pr.commits).toBe(commits);
+    });
+
+    it('should not fetch commits for pull requests without inline reviewer comments', async () => {
+      const getCommits = jest.spyOn(mockClient, 'getCommits');
+      const pr: PullRequest = {
+        id: 1,
+        number: 1,
+        title: 'Test PR',
+        state: 'open',
+        createdAt: new Date('2023-01-01'),
+        updatedAt: new Date('2023-01-02'),
+        author: { login: 'testuser', type: 'User', id: 1 },
+        comments: []
+      };
+
+      await collector.collectComments([pr], 'coderabbitai', repoConfig);
+
+      expect(getCommits).not.toHaveBeenCalled();
+      expect(pr.commits).toBeUndefined();
+    });
+  });
+
+  describe('collectComments suggestion files', () => {
+    it('should keep the final diff of files with suggested changes', async () => {
+      const bot: User = { login: 'coderabbitai', type: 'Bot', id: 2 };
+      jest.spyOn(mockClient, 'getComments').mockResolvedValue([
+        { id: 1, body: '```suggestion\nfixed();\n```', author: bot, createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), path: 'old.ts', isResolved: false, reactions: [], replies: [] },
+        { id: 2, body: 'No suggestion', author: bot, createdAt: new Date('2023-01-01'), updatedAt: new Date('2023-01-01'), path: 'b.ts', isResolved: false, reactions: [], replies: [] }
+      ]);
+      const getFiles = jest.spyOn(mockClient, 'getPullRequestFiles').mockResolvedValue([
+        { filename: 'new.ts', previousFilename: 'old.ts', status: 'renamed', addedLines: ['fixed();'] },
+        { filename: 'b.ts', status: 'modified', addedLines: [] }
+      ]);
+      const pr: PullRequest = {
+        id: 1,
+        number: 3,
+        title: 'Test PR',
+        state: 'open',
+        createdAt: new Date('2023-01-01'),
+        updatedAt: new Date('2023-01-02'),
+        author: { login: 'testuser', type: 'User', id: 1 },
+        comments: []
+      };
+
+      await collector.collectComments([pr], 'coderabbitai', repoConfig);
+
+      expect(getFiles).toHaveBeenCalledWith(repoConfig, 3);
+      expect(pr.files).toEqual([{ filename: 'new.ts', previousFilename: 'old.ts', status: 'renamed', addedLines: ['fixed();'] }]);
+    });
+  });
+
   describe('collectComments with repository config', () => {
     it('should work with explicit repository configuration', async () => {
       const mockPRs: PullRequest[] = [
@@ -331,4 +592,127 @@ describe('DataCollector with repository config', () => {
       expect(comments[0].author.login).toBe('coderabbitai');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Multi-repository collection', () => {
+  let mockClient: MockGitHubClient;
+  let collector: DataCollector;
+  const config: AnalysisConfig = {
+    reviewerUserName: 'coderabbitai',
+    timePeriod: {
+      start: new Date('2022-12-01'),
+      end: new Date('2023-02-01')
+    }
+  };
+
+  beforeEach(() => {
+    mockClient = new MockGitHubClient();
+    collector = new DataCollector(mockClient);
+  });
+
+  describe('collectRepositories', () => {
+    it('should tag pull requests and comments with their repository', async () => {
+      const result = await collector.collectRepositories(config, [
+        { owner: 'org', repo: 'one' },
+        { owner: 'org', repo: 'two' }
+      ]);
+
+      expect(result.pullRequests.map(pr => pr.repository)).toEqual(['org/one', 'org/two']);
+      expect(result.comments.map(comment => comment.repository)).toEqual(['org/one', 'org/two']);
+      expect(result.failures).toHaveLength(0);
+    });
+
+    it('should record failing repositories and continue with the rest', async () => {
+      jest.spyOn(mockClient, 'getPullRequests')
+        .mockRejectedValueOnce(new Error('Not Found'))
+        .mockImplementation(MockGitHubClient.prototype.getPullRequests);
+
+      const result = await collector.collectRepositories(config, [
+        { owner: 'org', repo: 'missing' },
+        { owner: 'org', repo: 'two' }
+      ]);
+
+      expect(result.failures).toEqual([{ repository: 'org/missing', error: 'Not Found' }]);
+      expect(result.pullRequests).toHaveLength(1);
+      expect(result.pullRequests[0].repository).toBe('org/two');
+    });
+
+    it('should leave out PRs whose comments could not be fetched, keeping their stored comments on merge', async () => {
+      const existing = await collector.collectRepositories(config, [{ owner: 'org', repo: 'one' }]);
+      jest.spyOn(mockClient, 'getComments').mockRejectedValueOnce(new Error('Bad Gateway'));
+
+      const result = await collector.collectRepositories(config, [{ owner: 'org', repo: 'one' }]);
+
+      expect(result.pullRequests).toHaveLength(0);
+      expect(result.failedPullRequests).toEqual([{ repository: 'org/one', number: 1, error: 'Bad Gateway' }]);
+
+      const merged = DataStorage.mergeCollectedData(
+        { prs: existing.pullRequests, comments: existing.comments },
+        { prs: result.pullRequests, comments: result.comments }
+      );
+      expect(merged.prs).toHaveLength(1);
+      expect(merged.comments.map(comment => comment.id)).toEqual([1]);
+    });
+
+    it('should skip work recorded in a checkpoint when resuming', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-test-'));
+      const filePath = path.join(tempDir, 'data.json.checkpoint.jsonl');
+      try {
+        const key = { repository: 'org/one', reviewer: 'coderabbitai', period: { start: '2022-12-01', end: '2023-02-01' } };
+        const first = CollectionCheckpoint.create(filePath, key);
+        await new DataCollector(mockClient, { checkpoint: first }).collectRepositories(config, [{ owner: 'org', repo: 'one' }]);
+        first.flush();
+
+        const getPullRequests = jest.spyOn(mockClient, 'getPullRequests');
+        const getComments = jest.spyOn(mockClient, 'getComments');
+        const resumed = CollectionCheckpoint.load(filePath)!;
+        const result = await new DataCollector(mockClient, { checkpoint: resumed }).collectRepositories(config, [{ owner: 'org', repo: 'one' }]);
+        resumed.flush();
+
+        expect(getPullRequests).not.toHaveBeenCalled();
+        expect(getComments).not.toHaveBeenCalled();
+        expect(result.pullRequests).toHaveLength(1);
+        expect(result.comments).toHaveLength(1);
+        expect(resumed.countPendingPullRequests()).toBe(0);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('resolveRepositories', () => {
+    it('should enumerate organization repositories and skip archived ones', async () => {
+      const repositories = await resolveRepositories(mockClient, { organization: 'org' });
+
+      expect(repositories).toEqual([
+        { owner: 'org', repo: 'api-server' },
+        { owner: 'org', repo: 'web-app' }
+      ]);
+    });
+
+    it('should apply topic and name filters', async () => {
+      expect(await resolveRepositories(mockClient, { organization: 'org', topic: 'frontend' }))
+        .toEqual([{ owner: 'org', repo: 'web-app' }]);
+      expect(await resolveRepositories(mockClient, {
+        organization: 'org',
+        repositories: [{ owner: 'other', repo: 'api-gateway' }],
+        nameFilter: 'api-*'
+      })).toEqual([
+        { owner: 'org', repo: 'api-server' },
+        { owner: 'other', repo: 'api-gateway' }
+      ]);
+    });
+  });
+
+  describe('matchesRepositoryFilter', () => {
+    it('should match globs against repository names or full names', () => {
+      const repo = { owner: 'my-org', repo: 'api.server' };
+
+      expect(matchesRepositoryFilter(repo, 'api*')).toBe(true);
+      expect(matchesRepositoryFilter(repo, 'API.?erver')).toBe(true);
+      expect(matchesRepositoryFilter(repo, 'apiXserver')).toBe(false);
+      expect(matchesRepositoryFilter(repo, 'my-org/*')).toBe(true);
+      expect(matchesRepositoryFilter(repo, 'other/*')).toBe(false);
+    });
+  });
+});
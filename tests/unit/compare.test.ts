@@ -0,0 +1,275 @@
+/**
+ * Unit tests for report comparison
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MetricsComparator,
+  ComparisonSide,
+  formatComparisonJSON,
+  formatComparisonMarkdown,
+  loadComparisonSide,
+  loadMetricsReport
+} from '../../src/compare';
+import { JSONReportFormatter, createMetricsReport } from '../../src/reporters';
+import { DataStorage } from '../../src/storage';
+import { MetricsSummary } from '../../src/types/core';
+
+describe('MetricsComparator', () => {
+  const comparator = new MetricsComparator();
+
+  const createSummary = (overrides: Partial<MetricsSummary> = {}): MetricsSummary => ({
+    totalPRs: 50,
+    totalComments: 200,
+    averageCommentsPerPR: 4,
+    positiveReactions: 40,
+    negativeReactions: 10,
+    repliedComments: 80,
+    resolvedComments: 100,
+    ...overrides
+  });
+
+  const createSide = (label: string, summary: MetricsSummary): ComparisonSide => ({
+    label,
+    repository: 'acme/app',
+    reviewer: 'coderabbitai[bot]',
+    period: { start: '2024-01-01T00:00:00.000Z', end: '2024-01-31T00:00:00.000Z' },
+    summary
+  });
+
+  describe('statistical tests', () => {
+    it('should compute two-proportion z-scores', () => {
+      expect(MetricsComparator.proportionZScore(40, 100, 60, 100)).toBeCloseTo(2.828, 3);
+      expect(MetricsComparator.proportionZScore(0, 10, 0, 10)).toBe(0);
+      expect(MetricsComparator.proportionZScore(1, 0, 1, 10)).toBeNull();
+    });
+
+    it('should compute z-scores for Poisson rates', () => {
+      expect(MetricsComparator.rateZScore(100, 50, 150, 50)).toBeCloseTo(3.162, 3);
+      expect(MetricsComparator.rateZScore(0, 10, 0, 10)).toBe(0);
+      expect(MetricsComparator.rateZScore(5, 0, 5, 10)).toBeNull();
+    });
+  });
+
+  describe('compare', () => {
+    it('should report absolute and relative deltas for every summary metric', () => {
+      const comparison = comparator.compare(
+        createSide('January', createSummary()),
+        createSide('February', createSummary({ totalPRs: 60, totalComments: 180, averageCommentsPerPR: 3 }))
+      );
+
+      const totalPRs = comparison.deltas.find(delta => delta.metric === 'totalPRs')!;
+      expect(totalPRs).toMatchObject({ baseline: 50, current: 60, absoluteChange: 10, relativeChange: 20, significant: null, assessment: 'changed' });
+      expect(comparison.deltas.map(delta => delta.metric)).toEqual([
+        'totalPRs', 'totalComments', 'averageCommentsPerPR', 'positiveReactions', 'negativeReactions',
+        'repliedComments', 'resolvedComments', 'replyRate', 'resolutionRate', 'positiveReactionRate', 'negativeReactionRate'
+      ]);
+      expect(comparison.baseline).toEqual({ label: 'January', repository: 'acme/app', reviewer: 'coderabbitai[bot]', period: createSide('', createSummary()).period });
+    });
+
+    it('should flag meaningful regressions and ignore noise', () => {
+      const comparison = comparator.compare(
+        createSide('before', createSummary()),
+        createSide('after', createSummary({ repliedComments: 40, resolvedComments: 104, negativeReactions: 30 }))
+      );
+      const byMetric = (metric: string) => comparison.deltas.find(delta => delta.metric === metric)!;
+
+      expect(byMetric('replyRate')).toMatchObject({ significant: true, assessment: 'regressed' });
+      expect(byMetric('negativeReactionRate')).toMatchObject({ significant: true, assessment: 'regressed' });
+      expect(byMetric('resolutionRate')).toMatchObject({ significant: false, assessment: 'unchanged' });
+    });
+
+    it('should compare acceptance only when both sides measured it', () => {
+      const withAcceptance = createSummary({ acceptance: { inlineComments: 100, actedOn: 30, acceptanceRate: 30 } });
+
+      const oneSided = comparator.compare(createSide('a', withAcceptance), createSide('b', createSummary()));
+      const bothSides = comparator.compare(
+        createSide('a', withAcceptance),
+        createSide('b', createSummary({ acceptance: { inlineComments: 100, actedOn: 50, acceptanceRate: 50 } }))
+      );
+
+      expect(oneSided.deltas.some(delta => delta.metric === 'acceptanceRate')).toBe(false);
+      expect(bothSides.deltas.find(delta => delta.metric === 'acceptanceRate')?.assessment).toBe('improved');
+    });
+
+    it('should compare review outcomes and latency percentiles', () => {
+      const latency = (medianHours: number) => ({
+        firstHumanReply: { count: 40, median: medianHours * 3600000, p75: 2 * medianHours * 3600000, p90: null },
+        resolution: { count: 0, median: null, p75: null, p90: null },
+        merge: { count: 40, median: 48 * 3600000, p75: 72 * 3600000, p90: 96 * 3600000 }
+      });
+      const reviews = (dismissed: number) => ({ totalReviews: 100, approved: 40, changesRequested: 40, commented: 20, dismissed, withSummary: 90 });
+
+      const comparison = comparator.compare(
+        createSide('before', createSummary({ reviews: reviews(4), latency: latency(2) })),
+        createSide('after', createSummary({ reviews: reviews(24), latency: latency(5) }))
+      );
+      const byMetric = (metric: string) => comparison.deltas.find(delta => delta.metric === metric);
+
+      expect(byMetric('approvalRate')).toMatchObject({ current: 40, significant: false, assessment: 'unchanged' });
+      expect(byMetric('dismissalRate')).toMatchObject({ baseline: 5, current: 30, significant: true, assessment: 'regressed' });
+      expect(byMetric('firstHumanReplyMedian')).toMatchObject({ unit: 'hours', baseline: 2, current: 5, absoluteChange: 3, significant: null, assessment: 'changed' });
+      expect(byMetric('firstHumanReplyP75')?.absoluteChange).toBe(6);
+      expect(byMetric('firstHumanReplyP90')).toBeUndefined();
+      expect(byMetric('resolutionMedian')).toBeUndefined();
+      expect(byMetric('mergeMedian')).toMatchObject({ baseline: 48, assessment: 'unchanged' });
+      expect(formatComparisonMarkdown(comparison)).toContain('| Time to First Human Reply (median) | 2.0h | 5.0h | +3.0h | +150.0% |  |');
+    });
+  });
+
+  describe('rendering', () => {
+    const comparison = comparator.compare(
+      createSide('before', createSummary()),
+      createSide('after', createSummary({ repliedComments: 40 }))
+    );
+
+    it('should list regressions in markdown', () => {
+      const markdown = formatComparisonMarkdown(comparison);
+
+      expect(markdown).toContain('- **Reply Rate**: 40.0% → 20.0% (-20.0 pp)');
+      expect(markdown).toContain('| Reply Rate | 40.0% | 20.0% | -20.0 pp | -50.0% | ⚠️ regressed |');
+      expect(markdown).toContain('| Pull Requests | 50 | 50 | 0 | 0.0% |  |');
+    });
+
+    it('should list regressions in JSON', () => {
+      const parsed = JSON.parse(formatComparisonJSON(comparison));
+
+      expect(parsed.regressions).toEqual(['replyRate']);
+      expect(parsed.deltas.find((delta: any) => delta.metric === 'replyRate')).toMatchObject({ baseline: 40, current: 20, relativeChange: -50 });
+    });
+  });
+});
+
+describe('loadComparisonSide', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'compare-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const period = { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-01-31T00:00:00Z') };
+  const summary: MetricsSummary = {
+    totalPRs: 2,
+    totalComments: 4,
+    averageCommentsPerPR: 2,
+    positiveReactions: 1,
+    negativeReactions: 0,
+    repliedComments: 2,
+    resolvedComments: 1
+  };
+  const detailed = {
+    prBreakdown: { byState: {}, byAuthor: {} },
+    commentBreakdown: { byType: {}, byResolution: {} },
+    reactionBreakdown: { byType: {}, positiveVsNegative: { positive: 0, negative: 0 } },
+    prDetails: []
+  };
+
+  it('should read the summary of a JSON report', async () => {
+    const filePath = path.join(tempDir, 'report.json');
+    fs.writeFileSync(filePath, new JSONReportFormatter().generate(
+      createMetricsReport('acme/app', period, 'coderabbitai[bot]', summary, detailed)
+    ));
+
+    const side = await loadComparisonSide(filePath, 'January');
+
+    expect(side).toEqual({
+      label: 'January',
+      repository: 'acme/app',
+      reviewer: 'coderabbitai[bot]',
+      period: { start: '2024-01-01T00:00:00.000Z', end: '2024-01-31T00:00:00.000Z' },
+      summary
+    });
+  });
+
+  it('should read review outcomes and latency back from a JSON report', async () => {
+    const filePath = path.join(tempDir, 'report.json');
+    const withOutcomes: MetricsSummary = {
+      ...summary,
+      reviews: { totalReviews: 3, approved: 1, changesRequested: 1, commented: 1, dismissed: 1, withSummary: 2 },
+      latency: {
+        firstHumanReply: { count: 2, median: 5400000, p75: 7200000, p90: 9000000 },
+        resolution: { count: 0, median: null, p75: null, p90: null },
+        merge: { count: 1, median: 86400000, p75: 86400000, p90: 86400000 }
+      }
+    };
+    fs.writeFileSync(filePath, new JSONReportFormatter().generate(
+      createMetricsReport('acme/app', period, 'coderabbitai[bot]', withOutcomes, detailed)
+    ));
+
+    const side = await loadComparisonSide(filePath, 'January');
+
+    expect(side.summary).toEqual(withOutcomes);
+  });
+
+  it('should select a reviewer from a multi-reviewer report', async () => {
+    const filePath = path.join(tempDir, 'report.json');
+    fs.writeFileSync(filePath, new JSONReportFormatter().generate(
+      createMetricsReport('acme/app', period, 'coderabbitai[bot], Copilot', summary, detailed, [
+        { reviewer: 'coderabbitai[bot]', summary, detailed },
+        { reviewer: 'Copilot', summary: { ...summary, totalComments: 1 }, detailed }
+      ])
+    ));
+
+    const side = await loadComparisonSide(filePath, 'Copilot', 'copilot');
+
+    expect(side.reviewer).toBe('Copilot');
+    expect(side.summary.totalComments).toBe(1);
+    await expect(loadComparisonSide(filePath, 'x', 'someone-else')).rejects.toThrow('Reviewer someone-else not found');
+  });
+
+  it('should analyze a collected dataset', async () => {
+    const filePath = path.join(tempDir, 'pr-data.json');
+    const comment = {
+      id: 1,
+      body: 'Consider a constant',
+      author: { login: 'coderabbitai[bot]', type: 'Bot' as const, id: 2 },
+      createdAt: new Date('2024-01-02T00:00:00Z'),
+      updatedAt: new Date('2024-01-02T00:00:00Z'),
+      isResolved: false,
+      reactions: [],
+      replies: []
+    };
+    await DataStorage.saveCollectedData(filePath, [{
+      id: 1,
+      number: 1,
+      title: 'PR',
+      state: 'merged',
+      createdAt: new Date('2024-01-02T00:00:00Z'),
+      updatedAt: new Date('2024-01-03T00:00:00Z'),
+      author: { login: 'dev', type: 'User', id: 1 },
+      comments: [comment]
+    }], [comment], { repository: 'acme/app', reviewer: 'coderabbitai[bot]', period });
+
+    const side = await loadComparisonSide(filePath, 'dataset');
+
+    expect(side.summary).toMatchObject({ totalPRs: 1, totalComments: 1, averageCommentsPerPR: 1 });
+  });
+
+  it('should reject files that are neither reports nor datasets', async () => {
+    const filePath = path.join(tempDir, 'other.json');
+    fs.writeFileSync(filePath, JSON.stringify({ hello: 'world' }));
+
+    await expect(loadComparisonSide(filePath, 'other')).rejects.toThrow('neither a JSON report nor a collected dataset');
+  });
+
+  it('should load a full report with its pull requests from JSON', async () => {
+    const filePath = path.join(tempDir, 'report.json');
+    const prDetails = [{ number: 3, title: 'Refactor', url: 'https://github.com/acme/app/pull/3', totalComments: 2, aiComments: 2, resolvedAiComments: 1, positiveReactions: 0, negativeReactions: 0 }];
+    fs.writeFileSync(filePath, new JSONReportFormatter().generate(
+      createMetricsReport('acme/app', period, 'coderabbitai[bot]', summary, { ...detailed, prDetails })
+    ));
+
+    const report = await loadMetricsReport(filePath);
+
+    expect(report.repository).toBe('acme/app');
+    expect(report.period).toEqual(period);
+    expect(report.summary).toEqual(summary);
+    expect(report.detailed.prDetails).toEqual(prDetails);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for bounded concurrency utilities
+ */
+
+import { ConcurrencyLimiter, mapWithConcurrency } from '../../src/concurrency';
+
+describe('ConcurrencyLimiter', () => {
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('should never run more tasks than the limit at once', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(value => limiter.run(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      active--;
+      return value * 2;
+    })));
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('should delay tasks while paused', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    limiter.pauseUntil(new Date(Date.now() + 30));
+
+    const startedAt = Date.now();
+    await limiter.run(async () => undefined);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(25);
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new ConcurrencyLimiter(0)).toThrow('Concurrency must be a positive integer');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should preserve input order regardless of completion order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await new Promise(resolve => setTimeout(resolve, ms));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('should handle empty input', async () => {
+    await expect(mapWithConcurrency([], 4, async item => item)).resolves.toEqual([]);
+  });
+});
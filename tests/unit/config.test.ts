@@ -2,7 +2,7 @@
  * Configuration validation tests
  */
 
-import { ConfigurationManager, ConfigurationError } from '../../src/config';
+import { ConfigurationManager, ConfigurationError, getApiBaseUrl, getWebBaseUrl, getGraphQLUrl } from '../../src/config';
 
 // Mock dotenv to prevent loading .env file during tests
 jest.mock('dotenv', () => ({
@@ -22,6 +22,13 @@ describe('ConfigurationManager', () => {
     delete process.env.GITHUB_REPOSITORY_NAME;
     delete process.env.GITHUB_TOKEN;
     delete process.env.REVIEWER_USERNAME;
+    delete process.env.GITHUB_ORGANIZATION;
+    delete process.env.GITHUB_REPOSITORIES;
+    delete process.env.REPOSITORY_FILTER;
+    delete process.env.REPOSITORY_TOPIC;
+    delete process.env.GITHUB_API_CONCURRENCY;
+    delete process.env.GITHUB_API_URL;
+    delete process.env.GITHUB_SERVER_URL;
   });
 
   afterEach(() => {
@@ -98,5 +105,95 @@ describe('ConfigurationManager', () => {
       // Assert
       expect(config.analysis.reviewerUserName).toBe('coderabbitai[bot]');
     });
+
+    it('should accept an organization scope instead of a single repository', async () => {
+      // Arrange
+      process.env.GITHUB_TOKEN = 'test-token';
+      process.env.GITHUB_ORGANIZATION = 'my-org';
+      process.env.REPOSITORY_FILTER = 'api-*';
+
+      // Act
+      const configManager = new ConfigurationManager();
+      const config = await configManager.loadConfig();
+
+      // Assert
+      expect(config.scope).toEqual({ organization: 'my-org', nameFilter: 'api-*' });
+    });
+
+    it('should parse a comma-separated repository list', async () => {
+      // Arrange
+      process.env.GITHUB_TOKEN = 'test-token';
+      process.env.GITHUB_REPOSITORIES = 'org/one, org/two';
+
+      // Act
+      const configManager = new ConfigurationManager();
+      const config = await configManager.loadConfig();
+
+      // Assert
+      expect(config.scope?.repositories).toEqual([
+        { owner: 'org', repo: 'one' },
+        { owner: 'org', repo: 'two' }
+      ]);
+    });
+
+    it('should reject malformed repositories in the list', async () => {
+      // Arrange
+      process.env.GITHUB_TOKEN = 'test-token';
+      process.env.GITHUB_REPOSITORIES = 'org/one,not-a-repo';
+
+      // Act & Assert
+      const configManager = new ConfigurationManager();
+      await expect(configManager.loadConfig()).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should read API concurrency and reject non-positive values', async () => {
+      // Arrange
+      process.env.GITHUB_REPOSITORY = 'owner/repo';
+      process.env.GITHUB_TOKEN = 'test-token';
+      process.env.GITHUB_API_CONCURRENCY = '4';
+
+      // Act
+      const config = await new ConfigurationManager().loadConfig();
+
+      // Assert
+      expect(config.api?.concurrency).toBe(4);
+
+      process.env.GITHUB_API_CONCURRENCY = '0';
+      await expect(new ConfigurationManager().loadConfig()).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should read GitHub Enterprise Server URLs from the Actions environment', async () => {
+      // Arrange
+      process.env.GITHUB_REPOSITORY = 'owner/repo';
+      process.env.GITHUB_TOKEN = 'test-token';
+      process.env.GITHUB_API_URL = 'https://ghe.example.com/api/v3';
+      process.env.GITHUB_SERVER_URL = 'https://ghe.example.com';
+
+      // Act
+      const config = await new ConfigurationManager().loadConfig();
+
+      // Assert
+      expect(config.api).toMatchObject({ apiBaseUrl: 'https://ghe.example.com/api/v3', webBaseUrl: 'https://ghe.example.com' });
+
+      process.env.GITHUB_API_URL = 'ghe.example.com';
+      await expect(new ConfigurationManager().loadConfig()).rejects.toThrow(ConfigurationError);
+    });
+  });
+
+  describe('base URLs', () => {
+    it('should default to github.com', () => {
+      expect(getApiBaseUrl()).toBe('https://api.github.com');
+      expect(getWebBaseUrl()).toBe('https://github.com');
+      expect(getGraphQLUrl()).toBe('https://api.github.com/graphql');
+    });
+
+    it('should derive web and GraphQL URLs from a GitHub Enterprise Server API URL', () => {
+      const api = { apiBaseUrl: 'https://ghe.example.com/api/v3/' };
+
+      expect(getApiBaseUrl(api)).toBe('https://ghe.example.com/api/v3');
+      expect(getWebBaseUrl(api)).toBe('https://ghe.example.com');
+      expect(getGraphQLUrl(api)).toBe('https://ghe.example.com/api/graphql');
+      expect(getWebBaseUrl({ ...api, webBaseUrl: 'https://code.example.com/' })).toBe('https://code.example.com');
+    });
   });
-});
\ No newline at end of file
+});
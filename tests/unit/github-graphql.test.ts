@@ -0,0 +1,169 @@
+/**
+ * Unit tests for the GraphQL-backed GitHub API client
+ */
+
+import { GitHubClient } from '../../src/github';
+import { GraphQLGitHubClient, createGitHubClient } from '../../src/github-graphql';
+
+describe('GraphQLGitHubClient', () => {
+  const repo = { owner: 'test', repo: 'test' };
+  let client: GraphQLGitHubClient;
+
+  const response = (data: any) => ({ status: 200, headers: {}, data: { data } });
+  const pageInfo = (hasNextPage = false, endCursor: string | null = null) => ({ hasNextPage, endCursor });
+  const bot = { login: 'coderabbitai', __typename: 'Bot', databaseId: 2 };
+  const human = { login: 'developer', __typename: 'User', databaseId: 1 };
+
+  const commentNode = (databaseId: number, author: any, createdAt: string, extra: any = {}) => ({
+    id: `node-${databaseId}`,
+    databaseId,
+    body: `Comment ${databaseId}`,
+    createdAt,
+    updatedAt: createdAt,
+    author,
+    reactions: { pageInfo: pageInfo(), nodes: [] },
+    ...extra
+  });
+
+  beforeEach(() => {
+    client = new GraphQLGitHubClient();
+    (client as any).authenticated = true;
+  });
+
+  describe('getPullRequests', () => {
+    it('should convert pull requests and stop at the updatedSince cutoff', async () => {
+      const post = jest.spyOn((client as any).client, 'post').mockResolvedValue(response({
+        repository: {
+          pullRequests: {
+            pageInfo: pageInfo(true, 'cursor-1'),
+            nodes: [
+              { databaseId: 11, number: 1, title: 'Merged', state: 'MERGED', createdAt: '2024-01-05T00:00:00Z', updatedAt: '2024-01-20T00:00:00Z', mergedAt: '2024-01-06T00:00:00Z', author: human },
+              { databaseId: 12, number: 2, title: 'Open', state: 'OPEN', createdAt: '2024-01-08T00:00:00Z', updatedAt: '2024-01-15T00:00:00Z', mergedAt: null, author: bot },
+              { databaseId: 13, number: 3, title: 'Stale', state: 'CLOSED', createdAt: '2024-01-02T00:00:00Z', updatedAt: '2024-01-09T00:00:00Z', mergedAt: null, author: null }
+            ]
+          }
+        }
+      }));
+
+      const prs = await client.getPullRequests(
+        repo,
+        { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-01-31T00:00:00Z') },
+        new Date('2024-01-10T00:00:00Z')
+      );
+
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(prs.map(pr => [pr.id, pr.state])).toEqual([[11, 'merged'], [12, 'open']]);
+      expect(prs[0].mergedAt).toEqual(new Date('2024-01-06T00:00:00Z'));
+      expect(prs[1].author).toEqual({ login: 'coderabbitai[bot]', type: 'Bot', id: 2 });
+    });
+  });
+
+  describe('getComments', () => {
+    it('should return thread comments with resolution state and reactions, then issue comments', async () => {
+      const post = jest.spyOn((client as any).client, 'post')
+        .mockResolvedValueOnce(response({
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                pageInfo: pageInfo(),
+                nodes: [{
+                  id: 'thread-1',
+                  isResolved: true,
+                  isOutdated: false,
+                  resolvedBy: { login: 'developer', databaseId: 1 },
+                  comments: {
+                    pageInfo: pageInfo(),
+                    nodes: [
+                      commentNode(101, bot, '2024-01-02T00:00:00Z', {
+                        path: 'src/index.ts',
+                        position: 4,
+                        replyTo: null,
+                        reactions: {
+                          pageInfo: pageInfo(true, 'reaction-cursor'),
+                          nodes: [{ content: 'THUMBS_UP', createdAt: '2024-01-02T01:00:00Z', user: { login: 'developer', databaseId: 1 } }]
+                        }
+                      }),
+                      commentNode(102, human, '2024-01-02T02:00:00Z', { path: 'src/index.ts', position: 4, replyTo: { databaseId: 101 } })
+                    ]
+                  }
+                }]
+              },
+              comments: {
+                pageInfo: pageInfo(),
+                nodes: [commentNode(201, bot, '2024-01-01T00:00:00Z')]
+              }
+            }
+          }
+        }))
+        .mockResolvedValueOnce(response({
+          node: {
+            reactions: {
+              pageInfo: pageInfo(),
+              nodes: [{ content: 'ROCKET', createdAt: '2024-01-02T03:00:00Z', user: { login: 'reviewer', databaseId: 3 } }]
+            }
+          }
+        }));
+
+      const comments = await client.getComments(repo, 1);
+
+      expect(post).toHaveBeenCalledTimes(2);
+      expect((post.mock.calls[1][1] as any).variables).toEqual({ id: 'node-101', cursor: 'reaction-cursor' });
+      expect(comments.map(comment => comment.id)).toEqual([101, 102, 201]);
+      expect(comments[0]).toMatchObject({
+        author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+        path: 'src/index.ts',
+        position: 4,
+        threadId: 'thread-1',
+        isResolved: true,
+        resolvedBy: { login: 'developer', type: 'User', id: 1 }
+      });
+      expect(comments[0].reactions.map(reaction => reaction.type)).toEqual(['thumbs_up', 'rocket']);
+      expect(comments[1].inReplyToId).toBe(101);
+      expect(comments[2].isResolved).toBe(false);
+      expect(comments[2].threadId).toBeUndefined();
+    });
+
+    it('should keep paging review threads after issue comments are exhausted', async () => {
+      const thread = (id: string, databaseId: number) => ({
+        id,
+        isResolved: false,
+        isOutdated: false,
+        resolvedBy: null,
+        comments: { pageInfo: pageInfo(), nodes: [commentNode(databaseId, bot, `2024-01-0${databaseId}T00:00:00Z`)] }
+      });
+      const post = jest.spyOn((client as any).client, 'post')
+        .mockResolvedValueOnce(response({
+          repository: {
+            pullRequest: {
+              reviewThreads: { pageInfo: pageInfo(true, 'thread-cursor'), nodes: [thread('thread-1', 1)] },
+              comments: { pageInfo: pageInfo(), nodes: [] }
+            }
+          }
+        }))
+        .mockResolvedValueOnce(response({
+          repository: {
+            pullRequest: {
+              reviewThreads: { pageInfo: pageInfo(), nodes: [thread('thread-2', 2)] }
+            }
+          }
+        }));
+
+      const comments = await client.getComments(repo, 1);
+
+      expect((post.mock.calls[1][1] as any).variables).toMatchObject({
+        threadCursor: 'thread-cursor',
+        withThreads: true,
+        withComments: false
+      });
+      expect(comments.map(comment => comment.threadId)).toEqual(['thread-1', 'thread-2']);
+    });
+  });
+
+  describe('createGitHubClient', () => {
+    it('should select the client by API configuration', () => {
+      expect(createGitHubClient({ client: 'graphql' })).toBeInstanceOf(GraphQLGitHubClient);
+      expect(createGitHubClient()).not.toBeInstanceOf(GraphQLGitHubClient);
+      expect(createGitHubClient({ client: 'rest' })).toBeInstanceOf(GitHubClient);
+    });
+  });
+});
@@ -2,6 +2,9 @@
  * Unit tests for GitHub API client
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { GitHubClient } from '../../src/github';
 import { AuthConfig } from '../../src/config';
 
@@ -54,4 +57,413 @@ describe('GitHubClient', () => {
       expect(typeof client.getRateLimit).toBe('function');
     });
   });
-});
\ No newline at end of file
+
+  describe('Review thread state', () => {
+    const repo = { owner: 'test', repo: 'test' };
+
+    beforeEach(() => {
+      (client as any).authenticated = true;
+    });
+
+    it('should map review comments to their thread resolution state', async () => {
+      const post = jest.spyOn((client as any).client, 'post').mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: {
+          data: {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                  nodes: [
+                    {
+                      id: 'thread-1',
+                      isResolved: true,
+                      isOutdated: false,
+                      resolvedBy: { login: 'developer', databaseId: 42 },
+                      comments: { nodes: [{ databaseId: 101 }, { databaseId: 102 }] }
+                    },
+                    {
+                      id: 'thread-2',
+                      isResolved: false,
+                      isOutdated: true,
+                      resolvedBy: null,
+                      comments: { nodes: [{ databaseId: 201 }] }
+                    }
+                  ]
+                }
+              }
+            }
+          }
+        }
+      });
+
+      const states = await client.getReviewThreadStates(repo, 1);
+
+      expect(post).toHaveBeenCalledWith('https://api.github.com/graphql', expect.objectContaining({
+        variables: expect.objectContaining({ owner: 'test', repo: 'test', number: 1 })
+      }));
+      expect(states.get(101)).toEqual({
+        threadId: 'thread-1',
+        isResolved: true,
+        isOutdated: false,
+        resolvedBy: { login: 'developer', type: 'User', id: 42 }
+      });
+      expect(states.get(102)?.threadId).toBe('thread-1');
+      expect(states.get(201)).toEqual({ threadId: 'thread-2', isResolved: false, isOutdated: true });
+    });
+
+    it('should follow review thread pagination cursors', async () => {
+      const page = (id: string, databaseId: number, hasNextPage: boolean) => ({
+        status: 200,
+        headers: {},
+        data: {
+          data: {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  pageInfo: { hasNextPage, endCursor: hasNextPage ? 'cursor-1' : null },
+                  nodes: [{ id, isResolved: false, isOutdated: false, resolvedBy: null, comments: { nodes: [{ databaseId }] } }]
+                }
+              }
+            }
+          }
+        }
+      });
+      const post = jest.spyOn((client as any).client, 'post')
+        .mockResolvedValueOnce(page('thread-1', 1, true))
+        .mockResolvedValueOnce(page('thread-2', 2, false));
+
+      const states = await client.getReviewThreadStates(repo, 1);
+
+      expect(post).toHaveBeenCalledTimes(2);
+      expect((post.mock.calls[1][1] as any).variables.cursor).toBe('cursor-1');
+      expect(states.size).toBe(2);
+    });
+
+    it('should fetch the remaining comments of threads with more than one page', async () => {
+      const post = jest.spyOn((client as any).client, 'post')
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: {},
+          data: {
+            data: {
+              repository: {
+                pullRequest: {
+                  reviewThreads: {
+                    pageInfo: { hasNextPage: false, endCursor: null },
+                    nodes: [{
+                      id: 'thread-1',
+                      isResolved: true,
+                      isOutdated: false,
+                      resolvedBy: null,
+                      comments: { pageInfo: { hasNextPage: true, endCursor: 'comments-1' }, nodes: [{ databaseId: 1 }] }
+                    }]
+                  }
+                }
+              }
+            }
+          }
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: {},
+          data: { data: { node: { comments: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [{ databaseId: 101 }] } } } }
+        });
+
+      const states = await client.getReviewThreadStates(repo, 1);
+
+      expect((post.mock.calls[1][1] as any).variables).toEqual({ id: 'thread-1', cursor: 'comments-1' });
+      expect(states.get(101)).toEqual({ threadId: 'thread-1', isResolved: true, isOutdated: false });
+    });
+
+    it('should fail the PR when its review threads cannot be fetched', async () => {
+      jest.spyOn((client as any).client, 'get').mockImplementation(async (url: any, config: any) => ({
+        status: 200,
+        headers: {},
+        data: url.endsWith('/pulls/1/comments') && config?.params?.page === 1
+          ? [{ id: 101, body: 'Fix this', user: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 }, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z', path: 'src/a.ts' }]
+          : []
+      }));
+      jest.spyOn((client as any).client, 'post').mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: { errors: [{ message: 'Something went wrong' }] }
+      });
+
+      await expect(client.getComments(repo, 1)).rejects.toThrow('Could not fetch review threads for PR #1');
+    });
+
+    it('should reject GraphQL errors', async () => {
+      jest.spyOn((client as any).client, 'post').mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: { errors: [{ message: 'Resource not accessible by integration' }] }
+      });
+
+      await expect(client.getReviewThreadStates(repo, 1))
+        .rejects
+        .toThrow('GraphQL query failed: Resource not accessible by integration');
+    });
+  });
+
+  describe('Commented lines', () => {
+    const hunk = '@@ -10,4 +10,5 @@ export function run() {\n const a = 1;\n-const b = 2;\n+const b = 3;\n+const c = 4;\n return a + b;';
+
+    it('should take the commented lines from the end of the diff hunk', () => {
+      const extract = (client as any).extractCommentedLines.bind(client);
+
+      expect(extract(hunk, null, 13)).toEqual(['return a + b;']);
+      expect(extract(hunk, 11, 13)).toEqual(['const b = 3;', 'const c = 4;', 'return a + b;']);
+      expect(extract(hunk, 1, 13)).toBeUndefined();
+    });
+  });
+
+  describe('Concurrency', () => {
+    const repo = { owner: 'test', repo: 'test' };
+
+    it('should fetch reactions in parallel without exceeding the concurrency limit', async () => {
+      const concurrentClient = new GitHubClient({ concurrency: 2 });
+      (concurrentClient as any).authenticated = true;
+      jest.spyOn((concurrentClient as any).client, 'post').mockResolvedValue({ status: 200, headers: {}, data: { data: {} } });
+
+      let active = 0;
+      let maxActive = 0;
+      const issueComments = [1, 2, 3, 4].map(id => ({
+        id,
+        body: `Comment ${id}`,
+        user: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z'
+      }));
+      jest.spyOn((concurrentClient as any).client, 'get').mockImplementation(async (url: any, config: any) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+
+        const firstPage = config?.params?.page === 1;
+        const data = url.endsWith('/issues/1/comments') && firstPage ? issueComments : [];
+        return { status: 200, headers: {}, data };
+      });
+
+      const comments = await concurrentClient.getComments(repo, 1);
+
+      expect(comments.map(comment => comment.id)).toEqual([1, 2, 3, 4]);
+      expect(maxActive).toBe(2);
+    });
+  });
+
+  describe('Commits', () => {
+    it('should fetch changed files only for commits made since the given time', async () => {
+      (client as any).authenticated = true;
+      const get = jest.spyOn((client as any).client, 'get').mockImplementation(async (url: any, config: any) => {
+        if (url.endsWith('/pulls/1/commits')) {
+          return { status: 200, headers: {}, data: config.params.page === 1 ? [
+            { sha: 'aaa', commit: { message: 'Initial', committer: { date: '2024-01-01T00:00:00Z' } }, author: null },
+            { sha: 'bbb', commit: { message: 'Apply review', committer: { date: '2024-01-03T00:00:00Z' } }, author: { login: 'dev', type: 'User', id: 7 } }
+          ] : [] };
+        }
+        return { status: 200, headers: {}, data: { files: [
+          { filename: 'src/new.ts', previous_filename: 'src/old.ts', status: 'renamed', patch: '@@ -10,3 +10,4 @@ class A {\n-x\n+y\n+z\n@@ -40 +41 @@\n-a\n+b' },
+          { filename: 'logo.png', status: 'modified' }
+        ] } };
+      });
+
+      const commits = await client.getCommits({ owner: 'test', repo: 'test' }, 1, new Date('2024-01-02T00:00:00Z'));
+
+      expect(get.mock.calls.filter(call => String(call[0]).includes('/commits/'))).toHaveLength(1);
+      expect(commits[0]).toEqual({ sha: 'aaa', message: 'Initial', committedAt: new Date('2024-01-01T00:00:00Z') });
+      expect(commits[1].author?.login).toBe('dev');
+      expect(commits[1].files).toEqual([
+        {
+          filename: 'src/new.ts',
+          previousFilename: 'src/old.ts',
+          status: 'renamed',
+          hunks: [
+            { oldStart: 10, oldLines: 3, newStart: 10, newLines: 4 },
+            { oldStart: 40, oldLines: 1, newStart: 41, newLines: 1 }
+          ]
+        },
+        { filename: 'logo.png', status: 'modified' }
+      ]);
+    });
+  });
+
+  describe('Pull request files', () => {
+    it('should keep only the added lines of each patch', async () => {
+      (client as any).authenticated = true;
+      jest.spyOn((client as any).client, 'get').mockImplementation(async (_url: any, config: any) => ({
+        status: 200,
+        headers: {},
+        data: config.params.page === 1 ? [
+          { filename: 'src/a.ts', status: 'modified', patch: '@@ -1,2 +1,2 @@\n context\n-old();\n+newer();' },
+          { filename: 'big.json', status: 'added' }
+        ] : []
+      }));
+
+      const files = await client.getPullRequestFiles({ owner: 'test', repo: 'test' }, 1);
+
+      expect(files).toEqual([
+        { filename: 'src/a.ts', status: 'modified', addedLines: ['newer();'] },
+        { filename: 'big.json', status: 'added' }
+      ]);
+    });
+  });
+
+  describe('Reviews', () => {
+    it('should restore the submitted state of dismissed reviews from dismissal events', async () => {
+      (client as any).authenticated = true;
+      const bot = { login: 'coderabbitai[bot]', type: 'Bot', id: 2 };
+      const get = jest.spyOn((client as any).client, 'get').mockImplementation(async (url: any, config: any) => {
+        const firstPage = config?.params?.page === 1;
+        if (url.endsWith('/pulls/1/reviews')) {
+          return { status: 200, headers: {}, data: firstPage ? [
+            { id: 10, body: 'Walkthrough', user: bot, state: 'DISMISSED', submitted_at: '2024-01-01T00:00:00Z', commit_id: 'abc' },
+            { id: 11, body: '', user: bot, state: 'COMMENTED', submitted_at: '2024-01-02T00:00:00Z' }
+          ] : [] };
+        }
+        return { status: 200, headers: {}, data: firstPage ? [
+          { event: 'labeled' },
+          { event: 'review_dismissed', actor: { login: 'maintainer', type: 'User', id: 5 }, created_at: '2024-01-03T00:00:00Z', dismissed_review: { state: 'changes_requested', review_id: 10 } }
+        ] : [] };
+      });
+
+      const reviews = await client.getReviews({ owner: 'test', repo: 'test' }, 1);
+
+      expect(get.mock.calls.some(call => String(call[0]).endsWith('/issues/1/events'))).toBe(true);
+      expect(reviews[0]).toEqual({
+        id: 10,
+        body: 'Walkthrough',
+        author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+        state: 'changes_requested',
+        submittedAt: new Date('2024-01-01T00:00:00Z'),
+        commitId: 'abc',
+        commentIds: [],
+        dismissed: true,
+        dismissedBy: { login: 'maintainer', type: 'User', id: 5 },
+        dismissedAt: new Date('2024-01-03T00:00:00Z')
+      });
+      expect(reviews[1].state).toBe('commented');
+    });
+  });
+
+  describe('GitHub Enterprise Server', () => {
+    it('should send REST and GraphQL requests to the configured instance', async () => {
+      const enterpriseClient = new GitHubClient({ apiBaseUrl: 'https://ghe.example.com/api/v3' });
+      (enterpriseClient as any).authenticated = true;
+      const post = jest.spyOn((enterpriseClient as any).client, 'post').mockResolvedValue({ status: 200, headers: {}, data: { data: {} } });
+
+      await enterpriseClient.getReviewThreadStates({ owner: 'test', repo: 'test' }, 1);
+
+      expect((enterpriseClient as any).client.defaults.baseURL).toBe('https://ghe.example.com/api/v3');
+      expect(post.mock.calls[0][0]).toBe('https://ghe.example.com/api/graphql');
+    });
+  });
+
+  describe('Comments', () => {
+    const issue = { owner: 'test', repo: 'test', number: 7, type: 'issue' as const };
+    const discussion = { ...issue, type: 'discussion' as const };
+
+    it('should list issue comments through the GraphQL API, following pages', async () => {
+      (client as any).authenticated = true;
+      const post = jest.spyOn((client as any).client, 'post').mockImplementation(async (_url: any, payload: any) => {
+        const cursor = payload.variables.cursor;
+        const comments = {
+          pageInfo: { hasNextPage: cursor === null, endCursor: 'c1' },
+          nodes: [cursor === null
+            ? { id: 'IC_1', databaseId: 1, body: 'hello', url: 'url-1', viewerDidAuthor: false }
+            : { id: 'IC_2', databaseId: 2, body: 'report', url: 'url-2', viewerDidAuthor: true }]
+        };
+        return { status: 200, headers: {}, data: { data: { repository: { issueOrPullRequest: { comments } } } } };
+      });
+
+      expect(await client.listComments(issue)).toEqual([
+        { id: '1', body: 'hello', url: 'url-1', viewerDidAuthor: false },
+        { id: '2', body: 'report', url: 'url-2', viewerDidAuthor: true }
+      ]);
+      expect((post.mock.calls[1][1] as any).variables).toEqual({ owner: 'test', repo: 'test', number: 7, cursor: 'c1' });
+    });
+
+    it('should create and update issue comments through the REST API', async () => {
+      (client as any).authenticated = true;
+      const post = jest.spyOn((client as any).client, 'post').mockResolvedValue({ status: 201, headers: {}, data: { id: 2, body: 'new', html_url: 'url-2' } });
+      const patch = jest.spyOn((client as any).client, 'patch').mockResolvedValue({ status: 200, headers: {}, data: { id: 1, body: 'edited', html_url: 'url-1' } });
+
+      expect(await client.createComment(issue, 'new')).toEqual({ id: '2', body: 'new', url: 'url-2', viewerDidAuthor: true });
+      expect(await client.updateComment(issue, '1', 'edited')).toEqual({ id: '1', body: 'edited', url: 'url-1', viewerDidAuthor: true });
+      expect(post).toHaveBeenCalledWith('/repos/test/test/issues/7/comments', { body: 'new' });
+      expect(patch).toHaveBeenCalledWith('/repos/test/test/issues/comments/1', { body: 'edited' });
+    });
+
+    it('should comment on discussions through the GraphQL API', async () => {
+      (client as any).authenticated = true;
+      const post = jest.spyOn((client as any).client, 'post').mockImplementation(async (_url: any, payload: any) => {
+        if (payload.query.includes('addDiscussionComment')) {
+          return { status: 200, headers: {}, data: { data: { addDiscussionComment: { comment: { id: 'DC_2', body: 'new', url: 'url-2', viewerDidAuthor: true } } } } };
+        }
+        return { status: 200, headers: {}, data: { data: { repository: { discussion: { id: 'D_1' } } } } };
+      });
+
+      const comment = await client.createComment(discussion, 'new');
+
+      expect(comment).toEqual({ id: 'DC_2', body: 'new', url: 'url-2', viewerDidAuthor: true });
+      expect((post.mock.calls[1][1] as any).variables).toEqual({ discussionId: 'D_1', body: 'new' });
+    });
+
+    it('should reject missing discussions', async () => {
+      (client as any).authenticated = true;
+      jest.spyOn((client as any).client, 'post').mockResolvedValue({ status: 200, headers: {}, data: { data: { repository: { discussion: null } } } });
+
+      await expect(client.listComments(discussion)).rejects.toThrow('Discussion #7 not found in test/test');
+    });
+  });
+
+  describe('Response cache', () => {
+    let cacheDir: string;
+
+    const pages = (status: number, headers: Record<string, string>, data: any[]) => async (_url: any, config: any) => ({
+      status,
+      headers,
+      data: config?.params?.page === 1 ? data : []
+    });
+
+    beforeEach(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'github-cache-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should revalidate cached pages with If-None-Match and reuse them on 304', async () => {
+      const cachedClient = new GitHubClient({ cacheDir });
+      (cachedClient as any).authenticated = true;
+      const repositories = [{ owner: { login: 'org' }, name: 'api', topics: [], archived: false }];
+      const get = jest.spyOn((cachedClient as any).client, 'get')
+        .mockImplementation(pages(200, { etag: '"v1"' }, repositories) as any);
+
+      await cachedClient.listOrganizationRepositories('org');
+
+      get.mockImplementation(pages(304, {}, []) as any);
+      const result = await cachedClient.listOrganizationRepositories('org');
+
+      expect(result).toEqual([{ owner: 'org', repo: 'api', topics: [], archived: false }]);
+      expect((get.mock.calls[2][1] as any).headers['If-None-Match']).toBe('"v1"');
+      expect(cachedClient.getCacheStats()).toEqual({ hits: 0, revalidated: 2, misses: 2 });
+    });
+
+    it('should serve fresh entries without a request within the TTL', async () => {
+      const cachedClient = new GitHubClient({ cacheDir, cacheTtl: 60 });
+      (cachedClient as any).authenticated = true;
+      const get = jest.spyOn((cachedClient as any).client, 'get')
+        .mockImplementation(pages(200, { etag: '"v1"' }, [{ owner: { login: 'org' }, name: 'api' }]) as any);
+
+      await cachedClient.listOrganizationRepositories('org');
+      await cachedClient.listOrganizationRepositories('org');
+
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(cachedClient.getCacheStats()?.hits).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Unit tests for metrics calculation
+ */
+
+import { MetricsCalculator, anonymizeAuthors, isTrendBucket } from '../../src/metrics';
+import { PullRequest, Comment, Review } from '../../src/types/core';
+
+describe('MetricsCalculator', () => {
+  let calculator: MetricsCalculator;
+
+  const createPR = (overrides: Partial<PullRequest> = {}): PullRequest => ({
+    id: 1,
+    number: 1,
+    title: 'Test PR',
+    state: 'merged',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-02'),
+    author: { login: 'developer', type: 'User', id: 1 },
+    comments: [],
+    ...overrides
+  });
+
+  const createComment = (overrides: Partial<Comment> = {}): Comment => ({
+    id: 1,
+    body: 'Consider adding a test',
+    author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    updatedAt: new Date('2024-01-01T10:00:00Z'),
+    isResolved: false,
+    reactions: [],
+    replies: [],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    calculator = new MetricsCalculator();
+  });
+
+  describe('repository breakdown', () => {
+    it('should break down metrics per repository for multi-repository datasets', () => {
+      const commentA = createComment({ id: 1, repository: 'org/a', isResolved: true });
+      const commentB = createComment({ id: 2, repository: 'org/b' });
+      const commentC = createComment({ id: 3, repository: 'org/b' });
+      const prs = [
+        createPR({ id: 1, number: 1, repository: 'org/a', comments: [commentA] }),
+        createPR({ id: 2, number: 1, repository: 'org/b', comments: [commentB, commentC] })
+      ];
+
+      const detailed = calculator.calculateDetailed(prs, [commentA, commentB, commentC], 'org/*');
+
+      expect(detailed.repositoryBreakdown?.['org/a']).toMatchObject({ totalPRs: 1, totalComments: 1, resolvedComments: 1 });
+      expect(detailed.repositoryBreakdown?.['org/b']).toMatchObject({ totalPRs: 1, totalComments: 2, averageCommentsPerPR: 2 });
+      expect(detailed.prDetails.map(pr => pr.url)).toEqual([
+        'https://github.com/org/a/pull/1',
+        'https://github.com/org/b/pull/1'
+      ]);
+    });
+
+    it('should omit the breakdown for single-repository datasets', () => {
+      const comment = createComment({ repository: 'org/a' });
+      const detailed = calculator.calculateDetailed(
+        [createPR({ repository: 'org/a', comments: [comment] })],
+        [comment],
+        'org/a'
+      );
+
+      expect(detailed.repositoryBreakdown).toBeUndefined();
+    });
+
+    it('should link pull requests on the configured web base URL', () => {
+      const enterpriseCalculator = new MetricsCalculator({ webBaseUrl: 'https://ghe.example.com/' });
+      const comment = createComment({});
+
+      const detailed = enterpriseCalculator.calculateDetailed([createPR({ number: 7, comments: [comment] })], [comment], 'team/service');
+
+      expect(detailed.prDetails[0].url).toBe('https://ghe.example.com/team/service/pull/7');
+    });
+  });
+
+  describe('file breakdown', () => {
+    const thumbsDown = { type: 'thumbs_down' as const, user: { login: 'developer', type: 'User' as const, id: 1 }, createdAt: new Date('2024-01-02') };
+
+    it('should aggregate inline comments by file, directory prefix and extension', () => {
+      const comments = [
+        createComment({ id: 1, path: 'src/api/users.ts', isResolved: true }),
+        createComment({ id: 2, path: 'src/api/users.ts', reactions: [thumbsDown] }),
+        createComment({ id: 3, path: 'src/ui/App.tsx', replies: [createComment({ id: 4 })] }),
+        createComment({ id: 5, path: 'README.md' }),
+        createComment({ id: 6, path: 'Makefile' }),
+        createComment({ id: 7 })
+      ];
+
+      const breakdown = calculator.calculateFileBreakdown(comments);
+
+      expect(breakdown.byFile[0]).toEqual({
+        path: 'src/api/users.ts', comments: 2, resolved: 1, resolutionRate: 50, replied: 0, negativeReactions: 1
+      });
+      expect(breakdown.byFile).toHaveLength(4);
+      expect(breakdown.byDirectory.map(stats => [stats.path, stats.comments])).toEqual([
+        ['src/', 3], ['src/api/', 2], ['src/ui/', 1]
+      ]);
+      expect(breakdown.byExtension.map(stats => [stats.path, stats.language, stats.comments])).toEqual([
+        ['.ts', 'TypeScript', 2], ['(none)', 'Other', 1], ['.md', 'Markdown', 1], ['.tsx', 'TypeScript', 1]
+      ]);
+      expect(breakdown.byExtension.find(stats => stats.path === '.tsx')?.replied).toBe(1);
+    });
+
+    it('should keep paths apart per repository in multi-repository datasets', () => {
+      const comments = [
+        createComment({ id: 1, path: 'src/index.ts', repository: 'org/a' }),
+        createComment({ id: 2, path: 'src/index.ts', repository: 'org/b' })
+      ];
+
+      const breakdown = calculator.calculateFileBreakdown(comments, true);
+
+      expect(breakdown.byFile.map(stats => stats.repository)).toEqual(['org/a', 'org/b']);
+      expect(breakdown.byExtension).toEqual([expect.objectContaining({ path: '.ts', comments: 2 })]);
+    });
+
+    it('should only add the breakdown when comments have paths', () => {
+      const general = createComment({ id: 1 });
+      const inline = createComment({ id: 2, path: 'src/a.ts' });
+
+      expect(calculator.calculateDetailed([createPR({ comments: [general] })], [general]).fileBreakdown).toBeUndefined();
+      expect(calculator.calculateDetailed([createPR({ comments: [inline] })], [inline]).fileBreakdown?.byFile).toHaveLength(1);
+    });
+  });
+
+  describe('author breakdown', () => {
+    const alice = { login: 'alice', type: 'User' as const, id: 10 };
+    const bob = { login: 'bob', type: 'User' as const, id: 11 };
+    const at = (minutes: number) => new Date(Date.parse('2024-01-01T10:00:00Z') + minutes * 60000);
+
+    const comments = [
+      createComment({ id: 1, replies: [createComment({ id: 10, author: alice, createdAt: at(30) })] }),
+      createComment({ id: 2, reactions: [{ type: 'thumbs_up', user: alice, createdAt: at(90) }] }),
+      createComment({ id: 3, isResolved: true, resolvedBy: bob }),
+      createComment({ id: 4, replies: [createComment({ id: 11, author: alice, createdAt: at(10) })] }),
+      createComment({ id: 5, reactions: [{ type: 'hooray', user: bob, createdAt: at(5), synthetic: true }] })
+    ];
+    const prs = [
+      createPR({ id: 1, number: 1, author: alice, comments: comments.slice(0, 3) }),
+      createPR({ id: 2, number: 2, author: bob, comments: [comments[3]] }),
+      createPR({ id: 3, number: 3, author: bob, comments: [comments[4]] }),
+      createPR({ id: 4, number: 4, author: { login: 'carol', type: 'User', id: 12 }, comments: [] })
+    ];
+
+    it('should count the replies, reactions and resolutions of each PR author', () => {
+      const breakdown = calculator.calculateAuthorBreakdown(prs, comments);
+
+      expect(breakdown).toEqual([
+        { author: 'alice', pullRequests: 1, comments: 3, replied: 1, reacted: 1, resolved: 0, engagementRate: 66.67, medianResponseTime: 60 * 60000 },
+        { author: 'bob', pullRequests: 2, comments: 2, replied: 0, reacted: 0, resolved: 0, engagementRate: 0, medianResponseTime: null },
+        { author: 'carol', pullRequests: 1, comments: 0, replied: 0, reacted: 0, resolved: 0, engagementRate: 0, medianResponseTime: null }
+      ]);
+    });
+
+    it('should anonymize authors consistently across the report', () => {
+      const detailed = calculator.calculateDetailed(prs, comments);
+      const report = anonymizeAuthors({
+        repository: 'owner/repo',
+        period: { start: at(0), end: at(60) },
+        reviewer: 'coderabbitai[bot]',
+        summary: calculator.calculateSummary(prs, comments),
+        detailed,
+        reviewerBreakdown: [{ reviewer: 'coderabbitai[bot]', summary: calculator.calculateSummary(prs, comments), detailed }],
+        generatedAt: at(0)
+      });
+
+      expect(report.detailed.authorBreakdown?.map(entry => entry.author)).toEqual(['Author 1', 'Author 2', 'Author 3']);
+      expect(report.detailed.prBreakdown.byAuthor).toEqual({ 'Author 1': 1, 'Author 2': 2, 'Author 3': 1 });
+      expect(report.reviewerBreakdown?.[0].detailed.authorBreakdown?.[1]).toMatchObject({ author: 'Author 2', pullRequests: 2 });
+      expect(JSON.stringify(report)).not.toMatch(/alice|bob|carol/);
+      expect(detailed.authorBreakdown?.[0].author).toBe('alice');
+    });
+
+    it('should hide PR titles and comment text when anonymizing', () => {
+      const mention = createComment({ id: 9, body: '@alice this check is wrong' });
+      const detailed = calculator.calculateDetailed([createPR({ number: 3, title: "alice's refactor", comments: [mention] })], [mention], 'org/app');
+      const report = anonymizeAuthors({
+        repository: 'org/app',
+        period: { start: at(0), end: at(60) },
+        reviewer: 'coderabbitai[bot]',
+        summary: calculator.calculateSummary([], [mention]),
+        detailed,
+        generatedAt: at(0)
+      });
+
+      const [pr] = report.detailed.prDetails;
+      expect(pr).toMatchObject({ number: 3, title: '(hidden)', url: 'https://github.com/org/app/pull/3' });
+      expect(pr.comments?.[0]).toMatchObject({ body: '(hidden)', excerpt: '(hidden)', type: 'bug' });
+      expect(JSON.stringify(report)).not.toMatch(/alice/);
+    });
+  });
+
+  describe('comment details', () => {
+    it('should describe each AI comment with a link to it', () => {
+      const inline = createComment({
+        id: 5,
+        path: 'src/a.ts',
+        line: 12,
+        isResolved: true,
+        body: '<!-- internal state -->\n**Consider** adding a test\n\n<details>more</details>',
+        reactions: [{ type: 'thumbs_up', user: { login: 'dev', type: 'User', id: 1 }, createdAt: new Date('2024-01-01') }],
+        replies: [createComment({ id: 7, author: { login: 'dev', type: 'User', id: 1 }, createdAt: new Date('2024-01-01T12:00:00Z') })],
+        resolvedObservedAt: new Date('2024-01-02T10:00:00Z')
+      });
+      const general = createComment({ id: 6, body: 'x'.repeat(400) });
+
+      const detailed = calculator.calculateDetailed([createPR({ number: 3, comments: [inline, general] })], [inline, general], 'org/app');
+      const [first, second] = detailed.prDetails[0].comments!;
+
+      expect(first).toMatchObject({
+        url: 'https://github.com/org/app/pull/3#discussion_r5',
+        type: 'suggestion',
+        excerpt: '**Consider** adding a test more',
+        path: 'src/a.ts',
+        line: 12,
+        isResolved: true,
+        replies: 1,
+        positiveReactions: 1,
+        timeToFirstReply: 2 * 60 * 60 * 1000,
+        timeToResolution: 24 * 60 * 60 * 1000
+      });
+      expect(second.url).toBe('https://github.com/org/app/pull/3#issuecomment-6');
+      expect(second.excerpt).toHaveLength(280);
+      expect(second).not.toHaveProperty('path');
+    });
+
+    it('should omit comment details for PRs without AI comments', () => {
+      const detailed = calculator.calculateDetailed([createPR()], [], 'org/app');
+
+      expect(detailed.prDetails[0].comments).toBeUndefined();
+    });
+  });
+
+  describe('trend', () => {
+    const period = { start: new Date('2024-01-03T12:00:00Z'), end: new Date('2024-01-20T00:00:00Z') };
+
+    it('should split a period into calendar weeks starting on Monday', () => {
+      const ranges = calculator.splitPeriod(period, 'week');
+
+      expect(ranges.map(range => [range.start.toISOString(), range.end.toISOString()])).toEqual([
+        ['2024-01-03T12:00:00.000Z', '2024-01-07T23:59:59.999Z'],
+        ['2024-01-08T00:00:00.000Z', '2024-01-14T23:59:59.999Z'],
+        ['2024-01-15T00:00:00.000Z', '2024-01-20T00:00:00.000Z']
+      ]);
+    });
+
+    it('should split a period into calendar months', () => {
+      const ranges = calculator.splitPeriod({ start: new Date('2024-01-15T00:00:00Z'), end: new Date('2024-03-02T00:00:00Z') }, 'month');
+
+      expect(ranges.map(range => range.start.toISOString().slice(0, 10))).toEqual(['2024-01-15', '2024-02-01', '2024-03-01']);
+      expect(ranges[1].end.toISOString()).toBe('2024-02-29T23:59:59.999Z');
+    });
+
+    it('should summarize each bucket with the comments of its pull requests', () => {
+      const comments = [createComment({ id: 1 }), createComment({ id: 2 }), createComment({ id: 3 })];
+      const prs = [
+        createPR({ id: 1, createdAt: new Date('2024-01-04T00:00:00Z'), comments: [comments[0], comments[1]] }),
+        createPR({ id: 2, createdAt: new Date('2024-01-16T00:00:00Z'), comments: [comments[2]] })
+      ];
+
+      const trend = calculator.calculateTrend(prs, comments, period, 'week');
+
+      expect(trend.map(point => [point.summary.totalPRs, point.summary.totalComments])).toEqual([[1, 2], [0, 0], [1, 1]]);
+    });
+
+    it('should only accept week and month buckets', () => {
+      expect(isTrendBucket('week')).toBe(true);
+      expect(isTrendBucket('month')).toBe(true);
+      expect(isTrendBucket('day')).toBe(false);
+    });
+  });
+
+  describe('latency', () => {
+    const hours = (count: number) => count * 60 * 60 * 1000;
+    const human = { login: 'developer', type: 'User' as const, id: 1 };
+
+    it('should interpolate percentiles between the closest ranks', () => {
+      expect(calculator.calculatePercentile([1, 2, 3, 4], 50)).toBe(2.5);
+      expect(calculator.calculatePercentile([1, 2, 3, 4, 5], 90)).toBeCloseTo(4.6);
+      expect(calculator.calculatePercentile([7], 75)).toBe(7);
+      expect(calculator.calculatePercentile([], 50)).toBeNull();
+    });
+
+    it('should measure time to first human reply, resolution and merge', () => {
+      const createdAt = new Date('2024-01-01T10:00:00Z');
+      const later = (count: number) => new Date(createdAt.getTime() + hours(count));
+      const reply = (id: number, at: Date) => createComment({ id, author: human, createdAt: at, updatedAt: at });
+      const comments = [
+        createComment({ id: 1, replies: [reply(10, later(3)), reply(11, later(1))], isResolved: true, resolvedObservedAt: later(5) }),
+        createComment({ id: 2, replies: [reply(12, later(2))] }),
+        createComment({ id: 3, isResolved: false, resolvedObservedAt: later(1) })
+      ];
+      const prs = [
+        createPR({ id: 1, mergedAt: later(24), comments: [comments[0], comments[1]] }),
+        createPR({ id: 2, state: 'open', comments: [comments[2]] })
+      ];
+
+      const latency = calculator.calculateSummary(prs, comments).latency!;
+
+      expect(latency.firstHumanReply).toEqual({ count: 2, median: hours(1.5), p75: hours(1.75), p90: hours(1.9) });
+      expect(latency.resolution).toEqual({ count: 1, median: hours(5), p75: hours(5), p90: hours(5) });
+      expect(latency.merge.count).toBe(2);
+      expect(latency.merge.median).toBe(hours(24));
+    });
+
+    it('should report empty distributions without samples', () => {
+      const latency = calculator.calculateSummary([createPR()], [createComment()]).latency!;
+
+      expect(latency.firstHumanReply).toEqual({ count: 0, median: null, p75: null, p90: null });
+    });
+  });
+
+  describe('suggested changes', () => {
+    it('should count applied suggestions overall and per pull request', () => {
+      const comments = [
+        createComment({ id: 1, suggestions: 2, appliedSuggestions: 1 }),
+        createComment({ id: 2, suggestions: 1, appliedSuggestions: 1 }),
+        createComment({ id: 3, suggestions: 1 }),
+        createComment({ id: 4 })
+      ];
+      const prs = [
+        createPR({ id: 1, number: 1, comments: [comments[0], comments[1]] }),
+        createPR({ id: 2, number: 2, comments: [comments[2], comments[3]] })
+      ];
+
+      const summary = calculator.calculateSummary(prs, comments);
+      const detailed = calculator.calculateDetailed(prs, comments);
+
+      expect(summary.suggestions).toEqual({ suggestions: 3, applied: 2, appliedRate: 66.67 });
+      expect(detailed.prDetails.map(pr => [pr.suggestions, pr.appliedSuggestions])).toEqual([[3, 2], [undefined, undefined]]);
+    });
+  });
+
+  describe('suggestion acceptance', () => {
+    it('should report the share of checked inline comments acted on by a commit', () => {
+      const comments = [
+        createComment({ id: 1, path: 'a.ts', actedOn: true }),
+        createComment({ id: 2, path: 'a.ts', actedOn: false }),
+        createComment({ id: 3, path: 'b.ts', actedOn: true }),
+        createComment({ id: 4 })
+      ];
+
+      expect(calculator.calculateSummary([createPR()], comments).acceptance).toEqual({
+        inlineComments: 3,
+        actedOn: 2,
+        acceptanceRate: 66.67
+      });
+    });
+
+    it('should omit acceptance when no comment was checked against commits', () => {
+      expect(calculator.calculateSummary([createPR()], [createComment()]).acceptance).toBeUndefined();
+    });
+  });
+
+  describe('review outcomes', () => {
+    const createReview = (overrides: Partial<Review> = {}): Review => ({
+      id: 1,
+      body: '',
+      author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+      state: 'commented',
+      commentIds: [],
+      ...overrides
+    });
+
+    it('should count approvals, change requests and dismissals', () => {
+      const prs = [
+        createPR({ id: 1, reviews: [createReview({ id: 1, state: 'approved', body: 'Looks good' }), createReview({ id: 2, state: 'pending' })] }),
+        createPR({ id: 2, reviews: [createReview({ id: 3, state: 'changes_requested', dismissed: true, body: 'Walkthrough' }), createReview({ id: 4 })] })
+      ];
+
+      expect(calculator.calculateSummary(prs, []).reviews).toEqual({
+        totalReviews: 3,
+        approved: 1,
+        changesRequested: 1,
+        commented: 1,
+        dismissed: 1,
+        withSummary: 2
+      });
+    });
+
+    it('should omit review outcomes for data collected without reviews', () => {
+      expect(calculator.calculateSummary([createPR()], []).reviews).toBeUndefined();
+    });
+
+    it('should attribute reviews to each compared reviewer', () => {
+      const copilot = { login: 'Copilot', type: 'Bot' as const, id: 3 };
+      const prs = [createPR({ reviews: [createReview({ state: 'approved' }), createReview({ id: 2, author: copilot, state: 'changes_requested' })] })];
+
+      const breakdown = calculator.calculateReviewerBreakdown(prs, [], ['coderabbitai[bot]', 'copilot']);
+
+      expect(breakdown.map(entry => [entry.summary.reviews?.approved, entry.summary.reviews?.changesRequested])).toEqual([[1, 0], [0, 1]]);
+    });
+  });
+
+  describe('reviewer breakdown', () => {
+    it('should bucket comments per reviewer against the same PRs', () => {
+      const coderabbit = createComment({ id: 1, isResolved: true });
+      const copilot1 = createComment({ id: 2, author: { login: 'Copilot', type: 'Bot', id: 3 } });
+      const copilot2 = createComment({ id: 3, author: { login: 'Copilot', type: 'Bot', id: 3 } });
+      const prs = [
+        createPR({ id: 1, number: 1, comments: [coderabbit, copilot1] }),
+        createPR({ id: 2, number: 2, comments: [copilot2] })
+      ];
+
+      const breakdown = calculator.calculateReviewerBreakdown(
+        prs,
+        [coderabbit, copilot1, copilot2],
+        ['coderabbitai[bot]', 'copilot'],
+        'owner/repo'
+      );
+
+      expect(breakdown.map(entry => entry.reviewer)).toEqual(['coderabbitai[bot]', 'copilot']);
+      expect(breakdown[0].summary).toMatchObject({ totalPRs: 2, totalComments: 1, resolvedComments: 1 });
+      expect(breakdown[1].summary).toMatchObject({ totalPRs: 2, totalComments: 2, averageCommentsPerPR: 1 });
+      expect(breakdown[1].detailed.prDetails.map(pr => pr.aiComments)).toEqual([1, 1]);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for chat webhook notifications
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { postWebhook, sendNotification } from '../../src/notify';
+import { createMetricsReport } from '../../src/reporters';
+
+describe('Webhook notifications', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: { url: string; contentType: string; body: string }[];
+  let status: number;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        requests.push({ url: request.url || '', contentType: request.headers['content-type'] || '', body });
+        response.statusCode = status;
+        response.end(status === 200 ? 'ok' : 'invalid_payload');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    status = 200;
+  });
+
+  const report = createMetricsReport(
+    'test/repo',
+    { start: new Date('2024-01-01'), end: new Date('2024-01-07') },
+    'coderabbitai[bot]',
+    { totalPRs: 1, totalComments: 2, averageCommentsPerPR: 2, positiveReactions: 0, negativeReactions: 0, repliedComments: 1, resolvedComments: 1 },
+    {
+      prBreakdown: { byState: {}, byAuthor: {} },
+      commentBreakdown: { byType: {}, byResolution: {} },
+      reactionBreakdown: { byType: {}, positiveVsNegative: { positive: 0, negative: 0 } },
+      prDetails: []
+    }
+  );
+
+  it('should post a Slack message as JSON', async () => {
+    await sendNotification(report, 'slack', `${baseUrl}/services/T000/B000/secret`);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/services/T000/B000/secret');
+    expect(requests[0].contentType).toBe('application/json');
+    expect(JSON.parse(requests[0].body).blocks[0].text.text).toBe('PR Metrics: test/repo');
+  });
+
+  it('should post a Teams message as JSON', async () => {
+    await sendNotification(report, 'teams', `${baseUrl}/webhook`);
+
+    expect(JSON.parse(requests[0].body).attachments[0].content.type).toBe('AdaptiveCard');
+  });
+
+  it('should report failures without the webhook URL', async () => {
+    status = 400;
+
+    const error = await postWebhook(`${baseUrl}/services/T000/B000/secret`, '{}').catch(caught => caught);
+
+    expect(error.message).toBe('Webhook request failed: HTTP 400');
+    expect(error.message).not.toContain('secret');
+  });
+
+  it('should reject invalid webhook URLs', async () => {
+    await expect(postWebhook('not a url', '{}')).rejects.toThrow('Invalid webhook URL');
+    await expect(postWebhook('ftp://example.com/hook', '{}')).rejects.toThrow('Unsupported webhook URL protocol');
+  });
+});
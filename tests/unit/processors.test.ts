@@ -0,0 +1,234 @@
+/**
+ * Unit tests for data processing
+ */
+
+import { DataProcessor, AcceptanceDetector, SuggestionDetector } from '../../src/processors';
+import { Comment, Commit, PullRequest } from '../../src/types/core';
+
+describe('DataProcessor', () => {
+  const createComment = (overrides: Partial<Comment> = {}): Comment => ({
+    id: 1,
+    body: 'Consider extracting this into a helper',
+    author: { login: 'coderabbitai[bot]', type: 'Bot', id: 1 },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    isResolved: false,
+    reactions: [],
+    replies: [],
+    ...overrides
+  });
+
+  const positiveReactions = [
+    { type: 'thumbs_up' as const, user: { login: 'dev1', type: 'User' as const, id: 2 }, createdAt: new Date('2024-01-02') },
+    { type: 'heart' as const, user: { login: 'dev2', type: 'User' as const, id: 3 }, createdAt: new Date('2024-01-02') }
+  ];
+
+  describe('detectResolution', () => {
+    it('should keep review thread state in threads mode', () => {
+      const processor = new DataProcessor({ resolutionMode: 'threads' });
+      const comments = [
+        createComment({ id: 1, threadId: 'thread-1', isResolved: true }),
+        createComment({ id: 2, threadId: 'thread-2', isResolved: false, reactions: positiveReactions })
+      ];
+
+      const result = processor.detectResolution(comments);
+
+      expect(result[0].isResolved).toBe(true);
+      expect(result[1].isResolved).toBe(false);
+    });
+
+    it('should never resolve comments without a review thread in threads mode', () => {
+      const processor = new DataProcessor();
+      const result = processor.detectResolution([
+        createComment({ body: '✅ Addressed in commit abc1234', isResolved: true })
+      ]);
+
+      expect(result[0].isResolved).toBe(false);
+    });
+
+    it('should infer resolution from markers and reactions in heuristic mode', () => {
+      const processor = new DataProcessor({ resolutionMode: 'heuristic' });
+      const result = processor.detectResolution([
+        createComment({ id: 1, body: '✅ Looks fixed' }),
+        createComment({ id: 2, reactions: positiveReactions }),
+        createComment({ id: 3, threadId: 'thread-3', isResolved: true })
+      ]);
+
+      expect(result.map(comment => comment.isResolved)).toEqual([true, true, false]);
+    });
+  });
+
+  describe('detectReplies', () => {
+    it('should keep only human replies retained by the collector', () => {
+      const processor = new DataProcessor();
+      const humanReply = createComment({
+        id: 2,
+        body: 'Fixed, thanks',
+        author: { login: 'developer', type: 'User', id: 5 },
+        createdAt: new Date('2024-01-02'),
+        inReplyToId: 1
+      });
+      const botReply = createComment({ id: 3, body: 'Thanks for the update', inReplyToId: 1 });
+
+      const result = processor.detectReplies([
+        createComment({ id: 1, path: 'src/index.ts', replies: [botReply, humanReply] })
+      ]);
+
+      expect(result[0].replies.map(reply => reply.id)).toEqual([2]);
+    });
+  });
+
+  describe('detectAcceptance', () => {
+    const processor = new DataProcessor();
+    const inline = (overrides: Partial<Comment> = {}) => createComment({ path: 'src/app.ts', line: 40, repository: 'acme/app', ...overrides });
+    const commit = (sha: string, committedAt: string, files?: Commit['files']): Commit => ({ sha, message: 'Update', committedAt: new Date(committedAt), ...(files ? { files } : {}) });
+    const prWith = (comments: Comment[], commits?: Commit[]): PullRequest => ({
+      id: 1,
+      number: 1,
+      title: 'PR',
+      state: 'open',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      author: { login: 'dev1', type: 'User', id: 2 },
+      comments,
+      repository: 'acme/app',
+      ...(commits ? { commits } : {})
+    });
+
+    it('should mark comments whose lines were changed by a later commit', () => {
+      const comments = [inline({ id: 1 }), inline({ id: 2, line: 120 })];
+      const commits = [
+        commit('aaa111', '2023-12-31', [{ filename: 'src/app.ts', status: 'modified', hunks: [{ oldStart: 118, oldLines: 4, newStart: 118, newLines: 4 }] }]),
+        commit('bbb222', '2024-01-02', [{ filename: 'src/app.ts', status: 'modified', hunks: [{ oldStart: 38, oldLines: 6, newStart: 38, newLines: 8 }] }])
+      ];
+
+      const result = processor.detectAcceptance(comments, [prWith(comments, commits)]);
+
+      expect(result.map(comment => [comment.actedOn, comment.actedOnCommit])).toEqual([[true, 'bbb222'], [false, undefined]]);
+    });
+
+    it('should prefer the commit named in an "Addressed in commit" message', () => {
+      const comments = [inline({ body: 'Rename this. ✅ Addressed in commit ccc333d' })];
+      const commits = [commit('ccc333dd', '2024-01-03', [])];
+
+      const result = processor.detectAcceptance(comments, [prWith(comments, commits)]);
+
+      expect(result[0].actedOnCommit).toBe('ccc333dd');
+    });
+
+    it('should leave comments unchanged without collected commits', () => {
+      const comments = [inline(), createComment({ id: 2, repository: 'acme/app' })];
+
+      const result = processor.detectAcceptance(comments, [prWith(comments)]);
+      const withCommits = processor.detectAcceptance(comments, [prWith(comments, [])]);
+
+      expect(result.map(comment => comment.actedOn)).toEqual([undefined, undefined]);
+      expect(withCommits.map(comment => comment.actedOn)).toEqual([false, undefined]);
+    });
+
+    it('should count renamed files and files without a patch as touched', () => {
+      const comment = inline();
+
+      expect(AcceptanceDetector.touchesComment({ filename: 'src/main.ts', previousFilename: 'src/app.ts', status: 'renamed', hunks: [{ oldStart: 42, oldLines: 0, newStart: 43, newLines: 2 }] }, comment)).toBe(true);
+      expect(AcceptanceDetector.touchesComment({ filename: 'src/app.ts', status: 'modified' }, comment)).toBe(true);
+      expect(AcceptanceDetector.touchesComment({ filename: 'src/app.ts', status: 'modified', hunks: [{ oldStart: 1, oldLines: 3, newStart: 1, newLines: 3 }] }, comment)).toBe(false);
+    });
+  });
+
+  describe('detectSuggestions', () => {
+    const processor = new DataProcessor();
+    const suggestion = (lines: string) => `Prefer a constant here.\n\n\`\`\`suggestion\n${lines}\n\`\`\`\n`;
+    const prWith = (comments: Comment[], files?: PullRequest['files']): PullRequest => ({
+      id: 1,
+      number: 1,
+      title: 'PR',
+      state: 'merged',
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      author: { login: 'dev1', type: 'User', id: 2 },
+      comments,
+      repository: 'acme/app',
+      ...(files ? { files } : {})
+    });
+
+    it('should parse suggestion blocks, including longer fences and deletions', () => {
+      const body = [
+        'Two options:',
+        '```suggestion',
+        '  const limit = MAX_LIMIT;',
+        '```',
+        '````suggestion',
+        '```ts',
+        'example();',
+        '```',
+        '````',
+        '```suggestion',
+        '```',
+        '```ts',
+        'not a suggestion',
+        '```'
+      ].join('\n');
+
+      expect(SuggestionDetector.parseSuggestions(body)).toEqual([
+        ['  const limit = MAX_LIMIT;'],
+        ['```ts', 'example();', '```'],
+        []
+      ]);
+    });
+
+    it('should count suggestions applied in the final diff of the commented file', () => {
+      const comments = [
+        createComment({ id: 1, path: 'src/app.ts', repository: 'acme/app', body: suggestion('const limit = MAX_LIMIT;') + suggestion('return limit;') }),
+        createComment({ id: 2, path: 'src/old.ts', repository: 'acme/app', body: suggestion('  retry(3);') }),
+        createComment({ id: 3, repository: 'acme/app', body: 'No suggestion' })
+      ];
+      const files = [
+        { filename: 'src/app.ts', status: 'modified', addedLines: ['    const limit = MAX_LIMIT;'] },
+        { filename: 'src/new.ts', previousFilename: 'src/old.ts', status: 'renamed', addedLines: ['retry(3);'] }
+      ];
+
+      const result = processor.detectSuggestions(comments, [prWith(comments, files)]);
+
+      expect(result.map(comment => [comment.suggestions, comment.appliedSuggestions])).toEqual([[2, 1], [1, 1], [undefined, undefined]]);
+    });
+
+    it('should only require the lines a suggestion changes to be added', () => {
+      const comments = [
+        createComment({
+          id: 1,
+          path: 'src/app.ts',
+          repository: 'acme/app',
+          commentedLines: ['if (ready) {', '  start(10);', '}'],
+          body: suggestion('if (ready) {\n  start(LIMIT);\n}')
+        }),
+        createComment({ id: 2, path: 'src/app.ts', repository: 'acme/app', body: suggestion('if (ready) {\n  start(LIMIT);\n}') })
+      ];
+      const files = [{ filename: 'src/app.ts', status: 'modified', addedLines: ['  start(LIMIT);'] }];
+
+      const result = processor.detectSuggestions(comments, [prWith(comments, files)]);
+
+      expect(result.map(comment => comment.appliedSuggestions)).toEqual([1, 0]);
+    });
+
+    it('should fall back to commit acceptance for deletions and files without a patch', () => {
+      const comments = [
+        createComment({ id: 1, path: 'src/app.ts', repository: 'acme/app', actedOn: true, body: '```suggestion\n```' }),
+        createComment({ id: 2, path: 'assets/big.json', repository: 'acme/app', actedOn: false, body: suggestion('{}') })
+      ];
+      const files = [{ filename: 'assets/big.json', status: 'modified' }];
+
+      const result = processor.detectSuggestions(comments, [prWith(comments, files)]);
+
+      expect(result.map(comment => comment.appliedSuggestions)).toEqual([1, 0]);
+    });
+
+    it('should only count suggestions when the diff was not collected', () => {
+      const comments = [createComment({ path: 'src/app.ts', repository: 'acme/app', body: suggestion('x();') })];
+
+      const result = processor.detectSuggestions(comments, [prWith(comments)]);
+
+      expect(result[0].suggestions).toBe(1);
+      expect(result[0].appliedSuggestions).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for sticky report comments
+ */
+
+import { MAX_COMMENT_LENGTH, StickyCommentPublisher, parseCommentTarget, stickyMarker } from '../../src/publish';
+import { CommentTarget, ICommentClient, PublishedComment } from '../../src/types/interfaces';
+
+class MockCommentClient implements ICommentClient {
+  comments: PublishedComment[] = [];
+  created = 0;
+  updated = 0;
+
+  async listComments(_target: CommentTarget): Promise<PublishedComment[]> {
+    return this.comments.map(comment => ({ ...comment }));
+  }
+
+  async createComment(_target: CommentTarget, body: string): Promise<PublishedComment> {
+    this.created++;
+    const comment = { id: String(this.comments.length + 1), body, url: `https://github.com/acme/app/issues/1#issuecomment-${this.comments.length + 1}`, viewerDidAuthor: true };
+    this.comments.push(comment);
+    return comment;
+  }
+
+  async updateComment(_target: CommentTarget, commentId: string, body: string): Promise<PublishedComment> {
+    this.updated++;
+    const comment = this.comments.find(candidate => candidate.id === commentId)!;
+    comment.body = body;
+    return { ...comment };
+  }
+}
+
+describe('StickyCommentPublisher', () => {
+  const target: CommentTarget = { owner: 'acme', repo: 'app', number: 1, type: 'issue' };
+
+  it('should create the comment once and update it afterwards', async () => {
+    const client = new MockCommentClient();
+    client.comments.push({ id: '1', body: 'LGTM', url: 'url-1', viewerDidAuthor: false });
+    const publisher = new StickyCommentPublisher(client);
+
+    const first = await publisher.publish(target, '# Report v1');
+    const second = await publisher.publish(target, '# Report v2');
+    const third = await publisher.publish(target, '# Report v2');
+
+    expect([first.action, second.action, third.action]).toEqual(['created', 'updated', 'unchanged']);
+    expect(client.created).toBe(1);
+    expect(client.updated).toBe(1);
+    expect(client.comments).toHaveLength(2);
+    expect(client.comments[1].body).toBe(`${stickyMarker()}\n# Report v2`);
+  });
+
+  it('should only update the most recent marked comment the client wrote', async () => {
+    const client = new MockCommentClient();
+    client.comments.push(
+      { id: '1', body: `${stickyMarker()}\nold report`, url: 'url-1', viewerDidAuthor: true },
+      { id: '2', body: `${stickyMarker()}\nlatest report`, url: 'url-2', viewerDidAuthor: true },
+      { id: '3', body: `Quoting the bot:\n${stickyMarker()}\nlatest report`, url: 'url-3', viewerDidAuthor: false }
+    );
+
+    const result = await new StickyCommentPublisher(client).publish(target, '# Report');
+
+    expect(result.action).toBe('updated');
+    expect(client.comments.map(comment => comment.body.endsWith('# Report'))).toEqual([false, true, false]);
+  });
+
+  it('should keep separate comments per sticky ID', async () => {
+    const client = new MockCommentClient();
+
+    await new StickyCommentPublisher(client, { stickyId: 'weekly' }).publish(target, 'weekly');
+    await new StickyCommentPublisher(client, { stickyId: 'monthly' }).publish(target, 'monthly');
+
+    expect(client.created).toBe(2);
+    expect(client.comments[0].body).toContain('<!-- github-pr-metrics:sticky:weekly -->');
+  });
+
+  it('should truncate reports longer than the comment size limit', () => {
+    const body = new StickyCommentPublisher(new MockCommentClient()).buildBody('x'.repeat(MAX_COMMENT_LENGTH));
+
+    expect(body).toHaveLength(MAX_COMMENT_LENGTH);
+    expect(body.startsWith(stickyMarker())).toBe(true);
+    expect(body).toContain('Report truncated');
+  });
+
+  it('should not split an emoji at the truncation boundary', () => {
+    const publisher = new StickyCommentPublisher(new MockCommentClient());
+    const kept = publisher.buildBody('x'.repeat(MAX_COMMENT_LENGTH)).indexOf('\n\n---\n_Report truncated');
+    // Place a 📊 so that its high surrogate is the last unit that fits
+    const report = 'x'.repeat(kept - stickyMarker().length - 2) + '📊' + 'x'.repeat(MAX_COMMENT_LENGTH);
+
+    const body = publisher.buildBody(report);
+
+    expect(body.length).toBe(MAX_COMMENT_LENGTH - 1);
+    expect(body).not.toContain('📊');
+    expect(body).not.toMatch(/[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/);
+  });
+});
+
+describe('parseCommentTarget', () => {
+  it('should parse numbers against the default repository', () => {
+    expect(parseCommentTarget('42', 'issue', 'acme/app')).toEqual({ owner: 'acme', repo: 'app', number: 42, type: 'issue' });
+    expect(parseCommentTarget('#42', 'discussion', 'acme/app')).toEqual({ owner: 'acme', repo: 'app', number: 42, type: 'discussion' });
+  });
+
+  it('should parse targets in another repository', () => {
+    expect(parseCommentTarget('acme/metrics#3', 'issue', 'acme/app')).toEqual({ owner: 'acme', repo: 'metrics', number: 3, type: 'issue' });
+  });
+
+  it('should reject invalid targets', () => {
+    expect(() => parseCommentTarget('issue-42', 'issue', 'acme/app')).toThrow('Invalid comment target');
+    expect(() => parseCommentTarget('42')).toThrow('needs a repository');
+  });
+});
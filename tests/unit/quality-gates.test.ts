@@ -0,0 +1,80 @@
+/**
+ * Unit tests for quality gates
+ */
+
+import {
+  evaluateQualityGates,
+  formatQualityGatesMarkdown,
+  parseQualityGateThresholds,
+  parseThreshold
+} from '../../src/quality-gates';
+
+describe('Quality gates', () => {
+  const summary = {
+    totalComments: 200,
+    resolvedComments: 120,
+    repliedComments: 50,
+    negativeReactions: 30
+  };
+
+  describe('evaluateQualityGates', () => {
+    it('should check only the configured thresholds', () => {
+      const results = evaluateQualityGates(summary, { minResolutionRate: 50 });
+
+      expect(results).toEqual([
+        { gate: 'minResolutionRate', label: 'Resolution rate', threshold: 50, actual: 60, passed: true }
+      ]);
+    });
+
+    it('should fail minimum and maximum thresholds when breached', () => {
+      const results = evaluateQualityGates(summary, {
+        minResolutionRate: 60,
+        minReplyRate: 30,
+        maxNegativeReactionRate: 10
+      });
+
+      expect(results.map(result => [result.gate, result.actual, result.passed])).toEqual([
+        ['minResolutionRate', 60, true],
+        ['minReplyRate', 25, false],
+        ['maxNegativeReactionRate', 15, false]
+      ]);
+    });
+
+    it('should pass every gate when there are no comments', () => {
+      const results = evaluateQualityGates(
+        { totalComments: 0, resolvedComments: 0, repliedComments: 0, negativeReactions: 0 },
+        { minResolutionRate: 50, maxNegativeReactionRate: 0 }
+      );
+
+      expect(results.every(result => result.passed && result.actual === null)).toBe(true);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should accept percentages with or without a percent sign', () => {
+      expect(parseThreshold('60', 'Threshold')).toBe(60);
+      expect(parseThreshold(' 12.5% ', 'Threshold')).toBe(12.5);
+      expect(parseThreshold('', 'Threshold')).toBeUndefined();
+      expect(parseThreshold(undefined, 'Threshold')).toBeUndefined();
+    });
+
+    it('should reject values outside 0-100', () => {
+      expect(() => parseThreshold('150', 'Threshold')).toThrow('Threshold must be a percentage between 0 and 100');
+      expect(() => parseThreshold('abc', 'Threshold')).toThrow('Threshold must be a percentage between 0 and 100');
+    });
+
+    it('should skip empty inputs and name the invalid one', () => {
+      expect(parseQualityGateThresholds({ minResolutionRate: '50', minReplyRate: '' })).toEqual({ minResolutionRate: 50 });
+      expect(() => parseQualityGateThresholds({ maxNegativeReactionRate: '-1' }))
+        .toThrow('Maximum negative reaction rate must be a percentage');
+    });
+  });
+
+  it('should render a pass/fail table', () => {
+    const markdown = formatQualityGatesMarkdown(evaluateQualityGates(summary, { minReplyRate: 30, maxNegativeReactionRate: 20 }));
+
+    expect(markdown).toContain('## Quality Gates');
+    expect(markdown).toContain('| Reply rate | ≥ 30% | 25.0% | ❌ Fail |');
+    expect(markdown).toContain('| Negative reaction rate | ≤ 20% | 15.0% | ✅ Pass |');
+  });
+});
@@ -6,11 +6,16 @@ import {
   ReportGenerator,
   JSONReportFormatter,
   MarkdownReportFormatter,
+  HTMLReportFormatter,
+  DelimitedReportFormatter,
+  SlackReportFormatter,
+  TeamsReportFormatter,
   createReportGenerator,
   createMetricsReport,
   detectOutputFormat,
   getFileExtension,
-  isFormatSupported
+  isFormatSupported,
+  getPullRequestRowsPath
 } from '../../src/reporters';
 import { MetricsReport, MetricsSummary, DetailedMetrics } from '../../src/types/core';
 
@@ -141,12 +146,228 @@ describe('ReportGenerator', () => {
     });
   });
 
+  describe('Repository breakdown', () => {
+    it('should render a per-repository section for multi-repository reports', async () => {
+      sampleReport.detailed.repositoryBreakdown = {
+        'owner/repo': { ...sampleReport.summary, totalPRs: 6, totalComments: 15 },
+        'owner/other': { ...sampleReport.summary, totalPRs: 4, totalComments: 10 }
+      };
+      sampleReport.detailed.prDetails[1].repository = 'owner/other';
+
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).toContain('## Repository Breakdown');
+      expect(output).toContain('| owner/repo | 6 | 15 |');
+      expect(output).toContain('| [owner/other#2](https://github.com/owner/repo/pull/2) |');
+    });
+
+    it('should not render the section for single-repository reports', async () => {
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).not.toContain('## Repository Breakdown');
+    });
+  });
+
+  describe('File hotspots', () => {
+    it('should rank paths by unresolved comments and list languages', async () => {
+      const stats = (path: string, comments: number, resolved: number, negativeReactions: number, language?: string) => ({
+        path, ...(language ? { language } : {}), comments, resolved, resolutionRate: (resolved / comments) * 100, replied: 0, negativeReactions
+      });
+      sampleReport.detailed.fileBreakdown = {
+        byFile: [stats('src/api/users.ts', 4, 1, 0), stats('docs/guide.md', 3, 3, 2), stats('src/ok.ts', 1, 1, 0)],
+        byDirectory: [stats('src/', 5, 2, 0), stats('docs/', 3, 3, 2), stats('src/api/', 4, 1, 0)],
+        byExtension: [stats('.ts', 5, 2, 0, 'TypeScript'), stats('.md', 3, 3, 2, 'Markdown')]
+      };
+
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+      const noisyPaths = output.split('### Top Noisy Paths')[1].split('### By Language')[0];
+
+      expect(output).toContain('## File Hotspots');
+      expect(noisyPaths.match(/^\| `[^`]+`/gm)).toEqual(['| `src/`', '| `src/api/`', '| `src/api/users.ts`', '| `docs/`', '| `docs/guide.md`']);
+      expect(noisyPaths).toContain('| `src/api/users.ts` | 4 | 25.0% | 3 | 0 |');
+      expect(output).toContain('| .md | Markdown | 3 | 100.0% | 2 |');
+    });
+
+    it('should not render the section without inline comments', async () => {
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).not.toContain('## File Hotspots');
+    });
+  });
+
+  describe('Author engagement', () => {
+    it('should list authors who received AI comments', async () => {
+      sampleReport.detailed.authorBreakdown = [
+        { author: 'user1', pullRequests: 5, comments: 12, replied: 6, reacted: 2, resolved: 9, engagementRate: 83.33, medianResponseTime: 90 * 60000 },
+        { author: 'user2', pullRequests: 5, comments: 0, replied: 0, reacted: 0, resolved: 0, engagementRate: 0, medianResponseTime: null }
+      ];
+
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).toContain('## Author Engagement');
+      expect(output).toContain('| user1 | 5 | 12 | 6 | 2 | 9 | 83.3% | 1.5h |');
+      expect(output).not.toContain('| user2 |');
+    });
+  });
+
+  describe('Reviewer comparison', () => {
+    beforeEach(() => {
+      sampleReport.reviewerBreakdown = [
+        { reviewer: 'coderabbit[bot]', summary: { ...sampleReport.summary, totalComments: 20 }, detailed: sampleReport.detailed },
+        { reviewer: 'copilot', summary: { ...sampleReport.summary, totalComments: 5, repliedComments: 2, resolvedComments: 1 }, detailed: sampleReport.detailed }
+      ];
+    });
+
+    it('should render a comparison table and per-reviewer sections in markdown', async () => {
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).toContain('## Reviewer Comparison');
+      expect(output).toContain('| copilot | 5 | 2.50 | 40.0% | 20.0% |');
+      expect(output).toContain('### coderabbit[bot]');
+      expect(output).toContain('### copilot');
+    });
+
+    it('should include per-reviewer summaries in JSON', () => {
+      const parsed = JSON.parse(reportGenerator.generateJSON(sampleReport));
+
+      expect(parsed.reviewers).toHaveLength(2);
+      expect(parsed.reviewers[1].reviewer).toBe('copilot');
+      expect(parsed.reviewers[1].summary.engagement.resolutionRate).toBe(20.0);
+    });
+
+    it('should omit reviewer sections for single-reviewer reports', async () => {
+      delete sampleReport.reviewerBreakdown;
+
+      expect(await reportGenerator.generateMarkdown(sampleReport)).not.toContain('## Reviewer Comparison');
+      expect(JSON.parse(reportGenerator.generateJSON(sampleReport)).reviewers).toBeUndefined();
+    });
+  });
+
+  describe('Trend', () => {
+    beforeEach(() => {
+      sampleReport.trend = {
+        bucket: 'month',
+        points: [
+          { period: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-01-31T23:59:59.999Z') }, summary: { ...sampleReport.summary, totalPRs: 4, totalComments: 8, averageCommentsPerPR: 2, repliedComments: 2, resolvedComments: 4, positiveReactions: 1, negativeReactions: 0 } },
+          { period: { start: new Date('2024-02-01T00:00:00Z'), end: new Date('2024-02-15T00:00:00Z') }, summary: { ...sampleReport.summary, totalPRs: 2, totalComments: 2, averageCommentsPerPR: 1, repliedComments: 2, resolvedComments: 1, positiveReactions: 0, negativeReactions: 1 } }
+        ]
+      };
+    });
+
+    it('should render a trend table in markdown', async () => {
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).toContain('## Trend (Monthly)');
+      expect(output).toContain('| 2024-01 | 4 | 8 | 2.00 | 25.0% | 50.0% | 12.5% | 0.0% |');
+      expect(output).toContain('| 2024-02 | 2 | 2 | 1.00 | 100.0% | 50.0% | 0.0% | 50.0% |');
+    });
+
+    it('should include the trend as an array in JSON', () => {
+      const parsed = JSON.parse(reportGenerator.generateJSON(sampleReport));
+
+      expect(parsed.metadata.trendBucket).toBe('month');
+      expect(parsed.trend).toHaveLength(2);
+      expect(parsed.trend[0]).toMatchObject({ start: '2024-01-01T00:00:00.000Z', summary: { engagement: { replyRate: 25 } } });
+    });
+  });
+
+  describe('Latency', () => {
+    const hour = 60 * 60 * 1000;
+
+    beforeEach(() => {
+      sampleReport.summary.latency = {
+        firstHumanReply: { count: 4, median: 30 * 60 * 1000, p75: 2 * hour, p90: 3 * 24 * hour },
+        resolution: { count: 0, median: null, p75: null, p90: null },
+        merge: { count: 5, median: 26 * hour, p75: 30 * hour, p90: 40 * hour }
+      };
+    });
+
+    it('should render a latency section with readable durations', async () => {
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).toContain('## Latency');
+      expect(output).toContain('| First Human Reply | 4 | 30m | 2.0h | 3.0d |');
+      expect(output).toContain('| First Human Reply | 4 | 30m | 2.0h | 3.0d |\n| PR Merge | 5 | 26.0h | 30.0h | 40.0h |');
+      expect(output).not.toContain('| Thread Resolution |');
+      expect(output).toContain('Thread resolution: n/a – needs incremental collection');
+    });
+
+    it('should show thread resolution once an incremental collection timed it', async () => {
+      sampleReport.summary.latency!.resolution = { count: 2, median: 5 * hour, p75: 6 * hour, p90: 8 * hour };
+
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).toContain('| First Human Reply | 4 | 30m | 2.0h | 3.0d |\n| Thread Resolution | 2 | 5.0h | 6.0h | 8.0h |\n| PR Merge |');
+      expect(output).not.toContain('needs incremental collection');
+    });
+
+    it('should report latency in hours in JSON', () => {
+      const parsed = JSON.parse(reportGenerator.generateJSON(sampleReport));
+
+      expect(parsed.summary.latency.firstHumanReply).toEqual({ count: 4, medianHours: 0.5, p75Hours: 2, p90Hours: 72 });
+      expect(parsed.summary.latency.resolution.medianHours).toBeNull();
+    });
+  });
+
+  describe('Suggested changes', () => {
+    it('should render applied suggestions overall and per pull request', async () => {
+      sampleReport.summary.suggestions = { suggestions: 4, applied: 3, appliedRate: 75 };
+      sampleReport.detailed.prDetails[0] = { ...sampleReport.detailed.prDetails[0], suggestions: 4, appliedSuggestions: 3 };
+
+      const markdown = await reportGenerator.generateMarkdown(sampleReport);
+      const parsed = JSON.parse(reportGenerator.generateJSON(sampleReport));
+
+      expect(markdown).toContain('## Suggested Changes');
+      expect(markdown).toContain('**Applied**: 3 of 4 suggested changes (75.0%)');
+      expect(markdown).toMatch(/\| \[#\d+\]\([^)]+\) \| 4 \| 3 \| 75\.0% \|/);
+      expect(parsed.summary.suggestions).toEqual({ total: 4, applied: 3, appliedRate: 75 });
+      expect(parsed.pullRequests[0]).toMatchObject({ suggestions: 4, appliedSuggestions: 3 });
+    });
+  });
+
+  describe('Suggestion acceptance', () => {
+    it('should render the acceptance rate in markdown and JSON', async () => {
+      sampleReport.summary.acceptance = { inlineComments: 8, actedOn: 3, acceptanceRate: 37.5 };
+
+      const markdown = await reportGenerator.generateMarkdown(sampleReport);
+      const parsed = JSON.parse(reportGenerator.generateJSON(sampleReport));
+
+      expect(markdown).toContain('**Acted On by a Later Commit**: 3 of 8 inline comments (37.5%)');
+      expect(parsed.summary.acceptance).toEqual({ inlineComments: 8, actedOn: 3, acceptanceRate: 37.5 });
+    });
+  });
+
+  describe('Review outcomes', () => {
+    beforeEach(() => {
+      sampleReport.summary.reviews = { totalReviews: 10, approved: 4, changesRequested: 2, commented: 4, dismissed: 3, withSummary: 8 };
+    });
+
+    it('should render review outcomes in markdown', async () => {
+      const output = await reportGenerator.generateMarkdown(sampleReport);
+
+      expect(output).toContain('## Review Outcomes');
+      expect(output).toContain('| Approved | 4 | 40.0% |');
+      expect(output).toContain('**Dismissed by Humans**: 3 of 6 approvals and change requests (50.0%)');
+    });
+
+    it('should include review rates in JSON', () => {
+      const parsed = JSON.parse(reportGenerator.generateJSON(sampleReport));
+
+      expect(parsed.summary.reviews).toMatchObject({ total: 10, approvalRate: 40.0, changesRequestedRate: 20.0, dismissalRate: 50.0 });
+    });
+
+    it('should omit review outcomes when reviews were not collected', async () => {
+      delete sampleReport.summary.reviews;
+
+      expect(await reportGenerator.generateMarkdown(sampleReport)).not.toContain('## Review Outcomes');
+      expect(JSON.parse(reportGenerator.generateJSON(sampleReport)).summary.reviews).toBeUndefined();
+    });
+  });
+
   describe('Format support', () => {
-    it('should support JSON and Markdown formats', () => {
+    it('should support JSON, Markdown, HTML, CSV, TSV, Slack and Teams formats', () => {
       const availableFormats = reportGenerator.getAvailableFormats();
-      expect(availableFormats).toContain('json');
-      expect(availableFormats).toContain('markdown');
-      expect(availableFormats).not.toContain('html');
+      expect(availableFormats).toEqual(['json', 'markdown', 'html', 'csv', 'tsv', 'slack', 'teams']);
     });
 
     it('should generate reports using generateReport method', async () => {
@@ -155,6 +376,9 @@ describe('ReportGenerator', () => {
 
       const markdownOutput = await reportGenerator.generateReport(sampleReport, { format: 'markdown' });
       expect(markdownOutput).toContain('# GitHub PR Metrics Report');
+
+      const htmlOutput = await reportGenerator.generateReport(sampleReport, { format: 'html' });
+      expect(htmlOutput.startsWith('<!DOCTYPE html>')).toBe(true);
     });
   });
 });
@@ -165,6 +389,9 @@ describe('Utility functions', () => {
       expect(detectOutputFormat('report.json')).toBe('json');
       expect(detectOutputFormat('report.md')).toBe('markdown');
       expect(detectOutputFormat('report.markdown')).toBe('markdown');
+      expect(detectOutputFormat('report.html')).toBe('html');
+      expect(detectOutputFormat('report.csv')).toBe('csv');
+      expect(detectOutputFormat('report.tsv')).toBe('tsv');
       expect(detectOutputFormat('report.txt')).toBe('markdown'); // default
     });
   });
@@ -173,6 +400,10 @@ describe('Utility functions', () => {
     it('should return correct extensions for formats', () => {
       expect(getFileExtension('json')).toBe('.json');
       expect(getFileExtension('markdown')).toBe('.md');
+      expect(getFileExtension('html')).toBe('.html');
+      expect(getFileExtension('csv')).toBe('.csv');
+      expect(getFileExtension('tsv')).toBe('.tsv');
+      expect(getFileExtension('slack')).toBe('.json');
     });
   });
 
@@ -180,11 +411,21 @@ describe('Utility functions', () => {
     it('should identify supported formats', () => {
       expect(isFormatSupported('json')).toBe(true);
       expect(isFormatSupported('markdown')).toBe(true);
-      expect(isFormatSupported('html')).toBe(false);
+      expect(isFormatSupported('html')).toBe(true);
+      expect(isFormatSupported('csv')).toBe(true);
+      expect(isFormatSupported('tsv')).toBe(true);
+      expect(isFormatSupported('teams')).toBe(true);
       expect(isFormatSupported('pdf')).toBe(false);
       expect(isFormatSupported('xml')).toBe(false);
     });
   });
+
+  describe('getPullRequestRowsPath', () => {
+    it('should name the companion file after the report', () => {
+      expect(getPullRequestRowsPath('reports/metrics.csv')).toBe('reports/metrics-prs.csv');
+      expect(getPullRequestRowsPath('metrics.tsv')).toBe('metrics-prs.tsv');
+    });
+  });
 });
 
 describe('createReportGenerator factory', () => {
@@ -263,6 +504,33 @@ describe('BaseReportFormatter subclasses', () => {
     it('should return correct format', () => {
       expect(formatter.getFormat()).toBe('json');
     });
+
+    it('should leave full comment bodies out, keeping excerpts', () => {
+      const comment = {
+        id: 99,
+        url: 'https://github.com/test/repo/pull/1#discussion_r99',
+        author: 'test-bot',
+        createdAt: new Date('2024-01-02T00:00:00Z'),
+        type: 'suggestion',
+        body: `Use const\n${'details '.repeat(200)}`,
+        excerpt: 'Use const details…',
+        isResolved: true,
+        replies: 0,
+        positiveReactions: 0,
+        negativeReactions: 0
+      };
+      const detailed = { ...sampleReport.detailed, prDetails: [{ ...sampleReport.detailed.prDetails[0], comments: [comment] }] };
+      const report = { ...sampleReport, detailed, reviewerBreakdown: [{ reviewer: 'test-bot', summary: sampleReport.summary, detailed }] };
+
+      const output = formatter.generate(report);
+      const parsed = JSON.parse(output);
+
+      expect(output).not.toContain('details details');
+      expect(parsed.detailed.prDetails[0].comments[0]).toMatchObject({ id: 99, excerpt: 'Use const details…' });
+      expect(parsed.pullRequests[0].comments[0]).not.toHaveProperty('body');
+      expect(parsed.reviewers[0].detailed.prDetails[0].comments[0]).not.toHaveProperty('body');
+      expect(report.detailed.prDetails[0].comments[0].body).toBe(comment.body);
+    });
   });
 
   describe('MarkdownReportFormatter', () => {
@@ -332,4 +600,313 @@ describe('BaseReportFormatter subclasses', () => {
       expect(formatter.getFormat()).toBe('markdown');
     });
   });
+
+  describe('HTMLReportFormatter', () => {
+    let formatter: HTMLReportFormatter;
+    let sampleReport: MetricsReport;
+
+    beforeEach(() => {
+      formatter = new HTMLReportFormatter();
+
+      const summary: MetricsSummary = {
+        totalPRs: 2,
+        totalComments: 4,
+        averageCommentsPerPR: 2,
+        positiveReactions: 2,
+        negativeReactions: 1,
+        repliedComments: 1,
+        resolvedComments: 3
+      };
+
+      const detailed: DetailedMetrics = {
+        prBreakdown: { byState: { merged: 2 }, byAuthor: { dev: 2 } },
+        commentBreakdown: {
+          byType: { suggestion: 1, bug: 1, question: 1, unknown: 1 },
+          byResolution: { resolved: 3, unresolved: 1 }
+        },
+        reactionBreakdown: {
+          byType: { thumbs_up: 2, confused: 1 },
+          positiveVsNegative: { positive: 2, negative: 1 }
+        },
+        prDetails: [
+          {
+            number: 7,
+            title: 'Fix <script> injection & escaping',
+            url: 'https://github.com/test/repo/pull/7',
+            totalComments: 1,
+            aiComments: 1,
+            resolvedAiComments: 1,
+            positiveReactions: 1,
+            negativeReactions: 0,
+            comments: [{
+              id: 99,
+              url: 'https://github.com/test/repo/pull/7#discussion_r99',
+              author: 'coderabbitai[bot]',
+              createdAt: new Date('2024-01-02T00:00:00Z'),
+              type: 'suggestion',
+              body: 'Consider using <b>const</b>',
+              excerpt: 'Consider using <b>const</b>',
+              path: 'src/a.ts',
+              line: 12,
+              isResolved: true,
+              replies: 0,
+              positiveReactions: 1,
+              negativeReactions: 0
+            }]
+          },
+          {
+            number: 8,
+            title: 'Docs',
+            url: 'https://github.com/test/repo/pull/8',
+            totalComments: 0,
+            aiComments: 0,
+            resolvedAiComments: 0,
+            positiveReactions: 0,
+            negativeReactions: 0
+          }
+        ]
+      };
+
+      sampleReport = createMetricsReport(
+        'test/repo',
+        { start: new Date('2024-01-01'), end: new Date('2024-01-31') },
+        'coderabbitai[bot]',
+        summary,
+        detailed
+      );
+    });
+
+    it('should produce a self-contained page without external resources', () => {
+      const output = formatter.generate(sampleReport);
+
+      expect(output).toContain('<style>');
+      expect(output).toContain('<script>');
+      expect(output).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+      expect(output).toContain('<div class="label">Resolution Rate</div><div class="value">75.0%</div>');
+    });
+
+    it('should chart reactions and comment types', () => {
+      const output = formatter.generate(sampleReport);
+
+      expect(output).toContain('<title>thumbs up: 2 (66.7%)</title>');
+      expect(output).toContain('<g data-filter-type="suggestion">');
+      expect(output).toContain('<option value="suggestion">suggestion</option>');
+    });
+
+    it('should list AI comments under their PR with links back to GitHub', () => {
+      const output = formatter.generate(sampleReport);
+
+      expect(output).toContain('<tr class="pr-row" data-types="suggestion">');
+      expect(output).toContain('<button type="button" class="toggle" aria-expanded="false">1 comment</button>');
+      expect(output).toContain('<code>src/a.ts:12</code>');
+      expect(output).toContain('<a href="https://github.com/test/repo/pull/7#discussion_r99" target="_blank" rel="noopener">View on GitHub</a>');
+    });
+
+    it('should escape text from GitHub', () => {
+      const output = formatter.generate(sampleReport);
+
+      expect(output).toContain('Fix &lt;script&gt; injection &amp; escaping');
+      expect(output).toContain('Consider using &lt;b&gt;const&lt;/b&gt;');
+      expect(output).not.toContain('<b>const</b>');
+    });
+
+    it('should return correct format', () => {
+      expect(formatter.getFormat()).toBe('html');
+    });
+  });
+
+  describe('DelimitedReportFormatter', () => {
+    const comment = {
+      id: 99,
+      url: 'https://github.com/test/repo/pull/7#discussion_r99',
+      author: 'coderabbitai[bot]',
+      createdAt: new Date('2024-01-02T00:00:00Z'),
+      type: 'suggestion',
+      body: 'Use "const",\nnot\tlet',
+      excerpt: 'Use "const", not let',
+      path: 'src/a.ts',
+      line: 12,
+      isResolved: true,
+      replies: 2,
+      positiveReactions: 1,
+      negativeReactions: 0,
+      timeToFirstReply: 5400000
+    };
+
+    const report = createMetricsReport(
+      'test/repo',
+      { start: new Date('2024-01-01'), end: new Date('2024-01-31') },
+      'coderabbitai[bot]',
+      { totalPRs: 2, totalComments: 1, averageCommentsPerPR: 0.5, positiveReactions: 1, negativeReactions: 0, repliedComments: 1, resolvedComments: 1 },
+      {
+        prBreakdown: { byState: {}, byAuthor: {} },
+        commentBreakdown: { byType: {}, byResolution: {} },
+        reactionBreakdown: { byType: {}, positiveVsNegative: { positive: 1, negative: 0 } },
+        prDetails: [
+          { number: 7, title: 'Refactor, part 1', url: 'https://github.com/test/repo/pull/7', totalComments: 1, aiComments: 1, resolvedAiComments: 1, positiveReactions: 1, negativeReactions: 0, suggestions: 2, appliedSuggestions: 1, comments: [comment] },
+          { number: 8, title: 'Docs', url: 'https://github.com/test/repo/pull/8', totalComments: 0, aiComments: 0, resolvedAiComments: 0, positiveReactions: 0, negativeReactions: 0 }
+        ]
+      }
+    );
+
+    it('should emit one quoted CSV row per AI comment', () => {
+      const lines = new DelimitedReportFormatter('csv').generate(report).split('\r\n');
+
+      expect(lines[0]).toBe('repository,pr_number,pr_title,comment_id,url,author,created_at,type,path,line,resolved,positive_reactions,negative_reactions,replies,hours_to_first_reply,body');
+      expect(lines[1]).toBe('test/repo,7,"Refactor, part 1",99,https://github.com/test/repo/pull/7#discussion_r99,coderabbitai[bot],2024-01-02T00:00:00.000Z,suggestion,src/a.ts,12,true,1,0,2,1.50,"Use ""const"",\nnot\tlet"');
+      expect(lines).toHaveLength(3);
+    });
+
+    it('should add the resolution column only when some comment has a resolution time', () => {
+      const timed = {
+        ...report,
+        detailed: { ...report.detailed, prDetails: [{ ...report.detailed.prDetails[0], comments: [{ ...comment, timeToResolution: 9000000 }] }] }
+      };
+
+      const lines = new DelimitedReportFormatter('csv').generate(timed).split('\r\n');
+
+      expect(lines[0]).toContain(',hours_to_first_reply,hours_to_resolution,body');
+      expect(lines[1]).toContain(',1.50,2.50,"Use');
+    });
+
+    it('should quote TSV fields containing tabs or line breaks', () => {
+      const row = new DelimitedReportFormatter('tsv').generate(report).split('\r\n')[1];
+
+      expect(row.startsWith('test/repo\t7\tRefactor, part 1\t99\t')).toBe(true);
+      expect(row.endsWith('\t"Use ""const"",\nnot\tlet"')).toBe(true);
+    });
+
+    it('should neutralise fields that a spreadsheet would evaluate as formulas', () => {
+      const hostile = {
+        ...report,
+        detailed: {
+          ...report.detailed,
+          prDetails: [{
+            ...report.detailed.prDetails[0],
+            title: '=HYPERLINK("https://evil.example","Click")',
+            comments: [{ ...comment, author: '@bot', path: '-src/a.ts', body: '+1\tagreed' }]
+          }]
+        }
+      };
+
+      const [, row] = new DelimitedReportFormatter('csv').generate(hostile).split('\r\n');
+      const [, prRow] = new DelimitedReportFormatter('tsv').generatePullRequestRows(hostile).split('\r\n');
+
+      expect(row).toContain(`,"'=HYPERLINK(""https://evil.example"",""Click"")",99,`);
+      expect(row).toContain(`,"'@bot",`);
+      expect(row).toContain(`,"'-src/a.ts",12,`);
+      expect(row.endsWith(`,"'+1\tagreed"`)).toBe(true);
+      expect(prRow).toBe(`test/repo\t7\t"'=HYPERLINK(""https://evil.example"",""Click"")"\thttps://github.com/test/repo/pull/7\t1\t1\t1\t1\t0\t2\t1`);
+    });
+
+    it('should emit one row per pull request', () => {
+      const lines = new DelimitedReportFormatter('csv').generatePullRequestRows(report).trimEnd().split('\r\n');
+
+      expect(lines).toEqual([
+        'repository,pr_number,title,url,total_comments,ai_comments,resolved_ai_comments,positive_reactions,negative_reactions,suggestions,applied_suggestions',
+        'test/repo,7,"Refactor, part 1",https://github.com/test/repo/pull/7,1,1,1,1,0,2,1',
+        'test/repo,8,Docs,https://github.com/test/repo/pull/8,0,0,0,0,0,,'
+      ]);
+    });
+  });
+
+  describe('Chat formatters', () => {
+    const summary = (totalComments: number, repliedComments: number, resolvedComments: number) => ({
+      totalPRs: 4,
+      totalComments,
+      averageCommentsPerPR: totalComments / 4,
+      positiveReactions: 0,
+      negativeReactions: 1,
+      repliedComments,
+      resolvedComments
+    });
+    const pr = (number: number, aiComments: number, title = `PR ${number}`) => ({
+      number,
+      title,
+      url: `https://github.com/test/repo/pull/${number}`,
+      totalComments: aiComments,
+      aiComments,
+      resolvedAiComments: 1,
+      positiveReactions: 0,
+      negativeReactions: 0
+    });
+
+    const buildReport = (): MetricsReport => createMetricsReport(
+      'test/repo',
+      { start: new Date('2024-01-08T12:00:00Z'), end: new Date('2024-01-14T12:00:00Z') },
+      'coderabbitai[bot]',
+      summary(10, 5, 4),
+      {
+        prBreakdown: { byState: {}, byAuthor: {} },
+        commentBreakdown: { byType: {}, byResolution: {} },
+        reactionBreakdown: { byType: {}, positiveVsNegative: { positive: 0, negative: 1 } },
+        prDetails: [pr(1, 1), pr(2, 5, 'Fix <script> & tags'), pr(3, 0), pr(4, 3), pr(5, 2), pr(6, 4), pr(7, 6)]
+      }
+    );
+
+    it('should build a Slack Block Kit message with headlines and top PRs', () => {
+      const message = JSON.parse(new SlackReportFormatter().generate(buildReport()));
+
+      expect(message.text).toBe('PR Metrics: test/repo: 10 AI comments on 4 PRs');
+      expect(message.blocks.map((block: any) => block.type)).toEqual(['header', 'context', 'section', 'divider', 'section']);
+      expect(message.blocks[2].fields[3].text).toBe('*Reply Rate*\n50.0%');
+
+      const topPullRequests = message.blocks[4].text.text.split('\n').slice(1);
+      expect(topPullRequests).toHaveLength(5);
+      expect(topPullRequests[0]).toBe('• <https://github.com/test/repo/pull/7|#7> PR 7: 6 AI comments, 1 resolved');
+      expect(topPullRequests[1]).toContain('Fix &lt;script&gt; &amp; tags');
+    });
+
+    it('should move a long repository list from the header to the context line', () => {
+      const report = buildReport();
+      report.repository = Array.from({ length: 20 }, (_, index) => `acme/service-${index + 1}`).join(', ');
+
+      const [header, context] = JSON.parse(new SlackReportFormatter().generate(report)).blocks;
+
+      expect(header.text.text).toBe('PR Metrics');
+      expect(context.elements.map((element: any) => element.text)).toEqual([
+        `Repositories: ${report.repository}`,
+        expect.stringContaining('AI reviewer')
+      ]);
+    });
+
+    it('should show changes since the previous report', () => {
+      const report = buildReport();
+      report.previous = {
+        period: { start: new Date('2024-01-01T12:00:00Z'), end: new Date('2024-01-07T12:00:00Z') },
+        summary: summary(8, 5, 2)
+      };
+
+      const fields = JSON.parse(new SlackReportFormatter().generate(report)).blocks[2].fields.map((field: any) => field.text);
+
+      expect(fields[0]).toBe('*Pull Requests*\n4  → 0');
+      expect(fields[1]).toBe('*AI Comments*\n10  ↑ +2');
+      expect(fields[3]).toBe('*Reply Rate*\n50.0%  ↓ -12.5 pp');
+      expect(fields[4]).toBe('*Resolution Rate*\n40.0%  ↑ +15.0 pp');
+    });
+
+    it('should build a Teams Adaptive Card message', () => {
+      const message = JSON.parse(new TeamsReportFormatter().generate(buildReport()));
+      const card = message.attachments[0];
+
+      expect(message.type).toBe('message');
+      expect(card.contentType).toBe('application/vnd.microsoft.card.adaptive');
+      expect(card.content.type).toBe('AdaptiveCard');
+
+      const facts = card.content.body.find((element: any) => element.type === 'FactSet').facts;
+      expect(facts[1]).toEqual({ title: 'AI Comments', value: '10' });
+      expect(card.content.body[card.content.body.length - 5].text).toBe('[#7](https://github.com/test/repo/pull/7) PR 7: 6 AI comments, 1 resolved');
+      expect(card.content.body[1].text).toContain('AI reviewer coderabbitai\\[bot\\]');
+    });
+
+    it('should escape Markdown in Teams PR titles', () => {
+      const report = buildReport();
+      report.detailed.prDetails[6] = { ...report.detailed.prDetails[6], repository: 'acme/my_app', title: '[WIP] *Bold* my_var_name' };
+
+      const card = JSON.parse(new TeamsReportFormatter().generate(report)).attachments[0];
+
+      expect(card.content.body[card.content.body.length - 5].text)
+        .toBe('[acme/my\\_app#7](https://github.com/test/repo/pull/7) \\[WIP\\] \\*Bold\\* my\\_var\\_name: 6 AI comments, 1 resolved');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for data storage
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataStorage } from '../../src/storage';
+import { PullRequest, Comment } from '../../src/types/core';
+
+describe('DataStorage', () => {
+  const createComment = (id: number, overrides: Partial<Comment> = {}): Comment => ({
+    id,
+    body: `Comment ${id}`,
+    author: { login: 'coderabbitai[bot]', type: 'Bot', id: 2 },
+    createdAt: new Date(`2024-01-0${id}T10:00:00Z`),
+    updatedAt: new Date(`2024-01-0${id}T10:00:00Z`),
+    isResolved: false,
+    reactions: [],
+    replies: [],
+    ...overrides
+  });
+
+  const createPR = (id: number, comments: Comment[], overrides: Partial<PullRequest> = {}): PullRequest => ({
+    id,
+    number: id,
+    title: `PR ${id}`,
+    state: 'open',
+    createdAt: new Date(`2024-01-0${id}T00:00:00Z`),
+    updatedAt: new Date(`2024-01-0${id}T00:00:00Z`),
+    author: { login: 'developer', type: 'User', id: 1 },
+    comments,
+    ...overrides
+  });
+
+  describe('mergeCollectedData', () => {
+    it('should upsert pull requests and replace comments of re-fetched PRs', () => {
+      const existingComments = [createComment(1), createComment(2), createComment(3)];
+      const existing = {
+        prs: [createPR(1, [existingComments[0], existingComments[1]]), createPR(2, [existingComments[2]])],
+        comments: existingComments
+      };
+
+      // PR 1 was updated: comment 2 was deleted and comment 4 added
+      const refreshedComment = createComment(1, { body: 'Edited' });
+      const newComment = createComment(4);
+      const updates = {
+        prs: [createPR(1, [refreshedComment, newComment], { state: 'merged' })],
+        comments: [refreshedComment, newComment]
+      };
+
+      const merged = DataStorage.mergeCollectedData(existing, updates);
+
+      expect(merged.prs.map(pr => [pr.id, pr.state])).toEqual([[2, 'open'], [1, 'merged']]);
+      expect(merged.comments.map(comment => comment.id)).toEqual([1, 3, 4]);
+      expect(merged.comments[0].body).toBe('Edited');
+    });
+
+    it('should keep the earliest observed resolution time', () => {
+      const firstSeen = new Date('2024-01-05T00:00:00Z');
+      const existing = {
+        prs: [createPR(1, [createComment(1)])],
+        comments: [createComment(1, { threadId: 't1', isResolved: true, resolvedObservedAt: firstSeen })]
+      };
+      const updates = {
+        prs: [createPR(1, [createComment(1)])],
+        comments: [createComment(1, { threadId: 't1', isResolved: true, resolvedObservedAt: new Date('2024-01-09T00:00:00Z') })]
+      };
+
+      const merged = DataStorage.mergeCollectedData(existing, updates);
+
+      expect(merged.comments[0].resolvedObservedAt).toEqual(firstSeen);
+    });
+
+    it('should only time resolutions seen changing from open to resolved', () => {
+      const observedAt = new Date('2024-01-09T00:00:00Z');
+      const existing = {
+        prs: [createPR(1, [createComment(1), createComment(2)])],
+        comments: [createComment(1, { threadId: 't1', isResolved: false }), createComment(2, { threadId: 't2', isResolved: true })]
+      };
+      const updates = {
+        prs: [createPR(1, [createComment(1), createComment(2), createComment(3)])],
+        comments: [
+          createComment(1, { threadId: 't1', isResolved: true }),
+          createComment(2, { threadId: 't2', isResolved: true }),
+          createComment(3, { threadId: 't3', isResolved: true })
+        ]
+      };
+
+      const merged = DataStorage.mergeCollectedData(existing, updates, observedAt);
+
+      expect(merged.comments.map(comment => comment.resolvedObservedAt)).toEqual([observedAt, undefined, undefined]);
+    });
+
+    it('should drop resolution times recorded by older versions', () => {
+      const comment = DataStorage.reviveComment({ ...createComment(1, { isResolved: true }), resolvedAt: '2024-01-05T00:00:00Z' });
+
+      expect(comment).not.toHaveProperty('resolvedAt');
+      expect(comment.resolvedObservedAt).toBeUndefined();
+    });
+  });
+
+  describe('saveCollectedData / loadCollectedData', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pr-metrics-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip collection history and reply context', async () => {
+      const filePath = path.join(tempDir, 'pr-data.json');
+      const reply = createComment(2, { author: { login: 'developer', type: 'User', id: 1 }, inReplyToId: 1 });
+      const comment = createComment(1, { replies: [reply] });
+      const run = {
+        startedAt: '2024-01-10T00:00:00.000Z',
+        collectedAt: '2024-01-10T00:05:00.000Z',
+        mode: 'full' as const,
+        fetchedPRs: 1,
+        fetchedComments: 1
+      };
+
+      await DataStorage.saveCollectedData(filePath, [createPR(1, [comment])], [comment], {
+        repository: 'owner/repo',
+        reviewer: 'coderabbitai[bot]',
+        period: { start: new Date('2024-01-01'), end: new Date('2024-01-10') },
+        collectionHistory: [run]
+      });
+      const loaded = await DataStorage.loadCollectedData(filePath);
+
+      expect(loaded.metadata.collectionHistory).toEqual([run]);
+      expect(loaded.comments[0].replies[0].createdAt).toBeInstanceOf(Date);
+      expect(loaded.comments[0].replies[0].author.login).toBe('developer');
+    });
+  });
+});
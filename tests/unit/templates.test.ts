@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the report template engine
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { REPORT_TEMPLATE_SCHEMA, TemplateEngine } from '../../src/templates';
+import { MarkdownReportFormatter, ReportGenerator, createMetricsReport } from '../../src/reporters';
+
+describe('TemplateEngine', () => {
+  const data = {
+    report: {
+      repository: 'acme/app',
+      summary: { totalPRs: 2, totalComments: 3, negativeReactions: 0 },
+      detailed: {
+        prBreakdown: { byState: { merged: 1, open: 1 } },
+        prDetails: [
+          { number: 1, title: 'Add cache', aiComments: 2 },
+          { number: 2, title: 'Fix typo', aiComments: 1 }
+        ]
+      }
+    }
+  };
+
+  describe('renderTemplate', () => {
+    const engine = new TemplateEngine();
+
+    it('should insert fields and call formatters with fields and literals', () => {
+      expect(engine.renderTemplate('{{report.repository}}: {{upper report.repository}}, {{truncate "abcdef" 4}}', data))
+        .toBe('acme/app: ACME/APP, abc…');
+      expect(engine.renderTemplate('[{{report.missing}}]', data)).toBe('[]');
+    });
+
+    it('should loop over lists and records', () => {
+      const template = [
+        '| PR | Title |',
+        '{{#each report.detailed.prDetails}}',
+        '| #{{number}} | {{title}} ({{@index}}, {{report.repository}}) |',
+        '{{/each}}',
+        '{{#each report.detailed.prBreakdown.byState}}{{@key}}={{this}}{{#unless @last}}, {{/unless}}{{/each}}',
+        ''
+      ].join('\n');
+
+      expect(engine.renderTemplate(template, data)).toBe([
+        '| PR | Title |',
+        '| #1 | Add cache (0, acme/app) |',
+        '| #2 | Fix typo (1, acme/app) |',
+        'merged=1, open=1',
+        ''
+      ].join('\n'));
+    });
+
+    it('should render else branches for empty lists and false conditions', () => {
+      const template = '{{#each report.none}}x{{else}}No PRs{{/each}} {{#if report.summary.negativeReactions}}bad{{else}}good{{/if}} {{#if gt report.summary.totalComments 2}}busy{{/if}}';
+
+      expect(engine.renderTemplate(template, data)).toBe('No PRs good busy');
+    });
+
+    it('should resolve the enclosing scope with ../', () => {
+      const template = '{{#each report.detailed.prDetails}}{{#each ../report.detailed.prDetails}}{{number}}{{/each}};{{/each}}';
+
+      expect(engine.renderTemplate(template, data)).toBe('12;12;');
+    });
+
+    it('should include partials in the current scope', () => {
+      const partialEngine = new TemplateEngine({ partials: { row: '- {{title}}\n' } });
+
+      expect(partialEngine.renderTemplate('{{#each report.detailed.prDetails}}\n{{> row}}\n{{/each}}\n', data))
+        .toBe('- Add cache\n- Fix typo\n');
+    });
+
+    it('should use custom formatters', () => {
+      const customEngine = new TemplateEngine();
+      customEngine.registerFormatter('stars', (count: number) => '★'.repeat(count));
+
+      expect(customEngine.renderTemplate('{{#each report.detailed.prDetails}}{{stars aiComments}} {{/each}}', data)).toBe('★★ ★ ');
+    });
+
+    it('should reject malformed templates', () => {
+      expect(() => engine.renderTemplate('{{#each report.detailed.prDetails}}', data)).toThrow('Line 1: block {{#each}} is not closed');
+      expect(() => engine.renderTemplate('{{#if a}}\n{{/each}}', data)).toThrow('Line 2: unexpected {{/each}}, expected {{/if}}');
+      expect(() => engine.renderTemplate('{{#with a}}{{/with}}', data)).toThrow('unknown block {{#with}}');
+    });
+  });
+
+  describe('validate', () => {
+    const engine = new TemplateEngine({ schema: { report: REPORT_TEMPLATE_SCHEMA } });
+
+    it('should accept known fields, loop variables and formatters', () => {
+      const template = [
+        '{{report.repository}} {{isoDate report.period.start}}',
+        '{{#each report.detailed.prDetails}}{{@index}} {{number}} {{#each comments}}{{type}} {{../title}}{{/each}}{{/each}}',
+        '{{#each report.detailed.repositoryBreakdown}}{{@key}} {{totalComments}}{{/each}}',
+        '{{#if report.summary.acceptance}}{{report.summary.acceptance.acceptanceRate}}{{/if}}'
+      ].join('\n');
+
+      expect(engine.validate(template)).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should report unknown fields, formatters and partials with their line', () => {
+      const template = [
+        '{{report.summary.totalPR}}',
+        '{{#each report.detailed.prDetails}}{{titel}}{{/each}}',
+        '{{#each report.repository}}{{/each}}',
+        '{{percent report.summary.totalPRs 1}}',
+        '{{> footer}}',
+        '{{@index}}'
+      ].join('\n');
+
+      expect(engine.validate(template).errors).toEqual([
+        'Line 1: unknown field "report.summary.totalPR"',
+        'Line 2: unknown field "titel"',
+        'Line 3: "report.repository" is not a list',
+        'Line 4: unknown formatter "percent"',
+        'Line 5: unknown partial "footer"',
+        'Line 6: @index can only be used inside {{#each}}'
+      ]);
+      expect(engine.validateTemplate(template)).toBe(false);
+    });
+
+    it('should report syntax errors', () => {
+      expect(engine.validate('{{#if report.repository}}').errors).toEqual(['Line 1: block {{#if}} is not closed']);
+    });
+  });
+
+  describe('loadTemplate', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load partials from files next to the template', async () => {
+      fs.writeFileSync(path.join(tempDir, 'report.md'), '# {{report.repository}}\n{{> footer}}\n');
+      fs.writeFileSync(path.join(tempDir, 'footer.md'), '_{{> signature}}_\n');
+      fs.writeFileSync(path.join(tempDir, 'signature'), 'generated');
+
+      const engine = new TemplateEngine();
+      const template = await engine.loadTemplate(path.join(tempDir, 'report.md'));
+
+      expect(engine.renderTemplate(template, data)).toBe('# acme/app\n_generated_\n');
+    });
+  });
+});
+
+describe('Markdown report templates', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const report = createMetricsReport(
+    'acme/app',
+    { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-01-31T00:00:00Z') },
+    'coderabbitai[bot]',
+    { totalPRs: 1, totalComments: 4, averageCommentsPerPR: 4, positiveReactions: 1, negativeReactions: 0, repliedComments: 2, resolvedComments: 3 },
+    {
+      prBreakdown: { byState: { merged: 1 }, byAuthor: {} },
+      commentBreakdown: { byType: {}, byResolution: {} },
+      reactionBreakdown: { byType: {}, positiveVsNegative: { positive: 1, negative: 0 } },
+      prDetails: [{ number: 7, title: 'Refactor', url: 'https://github.com/acme/app/pull/7', totalComments: 4, aiComments: 4, resolvedAiComments: 3, positiveReactions: 1, negativeReactions: 0 }]
+    }
+  );
+
+  it('should validate the built-in layout against the report fields', () => {
+    const formatter = new MarkdownReportFormatter();
+
+    expect(formatter.templateEngine.validate((formatter as any).getMarkdownTemplate()).errors).toEqual([]);
+  });
+
+  it('should render a template file through the report generator', async () => {
+    const templatePath = path.join(tempDir, 'weekly.md');
+    fs.writeFileSync(templatePath, [
+      '# {{report.repository}} ({{isoDate report.period.start}})',
+      'Resolved: {{percentage report.summary.resolvedComments report.summary.totalComments}}%',
+      '{{#each report.detailed.prDetails}}',
+      '- [#{{number}}]({{url}}) {{title}}',
+      '{{/each}}',
+      ''
+    ].join('\n'));
+
+    const content = await new ReportGenerator().generateReport(report, { format: 'markdown', template: templatePath });
+
+    expect(content).toBe('# acme/app (2024-01-01)\nResolved: 75.0%\n- [#7](https://github.com/acme/app/pull/7) Refactor\n');
+  });
+
+  it('should reject templates with unknown fields before rendering', async () => {
+    const templatePath = path.join(tempDir, 'broken.md');
+    fs.writeFileSync(templatePath, '{{report.summary.totalComment}}\n');
+
+    await expect(new ReportGenerator().generateReport(report, { format: 'markdown', template: templatePath }))
+      .rejects.toThrow('Line 1: unknown field "report.summary.totalComment"');
+    await expect(new ReportGenerator().generateReport(report, { format: 'json', template: templatePath }))
+      .rejects.toThrow('only be used with Markdown reports');
+  });
+});